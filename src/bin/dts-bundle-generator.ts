@@ -4,23 +4,58 @@ import * as path from 'path';
 import * as ts from 'typescript';
 import * as yargs from 'yargs';
 
-import { loadConfigFile, BundlerConfig, ConfigEntryPoint } from '../config-file/load-config-file';
+import {
+	getPackageExportsConfigEntries,
+	loadConfigFile,
+	BundlerConfig,
+	ConfigEntryPoint,
+	ConfigPackageExports,
+} from '../config-file/load-config-file';
 
-import { generateDtsBundle } from '../bundle-generator';
-import { checkProgramDiagnosticsErrors } from '../helpers/check-diagnostics-errors';
+import {
+	generateDtsBundle,
+	generateDtsBundles,
+	generateDtsBundleWithApiReport,
+	DtsBundle,
+	DtsBundleWithApiReport,
+	OutputOptions,
+} from '../bundle-generator';
+import { formatBundlesDiff, getBundlesDiff } from '../bundles-diff';
+import { checkProgramDiagnosticsErrors, DiagnosticsPolicy } from '../helpers/check-diagnostics-errors';
 import { getCompilerOptions } from '../get-compiler-options';
 import { fixPath } from '../helpers/fix-path';
+import { getAbsolutePath } from '../helpers/get-absolute-path';
+import { relocateSourceMap, RawSourceMap } from '../helpers/source-map';
+import { ReleaseTag } from '../helpers/release-tags';
 import { measureTime } from '../helpers/measure-time';
+import { watchEntries, Watcher } from '../watch';
+import { createDiagnosticsCollector, DiagnosticsCollector, DiagnosticsReportFormat } from '../diagnostics-report';
+import { formatDeclarationExplanation } from '../explain';
+import { formatUsageGraph, UsageGraph, UsageGraphFormat } from '../usage-graph';
+import { formatUnusedDeclarations, mergeUnusedDeclarations, UnusedDeclarationsFile } from '../unused-declarations';
+import { formatBundleStats, BundleStats } from '../bundle-stats';
 
 import {
-	enableNormalLog,
-	enableVerbose,
+	createConsoleLogger,
+	createJsonLinesLogger,
 	errorLog,
 	normalLog,
+	setDefaultLogger,
 	verboseLog,
 	warnLog,
+	LogLevel,
 } from '../logger';
 
+const defaultCacheDir = 'node_modules/.cache/dts-bundle-generator';
+
+interface DiagnosticsReportParams {
+	collector: DiagnosticsCollector;
+	format: DiagnosticsReportFormat;
+	outFile: string | undefined;
+}
+
+let diagnosticsReport: DiagnosticsReportParams | null = null;
+
 // tslint:disable-next-line:no-any
 function toStringsArray(data: any): string[] {
 	if (!Array.isArray(data)) {
@@ -30,6 +65,8 @@ function toStringsArray(data: any): string[] {
 	return data.map(String);
 }
 
+type StatsFormat = 'text' | 'json';
+
 interface ParsedArgs extends yargs.Arguments {
 	sort: boolean;
 	silent: boolean;
@@ -40,19 +77,70 @@ interface ParsedArgs extends yargs.Arguments {
 	'inline-declare-externals': boolean;
 	'disable-symlinks-following': boolean;
 	'no-banner': boolean;
+	'check-api-report': boolean;
 	'respect-preserve-const-enum': boolean;
 	'export-referenced-types': boolean;
+	'declaration-map': boolean;
+	watch: boolean;
+	'no-cache': boolean;
+	stats: boolean;
 
 	'out-file': string | undefined;
+	'api-report': string | undefined;
 	'umd-module-name': string | undefined;
 	project: string | undefined;
 	config: string | undefined;
+	'package-exports': string | undefined;
+	'release-level': ReleaseTag | undefined;
+	'cache-dir': string | undefined;
+	'log-format': 'text' | 'json';
+	'diagnostics-errors': 'fail' | 'warn' | undefined;
+	'diagnostics-format': DiagnosticsReportFormat | undefined;
+	'diagnostics-file': string | undefined;
+	explain: string | undefined;
+	'usage-graph': UsageGraphFormat | undefined;
+	'unused-declarations': 'text' | 'json' | undefined;
+	'stats-format': StatsFormat;
 
 	'external-inlines': string[] | undefined;
 	'external-imports': string[] | undefined;
 	'external-types': string[] | undefined;
 }
 
+interface ParsedDiffArgs extends yargs.Arguments {
+	verbose: boolean;
+	format: 'text' | 'json';
+}
+
+function parseDiffArgs(): ParsedDiffArgs {
+	return yargs(process.argv.slice(3))
+		.parserConfiguration({
+			'boolean-negation': false,
+			'camel-case-expansion': false,
+			'dot-notation': false,
+			'short-option-groups': false,
+		})
+		.usage('Usage: $0 diff [options] <old d.ts> <new d.ts>')
+		.demandCommand(2, 2)
+		.option('format', {
+			type: 'string',
+			choices: ['text', 'json'],
+			default: 'text',
+			description: 'Format of the report',
+		})
+		.option('verbose', {
+			type: 'boolean',
+			default: false,
+			description: 'Enable verbose logging',
+		})
+		.version()
+		.strict()
+		.example('$0 diff old/index.d.ts index.d.ts', '')
+		.example('$0 diff --format json old/index.d.ts index.d.ts', '')
+		.wrap(Math.min(100, yargs.terminalWidth()))
+		.argv as ParsedDiffArgs;
+}
+
 function parseArgs(): ParsedArgs {
 	return yargs
 		.parserConfiguration({
@@ -68,6 +156,15 @@ function parseArgs(): ParsedArgs {
 			type: 'string',
 			description: 'File name of generated d.ts',
 		})
+		.option('api-report', {
+			type: 'string',
+			description: 'File name of API report of generated d.ts (a listing of all declarations without comments sorted in a stable order)',
+		})
+		.option('check-api-report', {
+			type: 'boolean',
+			default: false,
+			description: 'Fail if API reports differ from generated ones instead of writing them',
+		})
 		.option('verbose', {
 			type: 'boolean',
 			default: false,
@@ -78,6 +175,13 @@ function parseArgs(): ParsedArgs {
 			default: false,
 			description: 'Disable any logging except errors',
 		})
+		.option('log-format', {
+			type: 'string',
+			choices: ['text', 'json'],
+			default: 'text',
+			description: 'Format of the log. `json` prints every message as a JSON object in a separate line ' +
+				'(with its level, code and entry if any)',
+		})
 		.option('no-check', {
 			type: 'boolean',
 			default: false,
@@ -145,10 +249,87 @@ function parseArgs(): ParsedArgs {
 			default: true,
 			description: 'By default all interfaces, types and const enums are marked as exported even if they aren\'t exported directly. This option allows you to disable this behavior so a node will be exported if it is exported from root source file only.',
 		})
+		.option('release-level', {
+			type: 'string',
+			choices: ['public', 'beta', 'alpha', 'internal'],
+			description: 'Release level of generated d.ts. If specified then declarations and class/interface members ' +
+				'marked with a release tag of a lower level (e.g. `@internal` or `@alpha` for `beta`) are removed',
+		})
+		.option('declaration-map', {
+			type: 'boolean',
+			default: false,
+			description: 'Enables generating a declaration map (.d.ts.map) for every generated d.ts, ' +
+				'which maps its declarations to their original sources',
+		})
+		.option('watch', {
+			type: 'boolean',
+			default: false,
+			description: 'Watch source files (as well as tsconfig and config files) and re-generate affected outputs on changes',
+		})
+		.option('cache-dir', {
+			type: 'string',
+			description: 'Directory to store the cache between runs in (declarations of unchanged files are re-used and unchanged entries are skipped). ' +
+				`Default value is \`compilationOptions.cacheDir\` of the config or ${defaultCacheDir}`,
+		})
+		.option('no-cache', {
+			type: 'boolean',
+			default: false,
+			description: 'Disables the cache, i.e. everything is compiled and generated from scratch',
+		})
+		.option('diagnostics-errors', {
+			type: 'string',
+			choices: ['fail', 'warn'],
+			description: 'What to do if the compilation (or the check of generated d.ts) has errors: ' +
+				'fail or log them as warnings only. Default value is `compilationOptions.diagnostics.errors` of the config or `fail`',
+		})
+		.option('diagnostics-format', {
+			type: 'string',
+			choices: ['json', 'sarif'],
+			description: 'Emits a report of all compiler diagnostics and generator warnings (and errors) in the format ' +
+				'to stdout (or to --diagnostics-file) when the generation is finished (even if it fails)',
+		})
+		.option('diagnostics-file', {
+			type: 'string',
+			description: 'File path to write the report of --diagnostics-format to',
+		})
+		.option('stats', {
+			type: 'boolean',
+			default: false,
+			description: 'Prints composition statistics of every output: statements and bytes by source files and inlined libraries, ' +
+				'imports by libraries and types references',
+		})
+		.option('stats-format', {
+			type: 'string',
+			choices: ['text', 'json'],
+			default: 'text',
+			description: 'Format of --stats',
+		})
+		.option('explain', {
+			type: 'string',
+			description: 'Name of a declaration to explain instead of generating d.ts files: prints the shortest usage chain ' +
+				'from an export of every entry to the declaration and why its module is inlined, imported or referenced',
+		})
+		.option('usage-graph', {
+			type: 'string',
+			choices: ['json', 'dot'],
+			description: 'Prints the graph of declarations which are reachable from exports of every entry ' +
+				'(with their kinds, files and how their modules are handled) in the format instead of generating d.ts files',
+		})
+		.option('unused-declarations', {
+			type: 'string',
+			choices: ['text', 'json'],
+			description: 'Prints exported declarations of local files which aren\'t a part of any output (grouped by files) ' +
+				'in the format instead of generating d.ts files',
+		})
 		.option('config', {
 			type: 'string',
 			description: 'File path to the generator config file',
 		})
+		.option('package-exports', {
+			type: 'string',
+			description: 'Path to package.json file. If specified then a d.ts file is generated for every subpath of its `exports` field ' +
+				'(to the path of the subpath\'s `types`/`import` declaration target)',
+		})
 		.option('no-banner', {
 			type: 'boolean',
 			default: false,
@@ -159,6 +340,8 @@ function parseArgs(): ParsedArgs {
 		.example('$0 path/to/your/entry-file.ts', '')
 		.example('$0 path/to/your/entry-file.ts path/to/your/entry-file-2.ts', '')
 		.example('$0 --external-types jquery react -- entry-file.ts', '')
+		.example('$0 --package-exports package.json', '')
+		.example('$0 diff old/index.d.ts index.d.ts', 'Report API changes between two bundles')
 		.wrap(Math.min(100, yargs.terminalWidth()))
 		.argv as ParsedArgs;
 }
@@ -168,25 +351,104 @@ function generateOutFileName(inputFilePath: string): string {
 	return fixPath(path.join(inputFilePath, '..', inputFileName + '.d.ts'));
 }
 
+function diffMain(): void {
+	const args = parseDiffArgs();
+	if (args.verbose) {
+		setDefaultLogger(createConsoleLogger({ level: 'verbose' }));
+		verboseLog('Verbose log enabled');
+	}
+
+	const [oldFilePath, newFilePath] = toStringsArray(args._).map((filePath: string) => path.resolve(filePath));
+	const diff = getBundlesDiff(oldFilePath, newFilePath);
+
+	// the report is the result of the command so it is printed regardless of logging options
+	console.log(args.format === 'json' ? JSON.stringify(diff, null, 2) : formatBundlesDiff(diff));
+
+	if (diff.hasBreakingChanges) {
+		process.exitCode = 1;
+	}
+}
+
 // tslint:disable-next-line:cyclomatic-complexity
 function main(): void {
+	if (process.argv[2] === 'diff') {
+		diffMain();
+		return;
+	}
+
 	const args = parseArgs();
 
 	if (args.silent && args.verbose) {
 		throw new Error('Cannot use both silent and verbose options at the same time');
-	} else if (args.verbose) {
-		enableVerbose();
-	} else if (!args.silent) {
-		enableNormalLog();
 	}
 
+	const logLevel: LogLevel = args.verbose ? 'verbose' : args.silent ? 'error' : 'normal';
+	const logger = args['log-format'] === 'json' ? createJsonLinesLogger({ level: logLevel }) : createConsoleLogger({ level: logLevel });
+
+	if (args['diagnostics-format'] !== undefined) {
+		if (args.watch) {
+			throw new Error('Cannot use diagnostics-format option in watch mode');
+		}
+
+		const collector = createDiagnosticsCollector(logger);
+		diagnosticsReport = { collector, format: args['diagnostics-format'], outFile: args['diagnostics-file'] };
+		setDefaultLogger(collector);
+	} else {
+		if (args['diagnostics-file'] !== undefined) {
+			throw new Error('diagnostics-file option requires diagnostics-format option');
+		}
+
+		setDefaultLogger(logger);
+	}
+
+	verboseLog('Verbose log enabled');
+
+	if (args.watch) {
+		if (args.explain !== undefined) {
+			throw new Error('Cannot use explain option in watch mode');
+		}
+
+		if (args['usage-graph'] !== undefined) {
+			throw new Error('Cannot use usage-graph option in watch mode');
+		}
+
+		if (args['unused-declarations'] !== undefined) {
+			throw new Error('Cannot use unused-declarations option in watch mode');
+		}
+
+		watch(args);
+		return;
+	}
+
+	const bundlerConfig = getBundlerConfig(args);
+	if (args.explain !== undefined) {
+		explainDeclaration(bundlerConfig, args.explain);
+		return;
+	}
+
+	if (args['usage-graph'] !== undefined) {
+		printUsageGraphs(bundlerConfig, args['usage-graph']);
+		return;
+	}
+
+	if (args['unused-declarations'] !== undefined) {
+		printUnusedDeclarations(bundlerConfig, args['unused-declarations']);
+		return;
+	}
+
+	checkApiReportFiles(bundlerConfig, args['check-api-report']);
+	generateBundles(bundlerConfig, args['check-api-report'], args.stats ? args['stats-format'] : undefined);
+}
+
+// tslint:disable-next-line:cyclomatic-complexity
+function getBundlerConfig(args: ParsedArgs): BundlerConfig {
 	let bundlerConfig: BundlerConfig;
 
 	if (args.config !== undefined) {
 		verboseLog(`Trying to load config from ${args.config} file...`);
 		bundlerConfig = loadConfigFile(args.config);
 	} else {
-		if (args._.length < 1) {
+		if (args._.length < 1 && args['package-exports'] === undefined) {
 			throw new Error('No input files specified');
 		}
 
@@ -194,29 +456,54 @@ function main(): void {
 			throw new Error('Cannot use outFile with multiple entries');
 		}
 
+		if (args['package-exports'] !== undefined && args['out-file']) {
+			throw new Error('Cannot use outFile with package exports');
+		}
+
+		if ((args._.length > 1 || args['package-exports'] !== undefined) && args['api-report'] !== undefined) {
+			throw new Error('Cannot use API report with multiple entries');
+		}
+
+		const entryOptions: Omit<ConfigPackageExports, 'packageJsonPath'> = {
+			noCheck: args['no-check'],
+			libraries: {
+				allowedTypesLibraries: args['external-types'],
+				importedLibraries: args['external-imports'],
+				inlinedLibraries: args['external-inlines'],
+			},
+			output: {
+				inlineDeclareExternals: args['inline-declare-externals'],
+				inlineDeclareGlobals: args['inline-declare-global'],
+				umdModuleName: args['umd-module-name'],
+				sortNodes: args.sort,
+				noBanner: args['no-banner'],
+				respectPreserveConstEnum: args['respect-preserve-const-enum'],
+				exportReferencedTypes: args['export-referenced-types'],
+				releaseLevel: args['release-level'],
+				declarationMap: args['declaration-map'],
+			},
+			failOnClass: args['fail-on-class'],
+		};
+
+		const entries = args._.map<ConfigEntryPoint>((path: string | number) => {
+			return {
+				...entryOptions,
+				filePath: String(path),
+				outFile: args['out-file'],
+				apiReportFile: args['api-report'],
+			};
+		});
+
+		if (args['package-exports'] !== undefined) {
+			entries.push(...getPackageExportsConfigEntries({
+				...entryOptions,
+				packageJsonPath: args['package-exports'],
+				preferredConfigPath: args.project,
+			}));
+		}
+
 		bundlerConfig = {
-			entries: args._.map<ConfigEntryPoint>((path: string | number) => {
-				return {
-					filePath: String(path),
-					outFile: args['out-file'],
-					noCheck: args['no-check'],
-					libraries: {
-						allowedTypesLibraries: args['external-types'],
-						importedLibraries: args['external-imports'],
-						inlinedLibraries: args['external-inlines'],
-					},
-					output: {
-						inlineDeclareExternals: args['inline-declare-externals'],
-						inlineDeclareGlobals: args['inline-declare-global'],
-						umdModuleName: args['umd-module-name'],
-						sortNodes: args.sort,
-						noBanner: args['no-banner'],
-						respectPreserveConstEnum: args['respect-preserve-const-enum'],
-						exportReferencedTypes: args['export-referenced-types'],
-					},
-					failOnClass: args['fail-on-class'],
-				};
-			}),
+			entries,
 			compilationOptions: {
 				preferredConfigPath: args.project,
 				followSymlinks: !args['disable-symlinks-following'],
@@ -226,43 +513,361 @@ function main(): void {
 
 	verboseLog(`Total entries count=${bundlerConfig.entries.length}`);
 
-	const generatedDts = generateDtsBundle(bundlerConfig.entries, bundlerConfig.compilationOptions);
+	const compilationOptions = bundlerConfig.compilationOptions || {};
+	bundlerConfig.compilationOptions = {
+		...compilationOptions,
+		cacheDir: getCacheDir(args, compilationOptions.cacheDir),
+	};
+
+	if (args['diagnostics-errors'] !== undefined) {
+		bundlerConfig.compilationOptions.diagnostics = {
+			...compilationOptions.diagnostics,
+			errors: args['diagnostics-errors'],
+		};
+	}
+
+	return bundlerConfig;
+}
+
+function getCacheDir(args: ParsedArgs, configCacheDir: string | undefined): string | undefined {
+	if (args['no-cache']) {
+		if (args['cache-dir'] !== undefined) {
+			throw new Error('Cannot use both cache-dir and no-cache options at the same time');
+		}
+
+		return undefined;
+	}
+
+	if (args['cache-dir'] !== undefined) {
+		return getAbsolutePath(args['cache-dir']);
+	}
+
+	return configCacheDir !== undefined ? configCacheDir : getAbsolutePath(defaultCacheDir);
+}
+
+function getApiReportFiles(bundlerConfig: BundlerConfig): (string | undefined)[] {
+	const apiReportFiles = bundlerConfig.entries.map((entry: ConfigEntryPoint) => entry.apiReportFile);
+	if (bundlerConfig.compilationOptions !== undefined && bundlerConfig.compilationOptions.commonChunk !== undefined) {
+		apiReportFiles.push(bundlerConfig.compilationOptions.commonChunk.apiReportFile);
+	}
+
+	return apiReportFiles;
+}
+
+function checkApiReportFiles(bundlerConfig: BundlerConfig, checkApiReports: boolean): void {
+	if (checkApiReports && getApiReportFiles(bundlerConfig).every((apiReportFile: string | undefined) => apiReportFile === undefined)) {
+		throw new Error('Cannot check API reports since there are no API report files specified');
+	}
+}
+
+function watch(args: ParsedArgs): void {
+	if (ts.sys.watchFile === undefined) {
+		throw new Error('Watching files is not supported in the current environment');
+	}
+
+	let entriesWatcher: Watcher | null = null;
+
+	const startWatching = () => {
+		try {
+			const bundlerConfig = getBundlerConfig(args);
+			checkApiReportFiles(bundlerConfig, args['check-api-report']);
+
+			entriesWatcher = watchEntries(bundlerConfig.entries, bundlerConfig.compilationOptions || {}, (entriesIndexes: number[]) => {
+				try {
+					generateBundles(
+						{ ...bundlerConfig, entries: entriesIndexes.map((index: number) => bundlerConfig.entries[index]) },
+						args['check-api-report'],
+						args.stats ? args['stats-format'] : undefined
+					);
+				} catch (ex) {
+					errorLog(`Error: ${ex.message}`);
+				}
+
+				normalLog('Watching for file changes...');
+			});
+		} catch (ex) {
+			// the config might be fixed later so keep watching it
+			errorLog(`Error: ${ex.message}`);
+		}
+	};
+
+	// entries are re-created from scratch if the config (or package.json with exports) is changed
+	const configFiles = [args.config, args['package-exports']].filter((file: string | undefined): file is string => file !== undefined);
+	for (const configFile of configFiles) {
+		ts.sys.watchFile(configFile, () => {
+			normalLog(`${configFile} is changed, restarting...`);
+			if (entriesWatcher !== null) {
+				entriesWatcher.close();
+				entriesWatcher = null;
+			}
+
+			// JS configs are loaded via `require` so they have to be removed from the cache to be re-loaded
+			// tslint:disable-next-line:no-dynamic-delete
+			delete require.cache[require.resolve(getAbsolutePath(configFile))];
+
+			startWatching();
+		});
+	}
+
+	startWatching();
+}
+
+// tslint:disable-next-line:cyclomatic-complexity
+function generateBundles(bundlerConfig: BundlerConfig, checkApiReports: boolean, statsFormat: StatsFormat | undefined): void {
+
+	const commonChunk = bundlerConfig.compilationOptions !== undefined ? bundlerConfig.compilationOptions.commonChunk : undefined;
+
+	const apiReportFiles = getApiReportFiles(bundlerConfig);
+	const withApiReports = apiReportFiles.some((apiReportFile: string | undefined) => apiReportFile !== undefined);
+
+	const isDeclarationMapEnabled = (output: OutputOptions | undefined) => output !== undefined && Boolean(output.declarationMap);
+	const withDeclarationMaps = bundlerConfig.entries.some((entry: ConfigEntryPoint) => isDeclarationMapEnabled(entry.output))
+		|| commonChunk !== undefined && isDeclarationMapEnabled(commonChunk.output);
+
+	let generatedDts: string[];
+	let apiReports: string[] = [];
+	let declarationMaps: (RawSourceMap | undefined)[] = [];
+	let stats: BundleStats[] = [];
+	if (statsFormat !== undefined) {
+		const generatedBundles = generateDtsBundles(bundlerConfig.entries, { ...bundlerConfig.compilationOptions, stats: true });
+		generatedDts = generatedBundles.map((bundle: DtsBundle) => bundle.dts);
+		apiReports = generatedBundles.map((bundle: DtsBundle) => bundle.apiReport);
+		declarationMaps = generatedBundles.map((bundle: DtsBundle) => bundle.declarationMap);
+		stats = generatedBundles.map((bundle: DtsBundle) => bundle.stats as BundleStats);
+	} else if (withApiReports || withDeclarationMaps) {
+		const generatedBundles = generateDtsBundleWithApiReport(bundlerConfig.entries, bundlerConfig.compilationOptions);
+		generatedDts = generatedBundles.map((bundle: DtsBundleWithApiReport) => bundle.dts);
+		apiReports = generatedBundles.map((bundle: DtsBundleWithApiReport) => bundle.apiReport);
+		declarationMaps = generatedBundles.map((bundle: DtsBundleWithApiReport) => bundle.declarationMap);
+	} else {
+		generatedDts = generateDtsBundle(bundlerConfig.entries, bundlerConfig.compilationOptions);
+	}
+
+	// generated files are checked with the same configs as their entries are compiled with
+	const outFilesToCheckByConfig = new Map<string | undefined, string[]>();
+	const globalPreferredConfigPath = bundlerConfig.compilationOptions !== undefined ? bundlerConfig.compilationOptions.preferredConfigPath : undefined;
+	const diagnosticsPolicy = bundlerConfig.compilationOptions !== undefined ? bundlerConfig.compilationOptions.diagnostics : undefined;
+
+	const addOutFileToCheck = (preferredConfigFile: string | undefined, outFile: string) => {
+		const outFilesToCheck = outFilesToCheckByConfig.get(preferredConfigFile);
+		if (outFilesToCheck === undefined) {
+			outFilesToCheckByConfig.set(preferredConfigFile, [outFile]);
+		} else {
+			outFilesToCheck.push(outFile);
+		}
+	};
+
+	// entries might import each other by their import paths, which aren't resolvable until the package is installed
+	const importPathsToOutFiles: ts.MapLike<string[]> = {};
 
-	const outFilesToCheck: string[] = [];
 	for (let i = 0; i < bundlerConfig.entries.length; ++i) {
 		const entry = bundlerConfig.entries[i];
 		const outFile = entry.outFile !== undefined ? entry.outFile : generateOutFileName(entry.filePath);
+		if (entry.importPath !== undefined) {
+			importPathsToOutFiles[entry.importPath] = [outFile];
+		}
 
 		normalLog(`Writing ${entry.filePath} -> ${outFile}`);
-		ts.sys.writeFile(outFile, generatedDts[i]);
+		writeDtsFile(outFile, generatedDts[i], declarationMaps[i]);
 
 		if (!entry.noCheck) {
-			outFilesToCheck.push(outFile);
+			addOutFileToCheck(entry.preferredConfigPath !== undefined ? entry.preferredConfigPath : globalPreferredConfigPath, outFile);
+		}
+	}
+
+	if (commonChunk !== undefined) {
+		normalLog(`Writing common chunk -> ${commonChunk.outFile}`);
+		writeDtsFile(commonChunk.outFile, generatedDts[bundlerConfig.entries.length], declarationMaps[bundlerConfig.entries.length]);
+
+		if (!commonChunk.noCheck) {
+			addOutFileToCheck(globalPreferredConfigPath, commonChunk.outFile);
+		}
+	}
+
+	if (statsFormat !== undefined) {
+		const outFiles = bundlerConfig.entries.map((entry: ConfigEntryPoint) => entry.outFile !== undefined ? entry.outFile : generateOutFileName(entry.filePath));
+		if (commonChunk !== undefined) {
+			outFiles.push(commonChunk.outFile);
 		}
+
+		printStats(outFiles, stats, statsFormat);
+	}
+
+	if (withApiReports) {
+		processApiReports(apiReportFiles, apiReports, checkApiReports);
 	}
 
-	if (outFilesToCheck.length === 0) {
+	if (outFilesToCheckByConfig.size === 0) {
 		normalLog('File checking is skipped (due nothing to check)');
 		return;
 	}
 
 	normalLog('Checking generated files...');
-	const preferredConfigFile = bundlerConfig.compilationOptions !== undefined ? bundlerConfig.compilationOptions.preferredConfigPath : undefined;
-	const compilerOptions = getCompilerOptions(outFilesToCheck, preferredConfigFile);
+	outFilesToCheckByConfig.forEach((outFilesToCheck: string[], preferredConfigFile: string | undefined) => {
+		// without specified config every file should be checked with its own nearest config
+		const filesGroups = preferredConfigFile === undefined ? outFilesToCheck.map((file: string) => [file]) : [outFilesToCheck];
+		for (const files of filesGroups) {
+			checkGeneratedFiles(files, preferredConfigFile, importPathsToOutFiles, diagnosticsPolicy);
+		}
+	});
+}
+
+function printStats(outFiles: ReadonlyArray<string>, stats: ReadonlyArray<BundleStats>, format: StatsFormat): void {
+	// statistics are the result of the option so they are printed regardless of logging options
+	if (format === 'json') {
+		console.log(JSON.stringify(stats.map((bundleStats: BundleStats, index: number) => ({ outFile: outFiles[index], ...bundleStats })), null, 2));
+		return;
+	}
+
+	stats.forEach((bundleStats: BundleStats, index: number) => {
+		console.log(`${outFiles[index]}:\n${formatBundleStats(bundleStats).replace(/^/gm, '  ')}`);
+	});
+}
+
+function explainDeclaration(bundlerConfig: BundlerConfig, name: string): void {
+	const bundles = generateDtsBundles(bundlerConfig.entries, { ...bundlerConfig.compilationOptions, explain: name });
+
+	bundles.forEach((bundle: DtsBundle, index: number) => {
+		const entryName = index < bundlerConfig.entries.length ? bundlerConfig.entries[index].filePath : 'common chunk';
+		const explanations = bundle.explanations || [];
+
+		// the explanation is the result of the option so it is printed regardless of logging options
+		console.log(`${entryName}:`);
+		if (explanations.length === 0) {
+			console.log(`  declaration "${name}" is not found`);
+			return;
+		}
+
+		for (const explanation of explanations) {
+			console.log(formatDeclarationExplanation(explanation).replace(/^/gm, '  '));
+		}
+	});
+}
+
+function printUsageGraphs(bundlerConfig: BundlerConfig, format: UsageGraphFormat): void {
+	const bundles = generateDtsBundles(bundlerConfig.entries, { ...bundlerConfig.compilationOptions, usageGraph: true });
+	const graphs = bundles.map((bundle: DtsBundle, index: number) => {
+		return {
+			entry: index < bundlerConfig.entries.length ? bundlerConfig.entries[index].filePath : 'common chunk',
+			graph: bundle.usageGraph as UsageGraph,
+		};
+	});
+
+	// graphs are the result of the option so they are printed regardless of logging options
+	if (format === 'json') {
+		console.log(JSON.stringify(graphs, null, 2));
+		return;
+	}
+
+	// every entry has its own graph (a DOT file might contain several ones)
+	for (const { entry, graph } of graphs) {
+		console.log(formatUsageGraph(graph, format, entry));
+	}
+}
+
+function printUnusedDeclarations(bundlerConfig: BundlerConfig, format: 'text' | 'json'): void {
+	const bundles = generateDtsBundles(bundlerConfig.entries, { ...bundlerConfig.compilationOptions, unusedDeclarations: true });
+	const result = mergeUnusedDeclarations(bundles.map((bundle: DtsBundle) => bundle.unusedDeclarations as UnusedDeclarationsFile[]));
+
+	// the report is the result of the option so it is printed regardless of logging options
+	console.log(format === 'json' ? JSON.stringify(result, null, 2) : formatUnusedDeclarations(result));
+}
+
+/**
+ * Files with the same content aren't re-written to avoid triggering watchers of tools which use them.
+ */
+function writeFileIfChanged(fileName: string, content: string): void {
+	if (ts.sys.readFile(fileName) === content) {
+		verboseLog(`File ${fileName} is up to date`);
+		return;
+	}
+
+	ts.sys.writeFile(fileName, content);
+}
+
+function writeDtsFile(outFile: string, dts: string, declarationMap: RawSourceMap | undefined): void {
+	if (declarationMap === undefined) {
+		writeFileIfChanged(outFile, dts);
+		return;
+	}
+
+	const declarationMapFile = `${outFile}.map`;
+	verboseLog(`Writing declaration map -> ${declarationMapFile}`);
+
+	writeFileIfChanged(outFile, `${dts}//# sourceMappingURL=${path.basename(declarationMapFile)}\n`);
+	writeFileIfChanged(declarationMapFile, JSON.stringify(relocateSourceMap(declarationMap, outFile)));
+}
+
+function processApiReports(apiReportFiles: ReadonlyArray<string | undefined>, apiReports: ReadonlyArray<string>, checkOnly: boolean): void {
+	const outdatedApiReports: string[] = [];
+
+	apiReportFiles.forEach((apiReportFile: string | undefined, index: number) => {
+		if (apiReportFile === undefined) {
+			return;
+		}
+
+		if (!checkOnly) {
+			normalLog(`Writing API report -> ${apiReportFile}`);
+			writeFileIfChanged(apiReportFile, apiReports[index]);
+			return;
+		}
+
+		const existingApiReport = ts.sys.readFile(apiReportFile);
+		if (existingApiReport === undefined || existingApiReport.replace(/\r\n/g, '\n') !== apiReports[index]) {
+			outdatedApiReports.push(apiReportFile);
+		}
+	});
+
+	if (outdatedApiReports.length !== 0) {
+		throw new Error(`API report(s) differ from generated ones (run without --check-api-report to update them):\n  ${outdatedApiReports.join('\n  ')}`);
+	}
+
+	if (checkOnly) {
+		normalLog('API reports are up to date');
+	}
+}
+
+function checkGeneratedFiles(
+	outFilesToCheck: string[],
+	preferredConfigFile: string | undefined,
+	importPathsToOutFiles: ts.MapLike<string[]>,
+	diagnosticsPolicy: DiagnosticsPolicy | undefined
+): void {
+	const compilerOptions = getCompilerOptions(outFilesToCheck, preferredConfigFile, diagnosticsPolicy);
 	if (compilerOptions.skipLibCheck) {
 		compilerOptions.skipLibCheck = false;
-		warnLog('Compiler option "skipLibCheck" is disabled to properly check generated output');
+		warnLog('Compiler option "skipLibCheck" is disabled to properly check generated output', { code: 'skip-lib-check-disabled' });
 	}
 
+	compilerOptions.paths = { ...compilerOptions.paths, ...importPathsToOutFiles };
+
 	const program = ts.createProgram(outFilesToCheck, compilerOptions);
-	checkProgramDiagnosticsErrors(program);
+	checkProgramDiagnosticsErrors(program, diagnosticsPolicy);
+}
+
+function writeDiagnosticsReport(): void {
+	if (diagnosticsReport === null) {
+		return;
+	}
+
+	const report = diagnosticsReport.collector.getReport(diagnosticsReport.format);
+	if (diagnosticsReport.outFile === undefined) {
+		// the report is the result of the option so it is printed regardless of logging options
+		console.log(report);
+		return;
+	}
+
+	normalLog(`Writing diagnostics report -> ${diagnosticsReport.outFile}`);
+	ts.sys.writeFile(diagnosticsReport.outFile, report);
 }
 
 try {
 	const executionTime = measureTime(main);
 	normalLog(`Done in ${(executionTime / 1000).toFixed(2)}s`);
+	writeDiagnosticsReport();
 } catch (ex) {
 	normalLog('');
 	errorLog(`Error: ${ex.message}`);
+	writeDiagnosticsReport();
 	process.exit(1);
 }
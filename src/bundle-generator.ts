@@ -1,14 +1,20 @@
 import * as ts from 'typescript';
 import * as path from 'path';
 
-import { compileDts } from './compile-dts';
+import { compileDts, getCompilationConfig, getProgramCompilation, CompileDtsResult } from './compile-dts';
+import { createFileSystemCache, getCacheKey, Cache } from './cache';
+import { FileSystem } from './file-system';
+import { getConfigFileName } from './get-compiler-options';
 import { TypesUsageEvaluator } from './types-usage-evaluator';
 import {
 	getActualSymbol,
+	getBindingNameIdentifiers,
 	getDeclarationNameSymbol,
 	getDeclarationsForSymbol,
 	getExportsForSourceFile,
 	getExportsForStatement,
+	getModuleSymbolSourceFile,
+	getStatementDeclarationNames,
 	hasNodeModifier,
 	isAmbientModule,
 	isDeclarationFromExternalModule,
@@ -19,9 +25,11 @@ import {
 	resolveIdentifier,
 	SourceFileExport,
 	splitTransientSymbol,
+	ExportType,
 } from './helpers/typescript';
 
 import { fixPath } from './helpers/fix-path';
+import { getAbsolutePath } from './helpers/get-absolute-path';
 
 import {
 	getModuleInfo,
@@ -30,12 +38,62 @@ import {
 	ModuleType,
 } from './module-info';
 
-import { generateOutput, ModuleImportsSet } from './generate-output';
+import {
+	generateApiReport,
+	generateOutput,
+	ModuleImportsSet,
+	NamespaceDeclaration,
+	OutputParams,
+} from './generate-output';
+import { getRenamedSymbols, NamedSymbol } from './collisions-resolver';
+import { findReferencedProject, getReferencedProjectModuleSpecifier } from './project-references';
+import { getNodeReleaseTag, isNodeTrimmed, isReleaseTag, ReleaseTag } from './helpers/release-tags';
+import { applyPluginsOutputTransforms, getPluginsStatementTransformer, BundlerPlugin, PluginContext } from './plugins';
+import { generateDeclarationMap } from './declaration-map';
+import { explainDeclarations, DeclarationExplanation } from './explain';
+import { getUsageGraph, UsageGraph } from './usage-graph';
+import { getUnusedDeclarations, UnusedDeclarationsFile } from './unused-declarations';
+import { getBundleStats, BundleStats } from './bundle-stats';
+import { RawSourceMap } from './helpers/source-map';
+
+import { getBundleDiagnostic, getNodeLocation, BundleDiagnostic, DiagnosticsPolicy } from './helpers/check-diagnostics-errors';
 
 import {
+	logWarningsAgain,
 	normalLog,
 	verboseLog,
 	warnLog,
+	withLogContext,
+	withLogger,
+	Logger,
+	LogMessage,
+} from './logger';
+
+export { getBundlesDiff, formatBundlesDiff, ApiChange, ApiChangeKind, BundlesDiff } from './bundles-diff';
+export { BundlerPlugin, PluginContext } from './plugins';
+export { RawSourceMap } from './helpers/source-map';
+export { BundleDiagnostic, DiagnosticsPolicy } from './helpers/check-diagnostics-errors';
+export { createInMemoryFileSystem, FileSystem } from './file-system';
+export { formatDeclarationExplanation, DeclarationExplanation, DeclarationUsageChainItem } from './explain';
+export { formatUsageGraph, UsageGraph, UsageGraphEdge, UsageGraphFormat, UsageGraphNode } from './usage-graph';
+export { formatUnusedDeclarations, mergeUnusedDeclarations, UnusedDeclaration, UnusedDeclarationsFile } from './unused-declarations';
+export { formatBundleStats, BundleFileStats, BundleLibraryStats, BundleStats, BundleStatementsStats } from './bundle-stats';
+export { ModuleTypeName } from './module-info';
+export {
+	createDiagnosticsCollector,
+	formatDiagnosticsReport,
+	DiagnosticsCollector,
+	DiagnosticsReportFormat,
+	DiagnosticsReportItem,
+} from './diagnostics-report';
+export {
+	createConsoleLogger,
+	createJsonLinesLogger,
+	ConsoleLoggerOptions,
+	JsonLinesLoggerOptions,
+	LogLevel,
+	LogMessage,
+	Logger,
 } from './logger';
 
 export interface CompilationOptions {
@@ -49,8 +107,92 @@ export interface CompilationOptions {
 
 	/**
 	 * Path to the tsconfig file that will be used for the compilation.
+	 * Could be overridden for an entry by `EntryPointConfig.preferredConfigPath`.
 	 */
 	preferredConfigPath?: string;
+
+	/**
+	 * Enables emitting declarations which are used by several entries into a common chunk.
+	 * In this case entries import these declarations from the chunk
+	 * (and re-export ones which would be exported if they were emitted in the entry's output, e.g. referenced types),
+	 * so the same type is the same for all entries.
+	 * The chunk's output is returned after the entries' outputs.
+	 * All entries must be compiled with the same tsconfig.
+	 */
+	commonChunk?: CommonChunkOptions;
+
+	/**
+	 * Plugins which are applied to all entries (and the common chunk).
+	 */
+	plugins?: BundlerPlugin[];
+
+	/**
+	 * Path to a directory to store the cache between runs in.
+	 * If specified, declarations of a source file are re-emitted (as well as an entry's output is re-generated)
+	 * only if files it depends on, compiler options, its config or the generator's version are changed since the previous run.
+	 * Outputs of entries with plugins (as well as ones of the common chunk) are never cached.
+	 */
+	cacheDir?: string;
+
+	/**
+	 * File system which is used to read files (source files, tsconfig files and so on) and to write files of the cache.
+	 * See `createInMemoryFileSystem` to compile files which don't exist on the disk.
+	 * By default `ts.sys` is used.
+	 */
+	fileSystem?: FileSystem;
+
+	/**
+	 * Logger which receives messages logged while generating bundles.
+	 * See `createConsoleLogger` and `createJsonLinesLogger` for built-in loggers.
+	 * By default only errors are printed to the console.
+	 */
+	logger?: Logger;
+
+	/**
+	 * Defines how diagnostics of the compilation are handled (by default errors fail the generation).
+	 * Diagnostics which aren't ignored are returned in `diagnostics` of bundles' metadata as well.
+	 */
+	diagnostics?: DiagnosticsPolicy;
+
+	/**
+	 * Name of a declaration to explain why it is (or isn't) a part of outputs,
+	 * see `explanations` of bundles' metadata.
+	 */
+	explain?: string;
+
+	/**
+	 * Whether the graph of declarations which are reachable from exports should be returned
+	 * in `usageGraph` of bundles' metadata (e.g. to visualize it).
+	 */
+	usageGraph?: boolean;
+
+	/**
+	 * Whether exported declarations of local files which aren't a part of any output should be returned
+	 * in `unusedDeclarations` of bundles' metadata (e.g. to find dead public types or forgotten exports).
+	 * Outputs aren't cached if it is enabled because the report depends on all entries.
+	 */
+	unusedDeclarations?: boolean;
+
+	/**
+	 * Whether composition statistics of outputs should be returned in `stats` of bundles' metadata
+	 * (e.g. to track growth of outputs or to catch accidental inlining of large libraries).
+	 */
+	stats?: boolean;
+}
+
+export interface CommonChunkOptions {
+	/**
+	 * Module specifier which is used by entries to import declarations from the common chunk, e.g. `./common`.
+	 */
+	importPath: string;
+
+	/**
+	 * Libraries options for the common chunk.
+	 * Note that libraries declarations of which are shared between entries are inlined into the chunk regardless of these options.
+	 */
+	libraries?: LibrariesOptions;
+
+	output?: OutputOptions;
 }
 
 export interface OutputOptions {
@@ -91,8 +233,26 @@ export interface OutputOptions {
 	/**
 	 * By default all interfaces, types and const enums are marked as exported even if they aren't exported directly.
 	 * This option allows you to disable this behavior so a node will be exported if it is exported from root source file only.
+	 * Declarations renamed to avoid names collisions (e.g. `Options$1`) aren't marked as exported in any case.
 	 */
 	exportReferencedTypes?: boolean;
+
+	/**
+	 * Release level of the output.
+	 * If specified then declarations (and class/interface members) which are marked with a release tag
+	 * of a lower level (e.g. `alpha` or `internal` ones for `beta` level) are removed from the output.
+	 * Declarations without release tags are treated as `@public` (members inherit release tags of their containers).
+	 */
+	releaseLevel?: ReleaseTag;
+
+	/**
+	 * Enables generating a declaration map of the output, which maps every declaration of the output (and its members)
+	 * to its original location in the sources (using declaration maps of compiled declaration files
+	 * as well as `<file>.d.ts.map` files next to declaration files which are built already, e.g. by tsc with `declarationMap` option).
+	 * The map is returned in `declarationMap` of results of `generateDtsBundleWithApiReport`, `generateDtsBundles` and `generateDtsBundlesForProgram`
+	 * (`generateDtsBundle` returns texts of outputs only).
+	 */
+	declarationMap?: boolean;
 }
 
 export interface LibrariesOptions {
@@ -130,12 +290,401 @@ export interface EntryPointConfig {
 	failOnClass?: boolean;
 
 	output?: OutputOptions;
+
+	/**
+	 * Path to the tsconfig file that will be used for the compilation of the entry.
+	 * If it isn't specified, `CompilationOptions.preferredConfigPath` is used
+	 * or (if it isn't specified either) the nearest tsconfig file to the entry's file.
+	 * Entries with the same tsconfig are compiled together.
+	 */
+	preferredConfigPath?: string;
+
+	/**
+	 * Module specifier which is used to import the entry from other entries (e.g. `my-package/testing`).
+	 * If it is specified, declarations exported from the entry are imported by other entries instead of inlining.
+	 */
+	importPath?: string;
+
+	/**
+	 * Plugins which are applied to the entry only (after `CompilationOptions.plugins`).
+	 */
+	plugins?: BundlerPlugin[];
+}
+
+export interface DtsBundleWithApiReport {
+	/**
+	 * Generated d.ts of the entry.
+	 */
+	dts: string;
+
+	/**
+	 * API report of the entry, i.e. a listing of all declarations of generated d.ts without comments sorted in a stable order.
+	 * It is intended to be committed and reviewed to track changes of the public API.
+	 */
+	apiReport: string;
+
+	/**
+	 * Declaration map of generated d.ts if `output.declarationMap` option is enabled.
+	 * Note that paths of its sources are absolute and its `file` field is empty
+	 * (they should be changed according to the path of the output file).
+	 */
+	declarationMap?: RawSourceMap;
+}
+
+export interface BundleImports {
+	defaultImports: string[];
+	starImports: string[];
+	namedImports: string[];
+	requireImports: string[];
+}
+
+export interface BundleRenamedExport {
+	localName: string;
+	exportedName: string;
+}
+
+export interface DtsBundleMetadata {
+	/**
+	 * Paths of source files (local ones as well as ones of inlined libraries) declarations of which are inlined into the output.
+	 */
+	inlinedFiles: string[];
+
+	/**
+	 * Imports of the output by module specifiers (of libraries, other entries or the common chunk).
+	 */
+	imports: Record<string, BundleImports>;
+
+	/**
+	 * Libraries referenced via `/// <reference types="..." />` directives of the output.
+	 */
+	typesReferences: string[];
+
+	/**
+	 * Exports of the output which are emitted via `export { ... }` statement (e.g. renamed or default ones)
+	 * instead of `export` keyword of declarations.
+	 */
+	renamedExports: BundleRenamedExport[];
+
+	/**
+	 * Warnings logged while compiling the entry and generating its output.
+	 */
+	warnings: string[];
+
+	/**
+	 * Diagnostics of the compilation of the entry (entries compiled with the same tsconfig share it).
+	 */
+	diagnostics: BundleDiagnostic[];
+
+	/**
+	 * Explanations of top-level declarations with the name specified in `explain` compilation option
+	 * (only if the option is specified).
+	 */
+	explanations?: DeclarationExplanation[];
+
+	/**
+	 * Graph of declarations which are reachable from exports of the output (only if `usageGraph` compilation option is enabled).
+	 */
+	usageGraph?: UsageGraph;
+
+	/**
+	 * Exported declarations of local files which aren't a part of any output grouped by files
+	 * (only if `unusedDeclarations` compilation option is enabled, entries compiled with the same tsconfig share it).
+	 * Files without unused declarations have empty lists, see `mergeUnusedDeclarations` to merge reports of all entries.
+	 */
+	unusedDeclarations?: UnusedDeclarationsFile[];
+
+	/**
+	 * Composition statistics of the output (only if `stats` compilation option is enabled).
+	 */
+	stats?: BundleStats;
 }
 
+export interface DtsBundle extends DtsBundleWithApiReport, DtsBundleMetadata {}
+
 export function generateDtsBundle(entries: ReadonlyArray<EntryPointConfig>, options: CompilationOptions = {}): string[] {
+	return generateBundleOutputs(entries, options, false).map((output: BundleOutput) => output.dts);
+}
+
+/**
+ * The same as `generateDtsBundle`, but returns API reports of generated bundles as well.
+ */
+export function generateDtsBundleWithApiReport(entries: ReadonlyArray<EntryPointConfig>, options: CompilationOptions = {}): DtsBundleWithApiReport[] {
+	return generateBundleOutputs(entries, options, true).map((output: BundleOutput) => {
+		const result: DtsBundleWithApiReport = {
+			dts: output.dts,
+			apiReport: output.apiReport as string,
+		};
+
+		if (output.declarationMap !== null) {
+			result.declarationMap = output.declarationMap;
+		}
+
+		return result;
+	});
+}
+
+/**
+ * The same as `generateDtsBundleWithApiReport`, but returns metadata of generated bundles as well
+ * (inlined files, imports, warnings and so on).
+ */
+export function generateDtsBundles(entries: ReadonlyArray<EntryPointConfig>, options: CompilationOptions = {}): DtsBundle[] {
+	return generateBundleOutputs(entries, options, true).map(getDtsBundle);
+}
+
+/**
+ * The same as `generateDtsBundles`, but uses a program provided by the caller (or the program of the language service)
+ * instead of compiling the entries, e.g. if the caller's build has the program already.
+ * The program is expected to consist of declaration files (e.g. emitted by the build)
+ * and to have entries' files as its root files (an entry might be specified by its declaration file or by its source file next to it).
+ * The program's diagnostics are checked according to `diagnostics` option (e.g. use `ignoreFiles` to skip files which are checked by the build already).
+ * Note that `preferredConfigPath`, `followSymlinks` and `cacheDir` options are ignored.
+ */
+export function generateDtsBundlesForProgram(
+	programOrLanguageService: ts.Program | ts.LanguageService,
+	entries: ReadonlyArray<EntryPointConfig>,
+	options: CompilationOptions = {}
+): DtsBundle[] {
+	const program = 'getProgram' in programOrLanguageService ? programOrLanguageService.getProgram() : programOrLanguageService;
+	if (program === undefined) {
+		throw new Error('Cannot get the program of the language service');
+	}
+
+	return withLogger(options.logger, () => {
+		const compilationWarnings: LogMessage[] = [];
+		const compilation = withLogContext(
+			{ warnings: compilationWarnings },
+			() => getProgramCompilation(
+				program,
+				entries.map((entry: EntryPointConfig) => entry.filePath),
+				areDeclarationMapsRequired(entries, options),
+				options.fileSystem,
+				options.diagnostics
+			)
+		);
+
+		return generateDtsBundleForCompilation(entries, compilation, compilationWarnings, options, true).map(getDtsBundle);
+	});
+}
+
+function getDtsBundle(output: BundleOutput): DtsBundle {
+	const { apiReport, declarationMap, loggedWarnings, ...bundle } = output;
+	const result: DtsBundle = {
+		...bundle,
+		apiReport: apiReport as string,
+	};
+
+	if (declarationMap !== null) {
+		result.declarationMap = declarationMap;
+	}
+
+	return result;
+}
+
+function generateBundleOutputs(entries: ReadonlyArray<EntryPointConfig>, options: CompilationOptions, withApiReports: boolean): BundleOutput[] {
+	return withLogger(options.logger, () => generateBundleOutputsForProjects(entries, options, withApiReports));
+}
+
+function generateBundleOutputsForProjects(entries: ReadonlyArray<EntryPointConfig>, options: CompilationOptions, withApiReports: boolean): BundleOutput[] {
+	// a single entry might be compiled with the config specified in the options only (or found by the compiler)
+	// so there is no need to group entries by configs in this case
+	if (entries.length === 1 && entries[0].preferredConfigPath === undefined) {
+		return generateDtsBundleForProject(entries, options.preferredConfigPath, options, withApiReports);
+	}
+
+	const entriesByConfig = new Map<string, number[]>();
+	entries.forEach((entry: EntryPointConfig, index: number) => {
+		const configPath = getAbsolutePath(
+			getConfigFileName(
+				[entry.filePath],
+				entry.preferredConfigPath !== undefined ? entry.preferredConfigPath : options.preferredConfigPath,
+				options.fileSystem
+			)
+		);
+
+		const configEntries = entriesByConfig.get(configPath);
+		if (configEntries === undefined) {
+			entriesByConfig.set(configPath, [index]);
+		} else {
+			configEntries.push(index);
+		}
+	});
+
+	if (options.commonChunk !== undefined) {
+		if (entriesByConfig.size > 1) {
+			throw new Error('Cannot generate common chunk for entries compiled with different tsconfig files');
+		}
+
+		// all entries are compiled together so the result is in the entries order already
+		return generateDtsBundleForProject(entries, Array.from(entriesByConfig.keys())[0], options, withApiReports);
+	}
+
+	const result: BundleOutput[] = [];
+
+	entriesByConfig.forEach((entriesIndexes: number[], configPath: string) => {
+		const projectResult = generateDtsBundleForProject(
+			entriesIndexes.map((index: number) => entries[index]),
+			configPath,
+			options,
+			withApiReports
+		);
+
+		// results must be returned in the same order as entries are passed
+		entriesIndexes.forEach((entryIndex: number, index: number) => {
+			result[entryIndex] = projectResult[index];
+		});
+	});
+
+	return result;
+}
+
+const silentLogger: Logger = { log: () => undefined };
+
+function generateDtsBundleForProject(
+	entries: ReadonlyArray<EntryPointConfig>,
+	configPath: string | undefined,
+	options: CompilationOptions,
+	withApiReports: boolean
+): BundleOutput[] {
+	const cache = options.cacheDir !== undefined ? createFileSystemCache(options.cacheDir, options.fileSystem) : null;
+	if (cache === null || options.commonChunk !== undefined || options.unusedDeclarations || options.plugins !== undefined && options.plugins.length !== 0) {
+		// plugins can't be a part of a cache key so their outputs are never cached
+		// as well as the common chunk and the report of unused declarations, which depend on all entries
+		return generateDtsBundleForProjectWithoutCache(entries, configPath, options, withApiReports, cache).outputs;
+	}
+
+	// the config is parsed silently here because it is parsed (and its diagnostics are logged) while compiling the entries again
+	// so if it has diagnostics the entries are compiled to log them (or to fail) as usual
+	const { compilerOptions, diagnostics: configDiagnostics } = withLogger(silentLogger, () => getCompilationConfig(
+		entries.map((entry: EntryPointConfig) => entry.filePath),
+		configPath,
+		options.fileSystem,
+		{ ...options.diagnostics, errors: 'warn' }
+	));
+
+	if (configDiagnostics.length !== 0) {
+		return generateDtsBundleForProjectWithoutCache(entries, configPath, options, withApiReports, cache).outputs;
+	}
+
+	const entriesCacheKeys = entries.map((entry: EntryPointConfig) => {
+		if (entry.plugins !== undefined && entry.plugins.length !== 0) {
+			return null;
+		}
+
+		return getCacheKey(
+			'bundle',
+			getAbsolutePath(entry.filePath),
+			entry,
+			compilerOptions,
+			options.followSymlinks !== false,
+			options.diagnostics,
+			options.explain,
+			Boolean(options.usageGraph),
+			Boolean(options.stats),
+			withApiReports
+		);
+	});
+
+	const outputs = entriesCacheKeys.map((cacheKey: string | null) => cacheKey !== null ? cache.get<BundleOutput>(cacheKey) : null);
+
+	let entriesToGenerate = entries.map((entry: EntryPointConfig, index: number) => index).filter((index: number) => outputs[index] === null);
+	if (entriesToGenerate.length === 0) {
+		normalLog('Inputs of all entries are unchanged, using cached outputs');
+		for (const output of outputs as BundleOutput[]) {
+			logWarningsAgain(output.loggedWarnings);
+		}
+
+		return outputs as BundleOutput[];
+	}
+
+	// entries might import each other so they have to be generated together
+	if (entries.some((entry: EntryPointConfig) => entry.importPath !== undefined)) {
+		entriesToGenerate = entries.map((entry: EntryPointConfig, index: number) => index);
+	}
+
+	entries.forEach((entry: EntryPointConfig, index: number) => {
+		if (entriesToGenerate.indexOf(index) === -1) {
+			normalLog(`Inputs of ${entry.filePath} are unchanged, using cached output`);
+			logWarningsAgain((outputs[index] as BundleOutput).loggedWarnings);
+		}
+	});
+
+	const { outputs: generatedOutputs, getFileDependencies } = generateDtsBundleForProjectWithoutCache(
+		entriesToGenerate.map((index: number) => entries[index]),
+		configPath,
+		options,
+		withApiReports,
+		cache
+	);
+
+	entriesToGenerate.forEach((entryIndex: number, index: number) => {
+		outputs[entryIndex] = generatedOutputs[index];
+
+		const cacheKey = entriesCacheKeys[entryIndex];
+		if (cacheKey !== null) {
+			cache.set(cacheKey, generatedOutputs[index], getFileDependencies(getAbsolutePath(entries[entryIndex].filePath)));
+		}
+	});
+
+	return outputs as BundleOutput[];
+}
+
+interface ProjectBundles {
+	outputs: BundleOutput[];
+	getFileDependencies(fileName: string): string[];
+}
+
+/**
+ * Compiles the entries and generates their outputs (the cache is used for emitted declarations only).
+ */
+function generateDtsBundleForProjectWithoutCache(
+	entries: ReadonlyArray<EntryPointConfig>,
+	configPath: string | undefined,
+	options: CompilationOptions,
+	withApiReports: boolean,
+	cache: Cache | null
+): ProjectBundles {
 	normalLog('Compiling input files...');
 
-	const { program, rootFilesRemapping } = compileDts(entries.map((entry: EntryPointConfig) => entry.filePath), options.preferredConfigPath, options.followSymlinks);
+	const compilationWarnings: LogMessage[] = [];
+	const compilation = withLogContext({ warnings: compilationWarnings }, () => compileDts(
+		entries.map((entry: EntryPointConfig) => entry.filePath),
+		{
+			preferredConfigPath: configPath,
+			followSymlinks: options.followSymlinks,
+			generateDeclarationMaps: areDeclarationMapsRequired(entries, options),
+			cache,
+			fileSystem: options.fileSystem,
+			diagnosticsPolicy: options.diagnostics,
+		}
+	));
+
+	return {
+		outputs: generateDtsBundleForCompilation(entries, compilation, compilationWarnings, options, withApiReports),
+		getFileDependencies: compilation.getFileDependencies,
+	};
+}
+
+function areDeclarationMapsRequired(entries: ReadonlyArray<EntryPointConfig>, options: CompilationOptions): boolean {
+	// declaration maps are used to explain declarations by their locations in source files as well
+	return entries.some((entry: EntryPointConfig) => entry.output !== undefined && Boolean(entry.output.declarationMap))
+		|| options.commonChunk !== undefined && options.commonChunk.output !== undefined && Boolean(options.commonChunk.output.declarationMap)
+		|| options.explain !== undefined
+		|| Boolean(options.unusedDeclarations);
+}
+
+/**
+ * Generates outputs of the entries from the compiled program.
+ * Warnings of the compilation are added to warnings of every entry.
+ */
+function generateDtsBundleForCompilation(
+	entries: ReadonlyArray<EntryPointConfig>,
+	compilation: CompileDtsResult,
+	compilationWarnings: ReadonlyArray<LogMessage>,
+	options: CompilationOptions,
+	withApiReports: boolean
+): BundleOutput[] {
+	const { program, rootFilesRemapping, referencedProjects, declarationMaps, declarationsSources, diagnostics } = compilation;
+	const bundleDiagnostics = diagnostics.map(getBundleDiagnostic);
 	const typeChecker = program.getTypeChecker();
 
 	const typeRoots = ts.getEffectiveTypeRoots(program.getCompilerOptions(), {});
@@ -148,32 +697,67 @@ export function generateDtsBundle(entries: ReadonlyArray<EntryPointConfig>, opti
 
 	const typesUsageEvaluator = new TypesUsageEvaluator(sourceFiles, typeChecker);
 
-	// tslint:disable-next-line:cyclomatic-complexity
-	return entries.map((entry: EntryPointConfig) => {
-		normalLog(`Processing ${entry.filePath}`);
+	// declarations trimmed due their release tags don't use anything so every release level needs its own usages
+	const releaseLevelsUsageEvaluators = new Map<ReleaseTag, TypesUsageEvaluator>();
+	const getTypesUsageEvaluator = (releaseLevel: ReleaseTag | undefined): TypesUsageEvaluator => {
+		if (releaseLevel === undefined) {
+			return typesUsageEvaluator;
+		}
 
-		const newRootFilePath = rootFilesRemapping.get(entry.filePath);
-		if (newRootFilePath === undefined) {
-			throw new Error(`Cannot remap root source file ${entry.filePath}`);
+		let evaluator = releaseLevelsUsageEvaluators.get(releaseLevel);
+		if (evaluator === undefined) {
+			evaluator = new TypesUsageEvaluator(sourceFiles, typeChecker, (node: ts.Node) => isNodeTrimmed(node, releaseLevel));
+			releaseLevelsUsageEvaluators.set(releaseLevel, evaluator);
 		}
 
-		const rootSourceFile = getRootSourceFile(program, newRootFilePath);
-		const rootSourceFileSymbol = typeChecker.getSymbolAtLocation(rootSourceFile);
-		if (rootSourceFileSymbol === undefined) {
-			throw new Error(`Symbol for root source file ${newRootFilePath} not found`);
+		return evaluator;
+	};
+
+	const globalPlugins = options.plugins || [];
+
+	const collectBundle = (params: BundleCollectingParams): CollectedBundle => {
+		const { rootSourceFile, outputOptions } = params;
+		const { releaseLevel } = outputOptions;
+		if (releaseLevel !== undefined && !isReleaseTag(releaseLevel)) {
+			throw new Error(`Unknown release level "${releaseLevel}"`);
 		}
 
-		const librariesOptions: LibrariesOptions = entry.libraries || {};
+		const bundleUsageEvaluator = getTypesUsageEvaluator(releaseLevel);
+		const isBundleNodeTrimmed = (node: ts.Node) => releaseLevel !== undefined && isNodeTrimmed(node, releaseLevel);
+
+		const rootFileExports = params.rootFileExports.filter((exp: SourceFileExport) => {
+			const declarations = getDeclarationsForSymbol(exp.symbol);
+			const isTrimmed = declarations.length !== 0 && declarations.every(isBundleNodeTrimmed);
+			if (isTrimmed) {
+				verboseLog(`Export "${exp.exportedName}" is trimmed due its release tag`);
+			}
+
+			return !isTrimmed;
+		});
+
+		const rootFileExportSymbols = rootFileExports.map((exp: SourceFileExport) => exp.symbol);
 
 		const criteria: ModuleCriteria = {
-			allowedTypesLibraries: librariesOptions.allowedTypesLibraries,
-			importedLibraries: librariesOptions.importedLibraries,
-			inlinedLibraries: librariesOptions.inlinedLibraries || [],
+			allowedTypesLibraries: params.libraries.allowedTypesLibraries,
+			importedLibraries: params.libraries.importedLibraries,
+			inlinedLibraries: params.libraries.inlinedLibraries || [],
 			typeRoots,
+			referencedProjects,
 		};
 
-		const rootFileExports = getExportsForSourceFile(typeChecker, rootSourceFileSymbol);
-		const rootFileExportSymbols = rootFileExports.map((exp: SourceFileExport) => exp.symbol);
+		const getBundleModuleInfo = (fileName: string): ModuleInfo => {
+			const moduleInfo = getModuleInfo(fileName, criteria);
+			if (moduleInfo.type === ModuleType.ShouldBeInlined || !params.forceInlinedFiles.has(fileName)) {
+				return moduleInfo;
+			}
+
+			return {
+				type: ModuleType.ShouldBeInlined,
+				fileName: moduleInfo.fileName,
+				isExternal: moduleInfo.isExternal,
+				reason: 'the file contains declarations which are shared by several entries so they are inlined into the common chunk',
+			};
+		};
 
 		const collectionResult: CollectingResult = {
 			typesReferences: new Set(),
@@ -182,22 +766,36 @@ export function generateDtsBundle(entries: ReadonlyArray<EntryPointConfig>, opti
 			renamedExports: [],
 		};
 
-		const outputOptions: OutputOptions = entry.output || {};
-
 		const updateResultCommonParams = {
-			isStatementUsed: (statement: ts.Statement | ts.SourceFile) => isNodeUsed(statement, rootFileExportSymbols, typesUsageEvaluator, typeChecker),
+			isStatementUsed: (statement: ts.Statement | ts.SourceFile) => isNodeUsed(statement, rootFileExportSymbols, bundleUsageEvaluator, typeChecker),
 			shouldStatementBeImported: (statement: ts.DeclarationStatement) => {
 				return shouldNodeBeImported(
 					statement,
 					rootFileExportSymbols,
-					typesUsageEvaluator,
+					bundleUsageEvaluator,
 					typeChecker,
 					isSourceFileDefaultLibrary.bind(null, program)
 				);
 			},
 			shouldDeclareGlobalBeInlined: (currentModule: ModuleInfo) => Boolean(outputOptions.inlineDeclareGlobals) && currentModule.type === ModuleType.ShouldBeInlined,
 			shouldDeclareExternalModuleBeInlined: () => Boolean(outputOptions.inlineDeclareExternals),
-			getModuleInfo: (fileName: string) => getModuleInfo(fileName, criteria),
+			getModuleInfo: getBundleModuleInfo,
+			getImportModuleSpecifier: (importModuleSpecifier: string, importingFileName: string) => {
+				if (!importModuleSpecifier.startsWith('.')) {
+					return importModuleSpecifier;
+				}
+
+				// a relative import of a module from a referenced project must be replaced with an import of its package
+				// because the project is imported as a library
+				const moduleFileName = resolveModuleFileName(importingFileName, importModuleSpecifier);
+				const referencedProject = findReferencedProject(moduleFileName, referencedProjects);
+				if (referencedProject === null || referencedProject === findReferencedProject(importingFileName, referencedProjects)) {
+					return importModuleSpecifier;
+				}
+
+				const moduleSpecifier = getReferencedProjectModuleSpecifier(moduleFileName, referencedProject);
+				return moduleSpecifier !== null ? moduleSpecifier : importModuleSpecifier;
+			},
 			resolveIdentifier: (identifier: ts.Identifier) => resolveIdentifier(typeChecker, identifier),
 			getDeclarationsForExportedAssignment: (exportAssignment: ts.ExportAssignment) => {
 				const symbolForExpression = typeChecker.getSymbolAtLocation(exportAssignment.expression);
@@ -209,7 +807,7 @@ export function generateDtsBundle(entries: ReadonlyArray<EntryPointConfig>, opti
 				return getDeclarationsForSymbol(symbol);
 			},
 			getDeclarationUsagesSourceFiles: (declaration: ts.NamedDeclaration) => {
-				return getDeclarationUsagesSourceFiles(declaration, rootFileExportSymbols, typesUsageEvaluator, typeChecker);
+				return getDeclarationUsagesSourceFiles(declaration, rootFileExportSymbols, bundleUsageEvaluator, typeChecker);
 			},
 			areDeclarationSame: (left: ts.NamedDeclaration, right: ts.NamedDeclaration) => {
 				const leftSymbols = splitTransientSymbol(getNodeSymbol(left, typeChecker) as ts.Symbol, typeChecker);
@@ -219,133 +817,596 @@ export function generateDtsBundle(entries: ReadonlyArray<EntryPointConfig>, opti
 			},
 		};
 
-		for (const sourceFile of sourceFiles) {
-			verboseLog(`\n\n======= Preparing file: ${sourceFile.fileName} =======`);
+		for (const sourceFile of sourceFiles) {
+			verboseLog(`\n\n======= Preparing file: ${sourceFile.fileName} =======`);
+
+			const prevStatementsCount = collectionResult.statements.length;
+			const updateFn = sourceFile === rootSourceFile ? updateResultForRootSourceFile : updateResult;
+			const currentModule = getBundleModuleInfo(sourceFile.fileName);
+			const params: UpdateParams = {
+				...updateResultCommonParams,
+				currentModule,
+				statements: sourceFile.statements,
+			};
+
+			updateFn(params, collectionResult);
+
+			// handle `import * as module` usage if it's used as whole module
+			if (currentModule.type === ModuleType.ShouldBeImported && updateResultCommonParams.isStatementUsed(sourceFile)) {
+				updateImportsForStatement(sourceFile, params, collectionResult);
+			}
+
+			if (collectionResult.statements.length === prevStatementsCount) {
+				verboseLog(`No output for file: ${sourceFile.fileName}`);
+			}
+		}
+
+		if (releaseLevel !== undefined) {
+			removeTrimmedExports(collectionResult, rootFileExports, isBundleNodeTrimmed, typeChecker);
+			checkTrimmedStatements(collectionResult.statements, releaseLevel, rootFileExportSymbols, bundleUsageEvaluator, typeChecker);
+		}
+
+		if (params.failOnClass) {
+			const classes = collectionResult.statements.filter(ts.isClassDeclaration);
+			if (classes.length !== 0) {
+				const classesNames = classes.map((c: ts.ClassDeclaration) => c.name === undefined ? 'anonymous class' : c.name.text);
+				throw new Error(`${classes.length} class statement(s) are found in generated dts: ${classesNames.join(', ')}`);
+			}
+		}
+
+		return {
+			rootSourceFile,
+			rootFileExports,
+			outputOptions,
+			collectionResult,
+			typesUsageEvaluator: bundleUsageEvaluator,
+			getModuleInfo: getBundleModuleInfo,
+			plugins: params.plugins,
+			warnings: params.warnings,
+		};
+	};
+
+	const resolveBundleNames = (bundle: CollectedBundle, importedBundles: ReadonlyArray<ImportedBundle>): BundleNames => {
+		const { rootFileExports, collectionResult } = bundle;
+
+		// namespaces are collected from all statements (including imported ones)
+		// because their members might be imported from other bundles
+		const namespaces = collectNamespaces(
+			collectionResult.statements,
+			rootFileExports,
+			typeChecker,
+			(sourceFile: ts.SourceFile) => bundle.getModuleInfo(sourceFile.fileName).type === ModuleType.ShouldBeInlined
+		);
+
+		const importedDeclarations = getImportedDeclarations(collectionResult.statements, importedBundles, typeChecker);
+		const importedSymbols = new Set<ts.Symbol>();
+		const importedNamedSymbols: NamedSymbol[] = [];
+		for (const imported of importedDeclarations) {
+			for (const declaration of imported.declarations) {
+				importedSymbols.add(declaration.symbol);
+				importedNamedSymbols.push(declaration);
+			}
+		}
+
+		const rootFileExportSymbols = rootFileExports.map((exp: SourceFileExport) => exp.symbol);
+		const ownStatements = collectionResult.statements.filter((statement: ts.Statement) => {
+			if (importedBundles.some((importedBundle: ImportedBundle) => importedBundle.statements.has(statement))) {
+				return false;
+			}
+
+			// declarations which are used by imported declarations only aren't needed anymore
+			return importedSymbols.size === 0
+				|| isDeclareGlobalStatement(statement)
+				|| getStatementDeclarationNames(statement).length === 0
+				|| isNodeUsed(statement, rootFileExportSymbols, bundle.typesUsageEvaluator, typeChecker, importedSymbols);
+		});
+
+		const renamedSymbols = getRenamedSymbols(
+			{
+				statements: ownStatements,
+				additionalDeclarations: [...namespaces, ...importedNamedSymbols],
+				reservedNames: getImportedNames(collectionResult.imports),
+				isSymbolPublic: (symbol: ts.Symbol) => {
+					// names in the common chunk aren't a part of the public API
+					// because they are imported and re-exported by entries
+					if (bundle.rootSourceFile === null) {
+						return false;
+					}
+
+					return rootFileExports.some((exp: SourceFileExport) => exp.symbol === symbol && exp.exportedName === exp.originalName)
+						|| namespaces.some((namespace: CollectedNamespace) => namespace.symbol === symbol && namespace.isExported);
+				},
+			},
+			typeChecker
+		);
+
+		// a module might be referenced by different names in different files (e.g. `import * as name from './module'`)
+		// but in the output all of them should reference the same namespace
+		for (const namespace of namespaces) {
+			if (!renamedSymbols.has(namespace.symbol)) {
+				renamedSymbols.set(namespace.symbol, namespace.name);
+			}
+		}
+
+		return { namespaces, renamedSymbols, ownStatements, importedDeclarations };
+	};
+
+	// tslint:disable-next-line:cyclomatic-complexity
+	const generateBundleOutput = (bundle: CollectedBundle, bundleNames: BundleNames): BundleOutput => {
+		const { rootSourceFile, rootFileExports, outputOptions, collectionResult, plugins } = bundle;
+		const { namespaces, renamedSymbols, ownStatements, importedDeclarations } = bundleNames;
+		const rootFileExportSymbols = rootFileExports.map((exp: SourceFileExport) => exp.symbol);
+
+		const pluginContext: PluginContext = {
+			entryFilePath: rootSourceFile !== null ? rootSourceFile.fileName : null,
+			typeChecker,
+		};
+
+		for (const plugin of plugins) {
+			if (plugin.onStatementCollected !== undefined) {
+				verboseLog(`Applying plugin "${plugin.name}" to collected statements`);
+				for (const statement of ownStatements) {
+					plugin.onStatementCollected(statement, pluginContext);
+				}
+			}
+		}
+
+		// by default this option should be enabled
+		const exportReferencedTypes = outputOptions.exportReferencedTypes !== false;
+
+		const getReferenceNewName = (reference: ts.Identifier | ts.ImportTypeNode): string | null => {
+			if (renamedSymbols.size === 0) {
+				return null;
+			}
+
+			const symbol = ts.isIdentifier(reference)
+				? getDeclarationNameSymbol(reference, typeChecker)
+				: typeChecker.getSymbolAtLocation(reference);
+
+			if (symbol === null || symbol === undefined) {
+				return null;
+			}
+
+			const newName = renamedSymbols.get(symbol);
+			return newName !== undefined ? newName : null;
+		};
+
+		const getOutputName = (symbol: ts.Symbol, originalName: string) => {
+			const newName = renamedSymbols.get(symbol);
+			return newName !== undefined ? newName : originalName;
+		};
+
+		const imports = new Map(collectionResult.imports);
+		const renamedExports = getRenamedExportsText(collectionResult.renamedExports, getReferenceNewName);
+
+		// names of renamed declarations (e.g. `Options$1`) shouldn't become a part of the public API
+		// but declarations of the common chunk are imported by entries by their names so they have to be exported
+		const isRenamedPrivateStatement = (statement: ts.Statement, statementExports: ReadonlyArray<SourceFileExport>) => {
+			if (statementExports.length !== 0 || rootSourceFile === null) {
+				return false;
+			}
+
+			return getStatementDeclarationNames(statement).some((name: ts.Identifier) => {
+				const symbol = getDeclarationNameSymbol(name, typeChecker);
+				return symbol !== null && getOutputName(symbol, name.text) !== name.text;
+			});
+		};
+
+		const shouldStatementHasExportKeyword = (statement: ts.Statement) => {
+			const statementExports = getExportsForStatement(rootFileExports, typeChecker, statement);
+
+			// if true - no direct export was found
+			// that means that node might have an export keyword (like interface, type, etc)
+			// otherwise, if there are only re-exports with renaming (like export { foo as bar })
+			// we don't need to put export keyword for this statement
+			// because we'll re-export it in the way
+			const hasStatementedDefaultKeyword = hasNodeModifier(statement, ts.SyntaxKind.DefaultKeyword);
+			let result = statementExports.length === 0 || statementExports.find((exp: SourceFileExport) => {
+				// "directly" means "without renaming" or "without additional node/statement"
+				// for instance, `class A {} export default A;` - here `statement` is `class A {}`
+				// it's default exported by `export default A;`, but class' statement itself doesn't have `export` keyword
+				// so we shouldn't add this either
+				const shouldBeDefaultExportedDirectly = exp.exportedName === 'default' && hasStatementedDefaultKeyword;
+				return shouldBeDefaultExportedDirectly || exp.exportedName === exp.originalName;
+			}) !== undefined;
+
+			// "direct export" means export from the root source file
+			// e.g. classes/functions/etc must be exported from the root source file to have an "export" keyword
+			// by default interfaces/types are exported even if they aren't directly exported (e.g. when they are referenced by other types)
+			// but if `exportReferencedTypes` option is disabled we have to check direct export for them either
+			const onlyDirectlyExportedShouldBeExported = !exportReferencedTypes
+				|| ts.isClassDeclaration(statement)
+				|| (ts.isEnumDeclaration(statement) && !hasNodeModifier(statement, ts.SyntaxKind.ConstKeyword))
+				|| ts.isFunctionDeclaration(statement)
+				|| ts.isVariableStatement(statement);
+
+			if (onlyDirectlyExportedShouldBeExported) {
+				// "valuable" statements must be re-exported from root source file
+				// to having export keyword in declaration file
+				result = result && statementExports.length !== 0;
+			} else if (isAmbientModule(statement) || ts.isExportDeclaration(statement) || isRenamedPrivateStatement(statement, statementExports)) {
+				result = false;
+			}
+
+			return result;
+		};
+
+		for (const imported of importedDeclarations) {
+			addImportedBundleImports(imports, imported, getOutputName);
+			renamedExports.push(...getImportedDeclarationsReExports(imported.declarations, rootFileExports, renamedExports, getOutputName));
+
+			if (imported.bundle.reExportReferencedDeclarations) {
+				renamedExports.push(...getImportedReferencedDeclarationsReExports(imported.declarations, rootFileExports, getOutputName, shouldStatementHasExportKeyword));
+			}
+		}
+
+		const outputParams: OutputParams = {
+			...collectionResult,
+			imports,
+			statements: ownStatements,
+			namespaces: namespaces.map((namespace: CollectedNamespace): NamespaceDeclaration => ({
+				name: getOutputName(namespace.symbol, namespace.name),
+				isExported: namespace.isExported,
+				members: namespace.members.map((member: NamespaceMember) => {
+					const localName = getOutputName(member.symbol, member.localName);
+					return localName === member.exportedName ? localName : `${localName} as ${member.exportedName}`;
+				}),
+			})),
+			renamedExports,
+			getReferenceNewName,
+			needStripDefaultKeywordForStatement: (statement: ts.Statement) => {
+				const statementExports = getExportsForStatement(rootFileExports, typeChecker, statement);
+
+				// if true - no direct export was found
+				// that means that node might have an export keyword (like interface, type, etc)
+				// otherwise, if there are only re-exports with renaming (like export { foo as bar })
+				// we don't need to put export keyword for this statement
+				// because we'll re-export it in the way
+				return statementExports.find((exp: SourceFileExport) => exp.exportedName === 'default') === undefined;
+			},
+
+			shouldStatementHasExportKeyword,
+			shouldVariableHasExportKeyword: (variableName: ts.Identifier) => {
+				// variables must be exported directly from the root source file to have an "export" keyword
+				const variableSymbol = getDeclarationNameSymbol(variableName, typeChecker);
+				return rootFileExports.some((exp: SourceFileExport) => exp.symbol === variableSymbol && exp.exportedName === exp.originalName);
+			},
+			isNodeTrimmed: (node: ts.Node) => outputOptions.releaseLevel !== undefined && isNodeTrimmed(node, outputOptions.releaseLevel),
+			transformStatement: getPluginsStatementTransformer(plugins, pluginContext),
+			isVariableUsed: (variableName: ts.Identifier) => {
+				const variableSymbol = getDeclarationNameSymbol(variableName, typeChecker);
+				return variableSymbol !== null && isSymbolUsed(variableSymbol, rootFileExportSymbols, bundle.typesUsageEvaluator);
+			},
+			needStripConstFromConstEnum: (constEnum: ts.EnumDeclaration) => {
+				if (!program.getCompilerOptions().preserveConstEnums || !outputOptions.respectPreserveConstEnum) {
+					return false;
+				}
+
+				const enumSymbol = getNodeSymbol(constEnum, typeChecker);
+				if (enumSymbol === null) {
+					return false;
+				}
+
+				return rootFileExportSymbols.includes(enumSymbol);
+			},
+			needStripImportFromImportTypeNode: (node: ts.ImportTypeNode) => {
+				if (node.qualifier === undefined) {
+					return false;
+				}
+
+				if (!ts.isLiteralTypeNode(node.argument) || !ts.isStringLiteral(node.argument.literal)) {
+					return false;
+				}
+
+				// we don't need to specify exact file here since we need to figure out whether a file is external or internal one
+				const moduleFileName = resolveModuleFileName((rootSourceFile !== null ? rootSourceFile : node.getSourceFile()).fileName, node.argument.literal.text);
+				return !bundle.getModuleInfo(moduleFileName).isExternal;
+			},
+		};
+
+		const dts = applyPluginsOutputTransforms(
+			plugins,
+			generateOutput(outputParams, {
+				sortStatements: outputOptions.sortNodes,
+				umdModuleName: outputOptions.umdModuleName,
+				noBanner: outputOptions.noBanner,
+			}),
+			pluginContext
+		);
+
+		const output: BundleOutput = {
+			dts,
+			apiReport: withApiReports ? generateApiReport(outputParams) : null,
+			declarationMap: outputOptions.declarationMap
+				? generateDeclarationMap(dts, { declarationsNames: getOutputDeclarationsNames(ownStatements, getOutputName, typeChecker), declarationMaps })
+				: null,
+			inlinedFiles: getInlinedFiles(ownStatements, declarationsSources),
+			imports: getBundleImports(imports),
+			typesReferences: Array.from(collectionResult.typesReferences).sort(),
+			renamedExports: renamedExports.map((renamedExport: string): BundleRenamedExport => {
+				const names = renamedExport.split(' as ');
+				return { localName: names[0], exportedName: names[names.length - 1] };
+			}),
+			warnings: bundle.warnings.map((warning: LogMessage) => warning.message),
+			diagnostics: bundleDiagnostics,
+			loggedWarnings: bundle.warnings.slice(),
+		};
+
+		if (options.explain !== undefined) {
+			output.explanations = explainDeclarations(options.explain, {
+				sourceFiles,
+				typeChecker,
+				rootFileExports,
+				typesUsageEvaluator: bundle.typesUsageEvaluator,
+				declarationMaps,
+				declarationsSources,
+				getModuleInfo: bundle.getModuleInfo,
+			});
+		}
+
+		if (options.stats) {
+			output.stats = getBundleStats(dts, {
+				declarationsNames: getOutputDeclarationsNames(ownStatements, getOutputName, typeChecker),
+				declarationsSources,
+				imports: getImportsCounts(output.imports),
+				typesReferences: output.typesReferences,
+				getModuleInfo: bundle.getModuleInfo,
+			});
+		}
+
+		if (options.usageGraph) {
+			output.usageGraph = getUsageGraph({
+				rootFileExports,
+				typesUsageEvaluator: bundle.typesUsageEvaluator,
+				declarationsSources,
+				isDefaultLibrary: isSourceFileDefaultLibrary.bind(null, program),
+				getModuleInfo: bundle.getModuleInfo,
+			});
+		}
+
+		return output;
+	};
+
+	// generating of an output might log warnings as well (e.g. if a declaration cannot be renamed)
+	const generateBundleOutputWithNames = (bundle: CollectedBundle, importedBundles: ReadonlyArray<ImportedBundle>, entryFilePath: string): BundleOutput => {
+		return withLogContext(
+			{ warnings: bundle.warnings, entryFilePath },
+			() => generateBundleOutput(bundle, resolveBundleNames(bundle, importedBundles))
+		);
+	};
+
+	const bundles = entries.map((entry: EntryPointConfig) => {
+		normalLog(`Processing ${entry.filePath}`);
+
+		const newRootFilePath = rootFilesRemapping.get(entry.filePath);
+		if (newRootFilePath === undefined) {
+			throw new Error(`Cannot remap root source file ${entry.filePath}`);
+		}
+
+		const rootSourceFile = getRootSourceFile(program, newRootFilePath);
+		const rootSourceFileSymbol = typeChecker.getSymbolAtLocation(rootSourceFile);
+		if (rootSourceFileSymbol === undefined) {
+			throw new Error(`Symbol for root source file ${newRootFilePath} not found`);
+		}
+
+		const warnings = [...compilationWarnings];
+		return withLogContext({ warnings, entryFilePath: entry.filePath }, () => collectBundle({
+			rootSourceFile,
+			rootFileExports: getExportsForSourceFile(typeChecker, rootSourceFileSymbol),
+			libraries: entry.libraries || {},
+			outputOptions: entry.output || {},
+			failOnClass: Boolean(entry.failOnClass),
+			forceInlinedFiles: new Set(),
+			plugins: [...globalPlugins, ...(entry.plugins || [])],
+			warnings,
+		}));
+	});
+
+	// declarations exported from entries which can be imported by other entries
+	// are imported from them instead of inlining
+	const entriesImportedBundles = getEntriesImportedBundles(entries, bundles, typeChecker);
+	const getEntryImportedBundles = (entryIndex: number) => {
+		return entriesImportedBundles.filter((importedBundle: EntryImportedBundle) => importedBundle.entryIndex !== entryIndex);
+	};
+
+	const addUnusedDeclarations = (collectedBundles: ReadonlyArray<CollectedBundle>, outputs: BundleOutput[]): BundleOutput[] => {
+		if (!options.unusedDeclarations) {
+			return outputs;
+		}
+
+		const usedStatements = new Set<ts.Statement>();
+		for (const bundle of collectedBundles) {
+			bundle.collectionResult.statements.forEach((statement: ts.Statement) => usedStatements.add(statement));
+		}
+
+		const unusedDeclarations = getUnusedDeclarations({
+			sourceFiles,
+			typeChecker,
+			usedStatements,
+			declarationMaps,
+			declarationsSources,
+			isLocalFile: (fileName: string) => !getModuleInfo(fileName, { inlinedLibraries: [], importedLibraries: undefined, allowedTypesLibraries: undefined, typeRoots, referencedProjects }).isExternal,
+		});
+
+		for (const output of outputs) {
+			output.unusedDeclarations = unusedDeclarations;
+		}
+
+		return outputs;
+	};
+
+	if (options.commonChunk === undefined) {
+		return addUnusedDeclarations(
+			bundles,
+			bundles.map((bundle: CollectedBundle, index: number) => generateBundleOutputWithNames(bundle, getEntryImportedBundles(index), entries[index].filePath))
+		);
+	}
+
+	normalLog('Processing common chunk');
+
+	const sharedStatements = getSharedStatements(
+		bundles.map((bundle: CollectedBundle, index: number) => {
+			const importedBundles = getEntryImportedBundles(index);
+			return bundle.collectionResult.statements.filter((statement: ts.Statement) => {
+				return importedBundles.every((importedBundle: ImportedBundle) => !importedBundle.statements.has(statement));
+			});
+		})
+	);
+
+	verboseLog(`Statements used by several entries: ${sharedStatements.length}`);
+
+	// the common chunk is collected as an entry which exports every shared declaration
+	// so all dependencies of shared declarations are collected as well
+	const commonChunkOptions = options.commonChunk;
+	const commonChunkWarnings = [...compilationWarnings];
+	const commonChunkBundle = withLogContext({ warnings: commonChunkWarnings }, () => collectBundle({
+		rootSourceFile: null,
+		rootFileExports: getCommonChunkExports(sharedStatements, typeChecker),
+		libraries: commonChunkOptions.libraries || {},
+		outputOptions: commonChunkOptions.output || {},
+		failOnClass: false,
+		// shared statements must be inlined into the chunk even if their modules would be imported by the chunk's libraries options
+		forceInlinedFiles: new Set(sharedStatements.map((statement: ts.Statement) => statement.getSourceFile().fileName)),
+		plugins: globalPlugins,
+		warnings: commonChunkWarnings,
+	}));
+
+	const commonChunkNames = withLogContext({ warnings: commonChunkWarnings }, () => resolveBundleNames(commonChunkBundle, []));
+	const commonChunkImportedBundle: ImportedBundle = {
+		importPath: commonChunkOptions.importPath,
+		statements: new Set(commonChunkBundle.collectionResult.statements),
+		reExportReferencedDeclarations: true,
+		getExportedName: (symbol: ts.Symbol, originalName: string) => {
+			const newName = commonChunkNames.renamedSymbols.get(symbol);
+			return newName !== undefined ? newName : originalName;
+		},
+	};
+
+	const result = bundles.map((bundle: CollectedBundle, index: number) => {
+		const importedBundles: ImportedBundle[] = [...getEntryImportedBundles(index), commonChunkImportedBundle];
+		return generateBundleOutputWithNames(bundle, importedBundles, entries[index].filePath);
+	});
+
+	result.push(withLogContext({ warnings: commonChunkWarnings }, () => generateBundleOutput(commonChunkBundle, commonChunkNames)));
+
+	return addUnusedDeclarations([...bundles, commonChunkBundle], result);
+}
+
+interface BundleOutput extends DtsBundleMetadata {
+	dts: string;
+
+	/**
+	 * `null` if API reports aren't requested.
+	 */
+	apiReport: string | null;
+
+	/**
+	 * `null` if the declaration map isn't requested.
+	 */
+	declarationMap: RawSourceMap | null;
+
+	/**
+	 * Warnings of the bundle with their details (to log them again if the output is taken from the cache).
+	 */
+	loggedWarnings: LogMessage[];
+}
+
+interface BundleCollectingParams {
+	/**
+	 * Root source file of the entry (`null` for the common chunk).
+	 */
+	rootSourceFile: ts.SourceFile | null;
+	rootFileExports: SourceFileExport[];
+	libraries: LibrariesOptions;
+	outputOptions: OutputOptions;
+	failOnClass: boolean;
+
+	/**
+	 * Files which must be inlined regardless of libraries options.
+	 */
+	forceInlinedFiles: Set<string>;
 
-			const prevStatementsCount = collectionResult.statements.length;
-			const updateFn = sourceFile === rootSourceFile ? updateResultForRootSourceFile : updateResult;
-			const currentModule = getModuleInfo(sourceFile.fileName, criteria);
-			const params: UpdateParams = {
-				...updateResultCommonParams,
-				currentModule,
-				statements: sourceFile.statements,
-			};
+	plugins: ReadonlyArray<BundlerPlugin>;
 
-			updateFn(params, collectionResult);
+	/**
+	 * Warnings of the bundle (warnings logged while collecting the bundle are added to it).
+	 */
+	warnings: LogMessage[];
+}
 
-			// handle `import * as module` usage if it's used as whole module
-			if (currentModule.type === ModuleType.ShouldBeImported && updateResultCommonParams.isStatementUsed(sourceFile)) {
-				updateImportsForStatement(sourceFile, params, collectionResult);
-			}
+interface CollectedBundle {
+	rootSourceFile: ts.SourceFile | null;
+	rootFileExports: SourceFileExport[];
+	outputOptions: OutputOptions;
+	collectionResult: CollectingResult;
+	typesUsageEvaluator: TypesUsageEvaluator;
+	plugins: ReadonlyArray<BundlerPlugin>;
+	warnings: LogMessage[];
+	getModuleInfo(fileName: string): ModuleInfo;
+}
 
-			if (collectionResult.statements.length === prevStatementsCount) {
-				verboseLog(`No output for file: ${sourceFile.fileName}`);
-			}
-		}
+interface BundleNames {
+	namespaces: CollectedNamespace[];
+	renamedSymbols: Map<ts.Symbol, string>;
 
-		if (entry.failOnClass) {
-			const classes = collectionResult.statements.filter(ts.isClassDeclaration);
-			if (classes.length !== 0) {
-				const classesNames = classes.map((c: ts.ClassDeclaration) => c.name === undefined ? 'anonymous class' : c.name.text);
-				throw new Error(`${classes.length} class statement(s) are found in generated dts: ${classesNames.join(', ')}`);
-			}
-		}
+	/**
+	 * Statements which should be emitted in the bundle (i.e. without imported ones).
+	 */
+	ownStatements: ts.Statement[];
 
-		// by default this option should be enabled
-		const exportReferencedTypes = outputOptions.exportReferencedTypes !== false;
+	importedDeclarations: ImportedDeclarations[];
+}
 
-		return generateOutput(
-			{
-				...collectionResult,
-				needStripDefaultKeywordForStatement: (statement: ts.Statement) => {
-					const statementExports = getExportsForStatement(rootFileExports, typeChecker, statement);
-
-					// if true - no direct export was found
-					// that means that node might have an export keyword (like interface, type, etc)
-					// otherwise, if there are only re-exports with renaming (like export { foo as bar })
-					// we don't need to put export keyword for this statement
-					// because we'll re-export it in the way
-					return statementExports.find((exp: SourceFileExport) => exp.exportedName === 'default') === undefined;
-				},
+/**
+ * A bundle which declarations are imported by other bundles instead of emitting them there
+ * (e.g. the common chunk or an entry with `importPath`).
+ */
+interface ImportedBundle {
+	importPath: string;
 
-				shouldStatementHasExportKeyword: (statement: ts.Statement) => {
-					const statementExports = getExportsForStatement(rootFileExports, typeChecker, statement);
-
-					// if true - no direct export was found
-					// that means that node might have an export keyword (like interface, type, etc)
-					// otherwise, if there are only re-exports with renaming (like export { foo as bar })
-					// we don't need to put export keyword for this statement
-					// because we'll re-export it in the way
-					const hasStatementedDefaultKeyword = hasNodeModifier(statement, ts.SyntaxKind.DefaultKeyword);
-					let result = statementExports.length === 0 || statementExports.find((exp: SourceFileExport) => {
-						// "directly" means "without renaming" or "without additional node/statement"
-						// for instance, `class A {} export default A;` - here `statement` is `class A {}`
-						// it's default exported by `export default A;`, but class' statement itself doesn't have `export` keyword
-						// so we shouldn't add this either
-						const shouldBeDefaultExportedDirectly = exp.exportedName === 'default' && hasStatementedDefaultKeyword;
-						return shouldBeDefaultExportedDirectly || exp.exportedName === exp.originalName;
-					}) !== undefined;
-
-					// "direct export" means export from the root source file
-					// e.g. classes/functions/etc must be exported from the root source file to have an "export" keyword
-					// by default interfaces/types are exported even if they aren't directly exported (e.g. when they are referenced by other types)
-					// but if `exportReferencedTypes` option is disabled we have to check direct export for them either
-					const onlyDirectlyExportedShouldBeExported = !exportReferencedTypes
-						|| ts.isClassDeclaration(statement)
-						|| (ts.isEnumDeclaration(statement) && !hasNodeModifier(statement, ts.SyntaxKind.ConstKeyword))
-						|| ts.isFunctionDeclaration(statement)
-						|| ts.isVariableStatement(statement);
-
-					if (onlyDirectlyExportedShouldBeExported) {
-						// "valuable" statements must be re-exported from root source file
-						// to having export keyword in declaration file
-						result = result && statementExports.length !== 0;
-					} else if (isAmbientModule(statement) || ts.isExportDeclaration(statement)) {
-						result = false;
-					}
+	/**
+	 * Statements which might be imported from the bundle.
+	 */
+	statements: Set<ts.Statement>;
 
-					return result;
-				},
-				needStripConstFromConstEnum: (constEnum: ts.EnumDeclaration) => {
-					if (!program.getCompilerOptions().preserveConstEnums || !outputOptions.respectPreserveConstEnum) {
-						return false;
-					}
+	/**
+	 * Whether imported declarations which aren't exported by an entry (e.g. referenced types)
+	 * are re-exported if they would have `export` keyword in the entry's output.
+	 * It is so for the common chunk because its declarations would be emitted in entries' outputs without it,
+	 * but declarations of other entries are a part of public API of these entries.
+	 */
+	reExportReferencedDeclarations: boolean;
 
-					const enumSymbol = getNodeSymbol(constEnum, typeChecker);
-					if (enumSymbol === null) {
-						return false;
-					}
+	getExportedName(symbol: ts.Symbol, originalName: string): string;
+}
 
-					return rootFileExportSymbols.includes(enumSymbol);
-				},
-				needStripImportFromImportTypeNode: (node: ts.ImportTypeNode) => {
-					if (node.qualifier === undefined) {
-						return false;
-					}
+interface EntryImportedBundle extends ImportedBundle {
+	entryIndex: number;
+}
 
-					if (!ts.isLiteralTypeNode(node.argument) || !ts.isStringLiteral(node.argument.literal)) {
-						return false;
-					}
+interface ImportedDeclaration extends NamedSymbol {
+	statement: ts.Statement;
+}
 
-					// we don't need to specify exact file here since we need to figure out whether a file is external or internal one
-					const moduleFileName = resolveModuleFileName(rootSourceFile.fileName, node.argument.literal.text);
-					return !getModuleInfo(moduleFileName, criteria).isExternal;
-				},
-			},
-			{
-				sortStatements: outputOptions.sortNodes,
-				umdModuleName: outputOptions.umdModuleName,
-				noBanner: outputOptions.noBanner,
-			}
-		);
-	});
+interface ImportedDeclarations {
+	bundle: ImportedBundle;
+	declarations: ImportedDeclaration[];
 }
 
 interface CollectingResult {
 	typesReferences: Set<string>;
 	imports: Map<string, ModuleImportsSet>;
 	statements: ts.Statement[];
-	renamedExports: string[];
+	renamedExports: RenamedExport[];
+}
+
+interface RenamedExport {
+	/**
+	 * Name node of the local (in the output) declaration.
+	 * Its text might be changed in the output if the declaration is renamed.
+	 */
+	localName: ts.NamedDeclaration['name'];
+	exportedName: string;
 }
 
 interface UpdateParams {
@@ -356,6 +1417,10 @@ interface UpdateParams {
 	shouldDeclareGlobalBeInlined(currentModule: ModuleInfo, statement: ts.ModuleDeclaration): boolean;
 	shouldDeclareExternalModuleBeInlined(): boolean;
 	getModuleInfo(fileName: string): ModuleInfo;
+	/**
+	 * Returns module specifier which should be used in the output to import a module imported in a file.
+	 */
+	getImportModuleSpecifier(importModuleSpecifier: string, importingFileName: string): string;
 	/**
 	 * Returns original name which is referenced by passed identifier.
 	 * Could be used to resolve "default" identifier in exports.
@@ -455,34 +1520,477 @@ function updateResultForRootSourceFile(params: UpdateParams, result: CollectingR
 
 				// export { default as name }
 				if (exportItem.propertyName !== undefined && exportItem.propertyName.getText() === 'default') {
-					const resolvedIdentifier = params.resolveIdentifier(exportItem.propertyName);
-					const resolvedIdentifierText = resolvedIdentifier?.getText() || '';
-					const exportItemNameText = exportItem.name.getText();
-
-					// in case of re-export with the original name (e.g. through another module)
-					// we don't need to put that re-export to avoid duplicated identifiers error
-					if (resolvedIdentifierText !== exportItemNameText) {
-						result.renamedExports.push(`${resolvedIdentifierText} as ${exportItemNameText}`);
-					}
+					result.renamedExports.push({
+						localName: params.resolveIdentifier(exportItem.propertyName),
+						exportedName: exportItem.name.getText(),
+					});
 
 					continue;
 				}
 
 				// export { baz as propertyName }
 				if (exportItem.propertyName !== undefined) {
-					result.renamedExports.push(exportItem.getText());
+					result.renamedExports.push({
+						localName: exportItem.propertyName,
+						exportedName: exportItem.name.getText(),
+					});
+
 					continue;
 				}
 
 				// export { name }
+				// exported "name" might be different from "original" name
+				// if the name cannot be resolved to a named declaration (e.g. `import * as name`) it is exported as is
 				const resolvedIdentifier = params.resolveIdentifier(exportItem.name);
-				if (resolvedIdentifier?.getText() !== exportItem.name.getText()) {
-					// exported "name" is different from "original" name
-					result.renamedExports.push(`${resolvedIdentifier?.getText() || ''} as ${exportItem.name.getText()}`);
+				result.renamedExports.push({
+					localName: resolvedIdentifier !== undefined ? resolvedIdentifier : exportItem.name,
+					exportedName: exportItem.name.getText(),
+				});
+			}
+		}
+	}
+}
+
+/**
+ * Removes exports of the root file which refer to declarations trimmed due their release tags.
+ */
+function removeTrimmedExports(
+	collectionResult: CollectingResult,
+	rootFileExports: ReadonlyArray<SourceFileExport>,
+	isNodeTrimmedFn: (node: ts.Node) => boolean,
+	typeChecker: ts.TypeChecker
+): void {
+	collectionResult.renamedExports = collectionResult.renamedExports.filter((renamedExport: RenamedExport) => {
+		return rootFileExports.some((exp: SourceFileExport) => exp.exportedName === renamedExport.exportedName);
+	});
+
+	collectionResult.statements = collectionResult.statements.filter((statement: ts.Statement) => {
+		if (!ts.isExportAssignment(statement)) {
+			return true;
+		}
+
+		const expressionSymbol = typeChecker.getSymbolAtLocation(statement.expression);
+		if (expressionSymbol === undefined) {
+			return true;
+		}
+
+		const declarations = getDeclarationsForSymbol(getActualSymbol(expressionSymbol, typeChecker));
+		return declarations.length === 0 || !declarations.every(isNodeTrimmedFn);
+	});
+}
+
+/**
+ * Throws an error if a declaration which is trimmed due its release tag is used by the output anyway
+ * (e.g. a public function returns an `@internal` interface).
+ */
+function checkTrimmedStatements(
+	statements: ReadonlyArray<ts.Statement>,
+	releaseLevel: ReleaseTag,
+	rootFileExports: ReadonlyArray<ts.Symbol>,
+	typesUsageEvaluator: TypesUsageEvaluator,
+	typeChecker: ts.TypeChecker
+): void {
+	for (const statement of statements) {
+		if (!isNodeTrimmed(statement, releaseLevel)) {
+			continue;
+		}
+
+		const names = getStatementDeclarationNames(statement);
+		const name = names.length !== 0 ? names[0].text : statement.getText();
+		const releaseTag = getNodeReleaseTag(statement);
+
+		const nameSymbol = names.length !== 0 ? getDeclarationNameSymbol(names[0], typeChecker) : null;
+		const usingSymbols = nameSymbol !== null ? typesUsageEvaluator.getSymbolsUsingSymbol(nameSymbol) : null;
+		const usingSymbol = usingSymbols !== null
+			? Array.from(usingSymbols).find((symbol: ts.Symbol) => {
+				return getModuleSymbolSourceFile(symbol) === null && isSymbolUsed(symbol, rootFileExports, typesUsageEvaluator);
+			})
+			: undefined;
+
+		const usedBy = usingSymbol !== undefined ? ` by "${usingSymbol.getName()}"` : '';
+		throw new Error(`"${name}" is marked as @${releaseTag} and cannot be trimmed from "${releaseLevel}" output because it is referenced${usedBy}`);
+	}
+}
+
+/**
+ * Returns statements which are emitted in several bundles.
+ * Only statements which declare something might be shared (e.g. `declare global` or `export default name;` cannot).
+ */
+function getSharedStatements(bundlesStatements: ReadonlyArray<ReadonlyArray<ts.Statement>>): ts.Statement[] {
+	const usagesCount = new Map<ts.Statement, number>();
+	const result: ts.Statement[] = [];
+
+	for (const statements of bundlesStatements) {
+		for (const statement of Array.from(new Set(statements))) {
+			if (isDeclareGlobalStatement(statement) || isAmbientModule(statement) || getStatementDeclarationNames(statement).length === 0) {
+				continue;
+			}
+
+			const count = (usagesCount.get(statement) || 0) + 1;
+			usagesCount.set(statement, count);
+
+			if (count === 2) {
+				result.push(statement);
+			}
+		}
+	}
+
+	return result;
+}
+
+function getCommonChunkExports(statements: ReadonlyArray<ts.Statement>, typeChecker: ts.TypeChecker): SourceFileExport[] {
+	const result: SourceFileExport[] = [];
+
+	for (const statement of statements) {
+		for (const name of getStatementDeclarationNames(statement)) {
+			const symbol = getDeclarationNameSymbol(name, typeChecker);
+			if (symbol !== null && result.every((exp: SourceFileExport) => exp.symbol !== symbol)) {
+				result.push({ symbol, originalName: name.text, exportedName: name.text, type: ExportType.ES6Named });
+			}
+		}
+	}
+
+	return result;
+}
+
+/**
+ * Returns bundles of entries which have `importPath`.
+ * Every exported declaration belongs to the first entry which exports it,
+ * so other entries import the declaration from that entry.
+ */
+function getEntriesImportedBundles(
+	entries: ReadonlyArray<EntryPointConfig>,
+	bundles: ReadonlyArray<CollectedBundle>,
+	typeChecker: ts.TypeChecker
+): EntryImportedBundle[] {
+	const exportsOwners = new Map<ts.Symbol, { entryIndex: number; exportedName: string }>();
+
+	entries.forEach((entry: EntryPointConfig, entryIndex: number) => {
+		if (entry.importPath === undefined) {
+			return;
+		}
+
+		for (const exp of bundles[entryIndex].rootFileExports) {
+			if (exp.type !== ExportType.CommonJS && !exportsOwners.has(exp.symbol)) {
+				exportsOwners.set(exp.symbol, { entryIndex, exportedName: exp.exportedName });
+			}
+		}
+	});
+
+	if (exportsOwners.size === 0) {
+		return [];
+	}
+
+	const result: EntryImportedBundle[] = [];
+
+	entries.forEach((entry: EntryPointConfig, entryIndex: number) => {
+		if (entry.importPath === undefined) {
+			return;
+		}
+
+		const statements = new Set<ts.Statement>();
+		for (const bundle of bundles) {
+			for (const statement of bundle.collectionResult.statements) {
+				const names = getStatementDeclarationNames(statement);
+				const isOwnedByEntry = names.length !== 0 && names.every((name: ts.Identifier) => {
+					const symbol = getDeclarationNameSymbol(name, typeChecker);
+					const owner = symbol !== null ? exportsOwners.get(symbol) : undefined;
+					return owner !== undefined && owner.entryIndex === entryIndex;
+				});
+
+				if (isOwnedByEntry) {
+					statements.add(statement);
+				}
+			}
+		}
+
+		result.push({
+			entryIndex,
+			importPath: entry.importPath,
+			statements,
+			reExportReferencedDeclarations: false,
+			getExportedName: (symbol: ts.Symbol, originalName: string) => {
+				const owner = exportsOwners.get(symbol);
+				return owner !== undefined ? owner.exportedName : originalName;
+			},
+		});
+	});
+
+	return result;
+}
+
+/**
+ * Returns declarations of the bundle's statements which should be imported from other bundles.
+ * If a statement might be imported from several bundles, the first one is used.
+ */
+function getImportedDeclarations(
+	statements: ReadonlyArray<ts.Statement>,
+	importedBundles: ReadonlyArray<ImportedBundle>,
+	typeChecker: ts.TypeChecker
+): ImportedDeclarations[] {
+	const result: ImportedDeclarations[] = [];
+	const processedStatements = new Set<ts.Statement>();
+
+	for (const bundle of importedBundles) {
+		const declarations: ImportedDeclaration[] = [];
+
+		for (const statement of statements) {
+			if (!bundle.statements.has(statement) || processedStatements.has(statement)) {
+				continue;
+			}
+
+			processedStatements.add(statement);
+
+			for (const name of getStatementDeclarationNames(statement)) {
+				const symbol = getDeclarationNameSymbol(name, typeChecker);
+				if (symbol !== null && declarations.every((declaration: ImportedDeclaration) => declaration.symbol !== symbol)) {
+					declarations.push({ name: name.text, symbol, statement });
 				}
 			}
 		}
+
+		if (declarations.length !== 0) {
+			result.push({ bundle, declarations });
+		}
+	}
+
+	return result;
+}
+
+function addImportedBundleImports(
+	imports: Map<string, ModuleImportsSet>,
+	imported: ImportedDeclarations,
+	getOutputName: (symbol: ts.Symbol, originalName: string) => string
+): void {
+	let importItem = imports.get(imported.bundle.importPath);
+	if (importItem === undefined) {
+		importItem = {
+			defaultImports: new Set<string>(),
+			namedImports: new Set<string>(),
+			starImports: new Set<string>(),
+			requireImports: new Set<string>(),
+		};
+
+		imports.set(imported.bundle.importPath, importItem);
+	}
+
+	for (const declaration of imported.declarations) {
+		const exportedName = imported.bundle.getExportedName(declaration.symbol, declaration.name);
+		const localName = getOutputName(declaration.symbol, declaration.name);
+		importItem.namedImports.add(exportedName === localName ? localName : `${exportedName} as ${localName}`);
+	}
+}
+
+/**
+ * Returns re-exports of imported declarations
+ * which would have `export` keyword if they were emitted in the bundle.
+ */
+function getImportedDeclarationsReExports(
+	importedDeclarations: ReadonlyArray<ImportedDeclaration>,
+	rootFileExports: ReadonlyArray<SourceFileExport>,
+	renamedExports: ReadonlyArray<string>,
+	getOutputName: (symbol: ts.Symbol, originalName: string) => string
+): string[] {
+	const result: string[] = [];
+
+	for (const declaration of importedDeclarations) {
+		const localName = getOutputName(declaration.symbol, declaration.name);
+
+		for (const exp of rootFileExports) {
+			if (exp.symbol !== declaration.symbol) {
+				continue;
+			}
+
+			// other exports (e.g. `export { name as newName }` or `export default name`) are emitted already
+			const isDefaultExportedDeclaration = exp.exportedName === 'default' && declaration.symbol.declarations !== undefined
+				&& declaration.symbol.declarations.some((decl: ts.Declaration) => hasNodeModifier(decl, ts.SyntaxKind.DefaultKeyword));
+
+			if (exp.exportedName !== declaration.name && !isDefaultExportedDeclaration) {
+				continue;
+			}
+
+			const exportText = localName === exp.exportedName ? localName : `${localName} as ${exp.exportedName}`;
+			if (!renamedExports.includes(exportText) && !result.includes(exportText)) {
+				result.push(exportText);
+			}
+		}
+	}
+
+	return result;
+}
+
+/**
+ * Returns re-exports of imported declarations which aren't exported by the entry,
+ * but would have `export` keyword if they were emitted in the bundle (e.g. referenced types if `exportReferencedTypes` is enabled).
+ */
+function getImportedReferencedDeclarationsReExports(
+	importedDeclarations: ReadonlyArray<ImportedDeclaration>,
+	rootFileExports: ReadonlyArray<SourceFileExport>,
+	getOutputName: (symbol: ts.Symbol, originalName: string) => string,
+	shouldStatementHasExportKeyword: (statement: ts.Statement) => boolean
+): string[] {
+	const result: string[] = [];
+
+	for (const declaration of importedDeclarations) {
+		const isRootFileExport = rootFileExports.some((exp: SourceFileExport) => exp.symbol === declaration.symbol);
+		const localName = getOutputName(declaration.symbol, declaration.name);
+
+		// renamed declarations wouldn't be exported if they were emitted in the bundle
+		const isRenamed = localName !== declaration.name;
+		if (!isRootFileExport && !isRenamed && shouldStatementHasExportKeyword(declaration.statement) && !result.includes(localName)) {
+			result.push(localName);
+		}
+	}
+
+	return result;
+}
+
+function getRenamedExportsText(renamedExports: ReadonlyArray<RenamedExport>, getReferenceNewName: (identifier: ts.Identifier) => string | null): string[] {
+	const result: string[] = [];
+
+	for (const renamedExport of renamedExports) {
+		let localNameText = renamedExport.localName?.getText() || '';
+		if (renamedExport.localName !== undefined && ts.isIdentifier(renamedExport.localName)) {
+			const newName = getReferenceNewName(renamedExport.localName);
+			if (newName !== null) {
+				localNameText = newName;
+			}
+		}
+
+		// in case of re-export with the original name (e.g. through another module)
+		// we don't need to put that re-export to avoid duplicated identifiers error
+		if (localNameText !== renamedExport.exportedName) {
+			result.push(`${localNameText} as ${renamedExport.exportedName}`);
+		}
+	}
+
+	return result;
+}
+
+interface NamespaceMember {
+	symbol: ts.Symbol;
+	localName: string;
+	exportedName: string;
+}
+
+interface CollectedNamespace {
+	/**
+	 * Symbol of the module which is emitted as a namespace.
+	 */
+	symbol: ts.Symbol;
+	name: string;
+	isExported: boolean;
+	members: NamespaceMember[];
+}
+
+/**
+ * Collects inlined modules which should be emitted as namespaces,
+ * i.e. modules which are exported from the root file as a namespace (`export * as ns from './module'`)
+ * or referenced as a whole in the output (`import * as ns from './module'` or `typeof import('./module')`).
+ */
+function collectNamespaces(
+	statements: ReadonlyArray<ts.Statement>,
+	rootFileExports: ReadonlyArray<SourceFileExport>,
+	typeChecker: ts.TypeChecker,
+	isModuleInlined: (sourceFile: ts.SourceFile) => boolean
+): CollectedNamespace[] {
+	const namespaces = new Map<ts.Symbol, CollectedNamespace>();
+
+	const isInlinedModuleSymbol = (symbol: ts.Symbol) => {
+		const sourceFile = getModuleSymbolSourceFile(symbol);
+		return sourceFile !== null && isModuleInlined(sourceFile);
+	};
+
+	const addNamespace = (symbol: ts.Symbol, name: string, isExported: boolean) => {
+		if (!namespaces.has(symbol)) {
+			namespaces.set(symbol, { symbol, name, isExported, members: [] });
+		}
+	};
+
+	for (const exp of rootFileExports) {
+		if (exp.exportedName !== 'default' && isInlinedModuleSymbol(exp.symbol)) {
+			addNamespace(exp.symbol, exp.exportedName, true);
+		}
+	}
+
+	const outputDeclarations = new Map<ts.Symbol, string>();
+
+	const visitReferences = (node: ts.Node) => {
+		if (ts.isIdentifier(node)) {
+			const symbol = getDeclarationNameSymbol(node, typeChecker);
+			if (symbol !== null && isInlinedModuleSymbol(symbol)) {
+				addNamespace(symbol, node.text, false);
+			}
+
+			return;
+		}
+
+		if (ts.isImportTypeNode(node) && node.qualifier === undefined) {
+			const symbol = typeChecker.getSymbolAtLocation(node);
+			if (symbol !== undefined && isInlinedModuleSymbol(symbol)) {
+				addNamespace(symbol, getModuleNamespaceName(getModuleSymbolSourceFile(symbol) as ts.SourceFile), false);
+			}
+		}
+
+		ts.forEachChild(node, visitReferences);
+	};
+
+	for (const statement of statements) {
+		for (const name of getStatementDeclarationNames(statement)) {
+			const symbol = getDeclarationNameSymbol(name, typeChecker);
+			if (symbol !== null) {
+				outputDeclarations.set(symbol, name.text);
+			}
+		}
+
+		visitReferences(statement);
 	}
+
+	// note that namespaces might be added while iterating (e.g. `export * as inner from './inner'` in a namespace module)
+	// which is fine because Map iterates over added items as well
+	namespaces.forEach((namespace: CollectedNamespace) => {
+		for (const exportSymbol of typeChecker.getExportsOfModule(namespace.symbol)) {
+			const exportedName = exportSymbol.escapedName as string;
+			const memberSymbol = getActualSymbol(exportSymbol, typeChecker);
+
+			if (isInlinedModuleSymbol(memberSymbol)) {
+				addNamespace(memberSymbol, exportedName, false);
+				namespace.members.push({ symbol: memberSymbol, localName: exportedName, exportedName });
+				continue;
+			}
+
+			const localName = outputDeclarations.get(memberSymbol);
+			if (localName === undefined) {
+				verboseLog(`Skip namespace member "${exportedName}" of "${namespace.name}" because it isn't declared in the output`);
+				continue;
+			}
+
+			namespace.members.push({ symbol: memberSymbol, localName, exportedName });
+		}
+	});
+
+	return Array.from(namespaces.values());
+}
+
+function getModuleNamespaceName(sourceFile: ts.SourceFile): string {
+	const fileName = path.basename(sourceFile.fileName).replace(/(\.d)?\.tsx?$/, '');
+	return fileName.replace(/[^\w$]/g, '_').replace(/^(\d)/, '_$1');
+}
+
+function getImportedNames(imports: CollectingResult['imports']): string[] {
+	const result: string[] = [];
+
+	imports.forEach((moduleImports: ModuleImportsSet) => {
+		result.push(
+			...Array.from(moduleImports.defaultImports),
+			...Array.from(moduleImports.starImports),
+			...Array.from(moduleImports.requireImports),
+			// named imports might be in form `Name as LocalName`
+			...Array.from(moduleImports.namedImports).map((importName: string) => importName.split(/\s+as\s+/).pop() as string)
+		);
+	});
+
+	return result;
 }
 
 function updateResultForExternalEqExportAssignment(exportAssignment: ts.ExportAssignment, params: UpdateParams, result: CollectingResult): void {
@@ -601,7 +2109,10 @@ function getImportModuleName(imp: ts.ImportEqualsDeclaration | ts.ImportDeclarat
 
 	if (ts.isExternalModuleReference(imp.moduleReference)) {
 		if (!ts.isStringLiteral(imp.moduleReference.expression)) {
-			warnLog(`Cannot handle non string-literal-like import expression: ${imp.moduleReference.expression.getText()}`);
+			warnLog(
+				`Cannot handle non string-literal-like import expression: ${imp.moduleReference.expression.getText()}`,
+				{ code: 'unsupported-import-expression', location: getNodeLocation(imp.moduleReference.expression) }
+			);
 			return null;
 		}
 
@@ -622,11 +2133,13 @@ function addImport(statement: ts.DeclarationStatement, params: UpdateParams, imp
 				return;
 			}
 
-			const importModuleSpecifier = getImportModuleName(st);
-			if (importModuleSpecifier === null) {
+			const importModuleName = getImportModuleName(st);
+			if (importModuleName === null) {
 				return;
 			}
 
+			const importModuleSpecifier = params.getImportModuleSpecifier(importModuleName, sourceFile.fileName);
+
 			let importItem = imports.get(importModuleSpecifier);
 			if (importItem === undefined) {
 				importItem = {
@@ -685,24 +2198,49 @@ function isNodeUsed(
 	node: ts.Node,
 	rootFileExports: ReadonlyArray<ts.Symbol>,
 	typesUsageEvaluator: TypesUsageEvaluator,
-	typeChecker: ts.TypeChecker
+	typeChecker: ts.TypeChecker,
+	ignoredSymbols?: ReadonlySet<ts.Symbol>
 ): boolean {
-	if (isNodeNamedDeclaration(node)) {
+	if (ts.isVariableDeclaration(node) && !ts.isIdentifier(node.name)) {
+		// a binding pattern is used if at least one of its names is used
+		return getBindingNameIdentifiers(node.name).some((name: ts.Identifier) => {
+			const nameSymbol = getDeclarationNameSymbol(name, typeChecker);
+			return nameSymbol !== null && isSymbolUsed(nameSymbol, rootFileExports, typesUsageEvaluator, ignoredSymbols);
+		});
+	} else if (isNodeNamedDeclaration(node)) {
 		const nodeSymbol = getNodeSymbol(node, typeChecker);
 		if (nodeSymbol === null) {
 			return false;
 		}
 
-		return rootFileExports.some((rootExport: ts.Symbol) => typesUsageEvaluator.isSymbolUsedBySymbol(nodeSymbol, rootExport));
+		return isSymbolUsed(nodeSymbol, rootFileExports, typesUsageEvaluator, ignoredSymbols);
 	} else if (ts.isVariableStatement(node)) {
 		return node.declarationList.declarations.some((declaration: ts.VariableDeclaration) => {
-			return isNodeUsed(declaration, rootFileExports, typesUsageEvaluator, typeChecker);
+			return isNodeUsed(declaration, rootFileExports, typesUsageEvaluator, typeChecker, ignoredSymbols);
 		});
 	}
 
 	return false;
 }
 
+/**
+ * @param ignoredSymbols Symbols which aren't emitted in the output (e.g. imported ones) so usages through them aren't counted.
+ */
+function isSymbolUsed(
+	symbol: ts.Symbol,
+	rootFileExports: ReadonlyArray<ts.Symbol>,
+	typesUsageEvaluator: TypesUsageEvaluator,
+	ignoredSymbols?: ReadonlySet<ts.Symbol>
+): boolean {
+	return rootFileExports.some((rootExport: ts.Symbol) => {
+		if (ignoredSymbols !== undefined && ignoredSymbols.has(rootExport)) {
+			return symbol === rootExport;
+		}
+
+		return typesUsageEvaluator.isSymbolUsedBySymbol(symbol, rootExport, ignoredSymbols);
+	});
+}
+
 function shouldNodeBeImported(
 	node: ts.NamedDeclaration,
 	rootFileExports: ReadonlyArray<ts.Symbol>,
@@ -765,6 +2303,47 @@ function getExportedSymbolsUsingStatement(
 	});
 }
 
+/**
+ * Returns sorted names of source files of the statements (names of generated declaration files are replaced with names of their sources).
+ */
+function getInlinedFiles(statements: ReadonlyArray<ts.Statement>, declarationsSources: Map<string, string>): string[] {
+	const result = new Set<string>();
+	for (const statement of statements) {
+		const fileName = statement.getSourceFile().fileName;
+		const sourceFileName = declarationsSources.get(getAbsolutePath(fileName));
+		result.add(sourceFileName !== undefined ? sourceFileName : fileName);
+	}
+
+	return Array.from(result).sort();
+}
+
+function getImportsCounts(imports: Record<string, BundleImports>): Record<string, number> {
+	const result: Record<string, number> = {};
+	for (const moduleName of Object.keys(imports)) {
+		const moduleImports = imports[moduleName];
+		result[moduleName] = moduleImports.defaultImports.length
+			+ moduleImports.starImports.length
+			+ moduleImports.namedImports.length
+			+ moduleImports.requireImports.length;
+	}
+
+	return result;
+}
+
+function getBundleImports(imports: Map<string, ModuleImportsSet>): Record<string, BundleImports> {
+	const result: Record<string, BundleImports> = {};
+	imports.forEach((moduleImports: ModuleImportsSet, moduleName: string) => {
+		result[moduleName] = {
+			defaultImports: Array.from(moduleImports.defaultImports).sort(),
+			starImports: Array.from(moduleImports.starImports).sort(),
+			namedImports: Array.from(moduleImports.namedImports).sort(),
+			requireImports: Array.from(moduleImports.requireImports).sort(),
+		};
+	});
+
+	return result;
+}
+
 function isSourceFileDefaultLibrary(program: ts.Program, file: ts.SourceFile): boolean {
 	interface CompatibilityProgramPart {
 		// this method was introduced in TypeScript 2.6
@@ -791,3 +2370,30 @@ function getNodeSymbol(node: ts.Node, typeChecker: ts.TypeChecker): ts.Symbol |
 
 	return getDeclarationNameSymbol(nodeName, typeChecker);
 }
+
+/**
+ * Returns names of declarations of the statements by their names in the output.
+ */
+function getOutputDeclarationsNames(
+	statements: ReadonlyArray<ts.Statement>,
+	getOutputName: (symbol: ts.Symbol, originalName: string) => string,
+	typeChecker: ts.TypeChecker
+): Map<string, ts.Identifier[]> {
+	const result = new Map<string, ts.Identifier[]>();
+
+	for (const statement of statements) {
+		for (const name of getStatementDeclarationNames(statement)) {
+			const symbol = getDeclarationNameSymbol(name, typeChecker);
+			const outputName = symbol !== null ? getOutputName(symbol, name.text) : name.text;
+
+			const names = result.get(outputName);
+			if (names === undefined) {
+				result.set(outputName, [name]);
+			} else {
+				names.push(name);
+			}
+		}
+	}
+
+	return result;
+}
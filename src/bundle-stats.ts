@@ -0,0 +1,187 @@
+import * as path from 'path';
+import * as ts from 'typescript';
+
+import { fixPath } from './helpers/fix-path';
+import { getAbsolutePath } from './helpers/get-absolute-path';
+import { getLibraryName } from './helpers/node-modules';
+import { getStatementDeclarationNames } from './helpers/typescript';
+import { ModuleInfo } from './module-info';
+
+export interface BundleStatementsStats {
+	statements: number;
+
+	/**
+	 * Size of the statements in the output in bytes (including their comments).
+	 */
+	bytes: number;
+}
+
+export interface BundleFileStats extends BundleStatementsStats {
+	/**
+	 * Absolute path of the source file.
+	 */
+	fileName: string;
+}
+
+export interface BundleLibraryStats extends BundleStatementsStats {
+	libraryName: string;
+}
+
+/**
+ * Composition of an output.
+ */
+export interface BundleStats {
+	/**
+	 * Size of the output in bytes.
+	 */
+	bytes: number;
+
+	/**
+	 * Statements of the output by source files of their declarations (sorted by size descending).
+	 * Statements which aren't declared in source files (e.g. imports or synthesized namespaces) aren't counted.
+	 */
+	files: BundleFileStats[];
+
+	/**
+	 * Statements of the output by inlined libraries (sorted by size descending).
+	 */
+	inlinedLibraries: BundleLibraryStats[];
+
+	/**
+	 * Numbers of imported names by module specifiers (of libraries, other entries or the common chunk).
+	 */
+	imports: Record<string, number>;
+
+	/**
+	 * Libraries referenced via `/// <reference types="..." />` directives of the output.
+	 */
+	typesReferences: string[];
+}
+
+export interface BundleStatsParams {
+	/**
+	 * Names of declarations of the bundle (nodes of the program) by their names in the output.
+	 * Several declarations with the same name (e.g. merged ones) are expected to be in the output order.
+	 */
+	declarationsNames: Map<string, ts.Identifier[]>;
+
+	/**
+	 * Source files of the program's declaration files by absolute paths of these files.
+	 */
+	declarationsSources: Map<string, string>;
+
+	/**
+	 * Numbers of imported names by module specifiers.
+	 */
+	imports: Record<string, number>;
+
+	typesReferences: ReadonlyArray<string>;
+	getModuleInfo(fileName: string): ModuleInfo;
+}
+
+export function getBundleStats(output: string, params: BundleStatsParams): BundleStats {
+	const outputFile = ts.createSourceFile('output.d.ts', output, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+
+	const filesStats = new Map<string, BundleFileStats>();
+	const librariesStats = new Map<string, BundleLibraryStats>();
+	const addStatement = <T extends BundleStatementsStats>(statsMap: Map<string, T>, key: string, createStats: () => T, bytes: number) => {
+		let stats = statsMap.get(key);
+		if (stats === undefined) {
+			stats = createStats();
+			statsMap.set(key, stats);
+		}
+
+		stats.statements += 1;
+		stats.bytes += bytes;
+	};
+
+	const usedDeclarationsCount = new Map<string, number>();
+	for (const statement of outputFile.statements) {
+		// a statement might declare several names (e.g. a variable statement) but all of them are declared in the same file
+		const originalName = getStatementDeclarationNames(statement).map((name: ts.Identifier) => {
+			const declarations = params.declarationsNames.get(name.text);
+			const index = usedDeclarationsCount.get(name.text) || 0;
+			if (declarations === undefined || index >= declarations.length) {
+				return null;
+			}
+
+			usedDeclarationsCount.set(name.text, index + 1);
+			return declarations[index];
+		}).find((name: ts.Identifier | null): name is ts.Identifier => name !== null);
+
+		if (originalName === undefined) {
+			continue;
+		}
+
+		const bytes = getByteLength(statement.getFullText().trim());
+		const declarationFileName = originalName.getSourceFile().fileName;
+		const sourceFileName = params.declarationsSources.get(getAbsolutePath(declarationFileName));
+		const fileName = getAbsolutePath(sourceFileName !== undefined ? sourceFileName : declarationFileName);
+		addStatement(filesStats, fileName, () => ({ fileName, statements: 0, bytes: 0 }), bytes);
+
+		const libraryName = getLibraryName(declarationFileName);
+		if (libraryName !== null && params.getModuleInfo(declarationFileName).isExternal) {
+			addStatement(librariesStats, libraryName, () => ({ libraryName, statements: 0, bytes: 0 }), bytes);
+		}
+	}
+
+	const imports: Record<string, number> = {};
+	for (const moduleName of Object.keys(params.imports).sort()) {
+		imports[moduleName] = params.imports[moduleName];
+	}
+
+	return {
+		bytes: getByteLength(output),
+		files: Array.from(filesStats.values()).sort(compareStatementsStats),
+		inlinedLibraries: Array.from(librariesStats.values()).sort(compareStatementsStats),
+		imports,
+		typesReferences: params.typesReferences.slice(),
+	};
+}
+
+/**
+ * Returns a human-readable report (paths are relative to the current directory).
+ */
+export function formatBundleStats(stats: BundleStats): string {
+	const lines = [`Output: ${stats.bytes} bytes`];
+
+	if (stats.files.length !== 0) {
+		lines.push('Source files:');
+		for (const file of stats.files) {
+			lines.push(`  ${fixPath(path.relative(process.cwd(), file.fileName))}: ${formatStatementsStats(file)}`);
+		}
+	}
+
+	if (stats.inlinedLibraries.length !== 0) {
+		lines.push('Inlined libraries:');
+		for (const library of stats.inlinedLibraries) {
+			lines.push(`  ${library.libraryName}: ${formatStatementsStats(library)}`);
+		}
+	}
+
+	const importedModules = Object.keys(stats.imports);
+	if (importedModules.length !== 0) {
+		lines.push('Imports:');
+		for (const moduleName of importedModules) {
+			lines.push(`  ${moduleName}: ${stats.imports[moduleName]}`);
+		}
+	}
+
+	if (stats.typesReferences.length !== 0) {
+		lines.push(`Types references: ${stats.typesReferences.join(', ')}`);
+	}
+
+	return lines.join('\n');
+}
+
+function formatStatementsStats(stats: BundleStatementsStats): string {
+	return `${stats.statements} statement(s), ${stats.bytes} bytes`;
+}
+
+function compareStatementsStats(a: BundleStatementsStats, b: BundleStatementsStats): number {
+	return b.bytes - a.bytes;
+}
+
+function getByteLength(text: string): number {
+	return Buffer.byteLength(text, 'utf8');
+}
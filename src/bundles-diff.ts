@@ -0,0 +1,567 @@
+import * as ts from 'typescript';
+
+import { getActualSymbol, getDeclarationsForSymbol } from './helpers/typescript';
+import { verboseLog } from './logger';
+
+export type ApiChangeKind =
+	| 'export-removed'
+	| 'export-added'
+	| 'kind-changed'
+	| 'type-changed'
+	| 'property-removed'
+	| 'property-added'
+	| 'required-property-added'
+	| 'property-became-required'
+	| 'property-became-optional'
+	| 'property-type-changed'
+	| 'signature-removed'
+	| 'signature-added'
+	| 'parameter-removed'
+	| 'required-parameter-added'
+	| 'optional-parameter-added'
+	| 'parameter-became-required'
+	| 'parameter-type-narrowed'
+	| 'parameter-type-widened'
+	| 'parameter-type-changed'
+	| 'return-type-narrowed'
+	| 'return-type-widened'
+	| 'return-type-changed'
+	| 'enum-member-removed'
+	| 'enum-member-added'
+	| 'enum-member-changed';
+
+export interface ApiChange {
+	kind: ApiChangeKind;
+
+	/**
+	 * Whether the change might break code which uses the old version of the API.
+	 */
+	isBreaking: boolean;
+
+	/**
+	 * Name of the changed export (e.g. `Options`).
+	 */
+	exportName: string;
+
+	/**
+	 * Path to the changed node inside the export (e.g. `Options.name` or `createWidget(options)`).
+	 */
+	path: string;
+
+	/**
+	 * Human-readable description of the change.
+	 */
+	message: string;
+}
+
+export interface BundlesDiff {
+	changes: ApiChange[];
+	hasBreakingChanges: boolean;
+}
+
+const enum SymbolKind {
+	Enum = 'enum',
+	Class = 'class',
+	Interface = 'interface',
+	Function = 'function',
+	Variable = 'variable',
+	TypeAlias = 'type',
+	Namespace = 'namespace',
+	Unknown = 'unknown',
+}
+
+const enum TypesRelation {
+	Same,
+	Narrowed,
+	Widened,
+	Changed,
+}
+
+interface DiffContext {
+	typeChecker: ts.TypeChecker;
+	changes: ApiChange[];
+	exportName: string;
+}
+
+/**
+ * Compares exports of two declaration bundles (e.g. the previous release's d.ts and the current one)
+ * and classifies changes of every exported symbol as breaking or non-breaking ones.
+ */
+export function getBundlesDiff(oldFilePath: string, newFilePath: string): BundlesDiff {
+	const program = ts.createProgram([oldFilePath, newFilePath], {
+		noEmit: true,
+		strict: true,
+		target: ts.ScriptTarget.Latest,
+		types: [],
+	});
+
+	const typeChecker = program.getTypeChecker();
+	const oldExports = getModuleExports(program, oldFilePath);
+	const newExports = getModuleExports(program, newFilePath);
+
+	const changes: ApiChange[] = [];
+	compareExports(typeChecker, '', oldExports, newExports, changes);
+
+	return {
+		changes,
+		hasBreakingChanges: changes.some((change: ApiChange) => change.isBreaking),
+	};
+}
+
+/**
+ * Returns human-readable report of the diff.
+ */
+export function formatBundlesDiff(diff: BundlesDiff): string {
+	if (diff.changes.length === 0) {
+		return 'No API changes found';
+	}
+
+	const formatChanges = (title: string, changes: ApiChange[]) => {
+		return `${title} (${changes.length}):\n${changes.map((change: ApiChange) => `  - ${change.message}`).join('\n')}`;
+	};
+
+	const breakingChanges = diff.changes.filter((change: ApiChange) => change.isBreaking);
+	const nonBreakingChanges = diff.changes.filter((change: ApiChange) => !change.isBreaking);
+
+	const sections: string[] = [];
+	if (breakingChanges.length !== 0) {
+		sections.push(formatChanges('Breaking changes', breakingChanges));
+	}
+
+	if (nonBreakingChanges.length !== 0) {
+		sections.push(formatChanges('Non-breaking changes', nonBreakingChanges));
+	}
+
+	return sections.join('\n\n');
+}
+
+function getModuleExports(program: ts.Program, fileName: string): Map<string, ts.Symbol> {
+	const sourceFile = program.getSourceFile(fileName);
+	if (sourceFile === undefined) {
+		throw new Error(`Cannot find source file ${fileName}`);
+	}
+
+	const typeChecker = program.getTypeChecker();
+	const moduleSymbol = typeChecker.getSymbolAtLocation(sourceFile);
+	if (moduleSymbol === undefined) {
+		throw new Error(`${fileName} is not a module`);
+	}
+
+	return getSymbolExports(typeChecker, moduleSymbol);
+}
+
+function getSymbolExports(typeChecker: ts.TypeChecker, symbol: ts.Symbol): Map<string, ts.Symbol> {
+	const result = new Map<string, ts.Symbol>();
+	for (const exportSymbol of typeChecker.getExportsOfModule(symbol)) {
+		result.set(exportSymbol.getName(), getActualSymbol(exportSymbol, typeChecker));
+	}
+
+	return result;
+}
+
+function compareExports(
+	typeChecker: ts.TypeChecker,
+	namePrefix: string,
+	oldExports: Map<string, ts.Symbol>,
+	newExports: Map<string, ts.Symbol>,
+	changes: ApiChange[]
+): void {
+	oldExports.forEach((oldSymbol: ts.Symbol, name: string) => {
+		const exportName = `${namePrefix}${name}`;
+		const context: DiffContext = { typeChecker, changes, exportName };
+
+		const newSymbol = newExports.get(name);
+		if (newSymbol === undefined) {
+			addChange(context, 'export-removed', true, exportName, `Export "${exportName}" was removed`);
+			return;
+		}
+
+		verboseLog(`Comparing export "${exportName}"`);
+		compareSymbols(context, oldSymbol, newSymbol);
+	});
+
+	newExports.forEach((newSymbol: ts.Symbol, name: string) => {
+		if (!oldExports.has(name)) {
+			const exportName = `${namePrefix}${name}`;
+			addChange({ typeChecker, changes, exportName }, 'export-added', false, exportName, `Export "${exportName}" was added`);
+		}
+	});
+}
+
+function compareSymbols(context: DiffContext, oldSymbol: ts.Symbol, newSymbol: ts.Symbol): void {
+	const { exportName, typeChecker } = context;
+	const oldKind = getSymbolKind(oldSymbol);
+	const newKind = getSymbolKind(newSymbol);
+
+	if (oldKind !== newKind) {
+		addChange(context, 'kind-changed', true, exportName, `Export "${exportName}" was changed from ${oldKind} to ${newKind}`);
+		return;
+	}
+
+	switch (oldKind) {
+		case SymbolKind.Enum:
+			compareEnums(context, oldSymbol, newSymbol);
+			break;
+
+		case SymbolKind.Class:
+		case SymbolKind.Interface:
+			compareObjectTypes(
+				context,
+				exportName,
+				typeChecker.getDeclaredTypeOfSymbol(oldSymbol),
+				typeChecker.getDeclaredTypeOfSymbol(newSymbol),
+				oldKind === SymbolKind.Interface
+			);
+			break;
+
+		case SymbolKind.Function:
+			compareSignatures(context, exportName, getCallSignatures(typeChecker, oldSymbol), getCallSignatures(typeChecker, newSymbol));
+			break;
+
+		case SymbolKind.Namespace:
+			compareExports(typeChecker, `${exportName}.`, getSymbolExports(typeChecker, oldSymbol), getSymbolExports(typeChecker, newSymbol), context.changes);
+			break;
+
+		case SymbolKind.TypeAlias:
+		case SymbolKind.Variable:
+		case SymbolKind.Unknown: {
+			const oldText = getSymbolTypeText(typeChecker, oldSymbol);
+			const newText = getSymbolTypeText(typeChecker, newSymbol);
+			if (oldText !== newText) {
+				addChange(context, 'type-changed', true, exportName, `Type of "${exportName}" was changed from ${quoteType(oldText)} to ${quoteType(newText)}`);
+			}
+		}
+	}
+}
+
+function compareEnums(context: DiffContext, oldSymbol: ts.Symbol, newSymbol: ts.Symbol): void {
+	const oldMembers = getEnumMembers(context.typeChecker, oldSymbol);
+	const newMembers = getEnumMembers(context.typeChecker, newSymbol);
+
+	oldMembers.forEach((oldValue: string, name: string) => {
+		const path = `${context.exportName}.${name}`;
+		const newValue = newMembers.get(name);
+		if (newValue === undefined) {
+			addChange(context, 'enum-member-removed', true, path, `Enum member "${path}" was removed`);
+		} else if (newValue !== oldValue) {
+			addChange(context, 'enum-member-changed', true, path, `Value of enum member "${path}" was changed from ${oldValue} to ${newValue}`);
+		}
+	});
+
+	newMembers.forEach((newValue: string, name: string) => {
+		if (!oldMembers.has(name)) {
+			const path = `${context.exportName}.${name}`;
+			addChange(context, 'enum-member-added', false, path, `Enum member "${path}" was added`);
+		}
+	});
+}
+
+function getEnumMembers(typeChecker: ts.TypeChecker, enumSymbol: ts.Symbol): Map<string, string> {
+	const result = new Map<string, string>();
+	for (const declaration of getDeclarationsForSymbol(enumSymbol)) {
+		if (!ts.isEnumDeclaration(declaration)) {
+			continue;
+		}
+
+		for (const member of declaration.members) {
+			const value = typeChecker.getConstantValue(member);
+			result.set(member.name.getText(), value !== undefined ? JSON.stringify(value) : 'computed value');
+		}
+	}
+
+	return result;
+}
+
+// tslint:disable-next-line:cyclomatic-complexity
+function compareObjectTypes(context: DiffContext, path: string, oldType: ts.Type, newType: ts.Type, isInterface: boolean): void {
+	const { typeChecker } = context;
+	const newProperties = new Map<string, ts.Symbol>();
+	for (const property of typeChecker.getPropertiesOfType(newType)) {
+		newProperties.set(property.getName(), property);
+	}
+
+	const oldPropertiesNames = new Set<string>();
+
+	for (const oldProperty of typeChecker.getPropertiesOfType(oldType)) {
+		const name = oldProperty.getName();
+		const propertyPath = `${path}.${name}`;
+		oldPropertiesNames.add(name);
+
+		const newProperty = newProperties.get(name);
+		if (newProperty === undefined) {
+			addChange(context, 'property-removed', true, propertyPath, `Property "${propertyPath}" was removed`);
+			continue;
+		}
+
+		const isOldOptional = isOptionalSymbol(oldProperty);
+		const isNewOptional = isOptionalSymbol(newProperty);
+		if (isOldOptional && !isNewOptional) {
+			addChange(context, 'property-became-required', true, propertyPath, `Property "${propertyPath}" became required`);
+		} else if (!isOldOptional && isNewOptional) {
+			addChange(context, 'property-became-optional', true, propertyPath, `Property "${propertyPath}" became optional`);
+		}
+
+		if (oldProperty.flags & ts.SymbolFlags.Method && newProperty.flags & ts.SymbolFlags.Method) {
+			compareSignatures(context, propertyPath, getCallSignatures(typeChecker, oldProperty), getCallSignatures(typeChecker, newProperty));
+			continue;
+		}
+
+		const oldText = getSymbolTypeText(typeChecker, oldProperty);
+		const newText = getSymbolTypeText(typeChecker, newProperty);
+		if (oldText !== newText) {
+			addChange(context, 'property-type-changed', true, propertyPath, `Type of property "${propertyPath}" was changed from ${quoteType(oldText)} to ${quoteType(newText)}`);
+		}
+	}
+
+	newProperties.forEach((newProperty: ts.Symbol, name: string) => {
+		if (oldPropertiesNames.has(name)) {
+			return;
+		}
+
+		const propertyPath = `${path}.${name}`;
+
+		// objects of interfaces might be created by users so they have to specify new required properties
+		if (isInterface && !isOptionalSymbol(newProperty)) {
+			addChange(context, 'required-property-added', true, propertyPath, `Required property "${propertyPath}" was added`);
+		} else {
+			addChange(context, 'property-added', false, propertyPath, `Property "${propertyPath}" was added`);
+		}
+	});
+}
+
+function compareSignatures(
+	context: DiffContext,
+	path: string,
+	oldSignatures: ReadonlyArray<ts.Signature>,
+	newSignatures: ReadonlyArray<ts.Signature>
+): void {
+	if (oldSignatures.length === 1 && newSignatures.length === 1) {
+		compareSignature(context, path, oldSignatures[0], newSignatures[0]);
+		return;
+	}
+
+	// overloads cannot be matched to each other so they are compared as is
+	const { typeChecker } = context;
+	const oldSignaturesTexts = oldSignatures.map((signature: ts.Signature) => typeChecker.signatureToString(signature));
+	const newSignaturesTexts = newSignatures.map((signature: ts.Signature) => typeChecker.signatureToString(signature));
+
+	for (const signatureText of oldSignaturesTexts) {
+		if (newSignaturesTexts.indexOf(signatureText) === -1) {
+			addChange(context, 'signature-removed', true, path, `Signature ${quoteType(signatureText)} of "${path}" was removed`);
+		}
+	}
+
+	for (const signatureText of newSignaturesTexts) {
+		if (oldSignaturesTexts.indexOf(signatureText) === -1) {
+			addChange(context, 'signature-added', false, path, `Signature ${quoteType(signatureText)} of "${path}" was added`);
+		}
+	}
+}
+
+// tslint:disable-next-line:cyclomatic-complexity
+function compareSignature(context: DiffContext, path: string, oldSignature: ts.Signature, newSignature: ts.Signature): void {
+	const { typeChecker } = context;
+	const parametersCount = Math.max(oldSignature.parameters.length, newSignature.parameters.length);
+
+	for (let i = 0; i < parametersCount; ++i) {
+		const oldParameter = oldSignature.parameters[i] as ts.Symbol | undefined;
+		const newParameter = newSignature.parameters[i] as ts.Symbol | undefined;
+
+		if (oldParameter === undefined && newParameter !== undefined) {
+			const parameterPath = `${path}(${newParameter.getName()})`;
+			if (isOptionalParameter(typeChecker, newParameter)) {
+				addChange(context, 'optional-parameter-added', false, parameterPath, `Optional parameter "${newParameter.getName()}" of "${path}" was added`);
+			} else {
+				addChange(context, 'required-parameter-added', true, parameterPath, `Required parameter "${newParameter.getName()}" of "${path}" was added`);
+			}
+
+			continue;
+		}
+
+		if (oldParameter === undefined || newParameter === undefined) {
+			const parameterPath = `${path}(${(oldParameter as ts.Symbol).getName()})`;
+			addChange(context, 'parameter-removed', true, parameterPath, `Parameter "${(oldParameter as ts.Symbol).getName()}" of "${path}" was removed`);
+			continue;
+		}
+
+		const parameterPath = `${path}(${newParameter.getName()})`;
+		if (isOptionalParameter(typeChecker, oldParameter) && !isOptionalParameter(typeChecker, newParameter)) {
+			addChange(context, 'parameter-became-required', true, parameterPath, `Parameter "${newParameter.getName()}" of "${path}" became required`);
+		}
+
+		const oldType = getSymbolType(typeChecker, oldParameter);
+		const newType = getSymbolType(typeChecker, newParameter);
+		const typesDescription = `from ${quoteType(typeChecker.typeToString(oldType))} to ${quoteType(typeChecker.typeToString(newType))}`;
+
+		switch (getTypesRelation(typeChecker, oldType, newType)) {
+			case TypesRelation.Narrowed:
+				addChange(context, 'parameter-type-narrowed', true, parameterPath, `Type of parameter "${newParameter.getName()}" of "${path}" was narrowed ${typesDescription}`);
+				break;
+
+			case TypesRelation.Widened:
+				addChange(context, 'parameter-type-widened', false, parameterPath, `Type of parameter "${newParameter.getName()}" of "${path}" was widened ${typesDescription}`);
+				break;
+
+			case TypesRelation.Changed:
+				addChange(context, 'parameter-type-changed', true, parameterPath, `Type of parameter "${newParameter.getName()}" of "${path}" was changed ${typesDescription}`);
+		}
+	}
+
+	const oldReturnType = typeChecker.getReturnTypeOfSignature(oldSignature);
+	const newReturnType = typeChecker.getReturnTypeOfSignature(newSignature);
+	const returnTypesDescription = `from ${quoteType(typeChecker.typeToString(oldReturnType))} to ${quoteType(typeChecker.typeToString(newReturnType))}`;
+
+	switch (getTypesRelation(typeChecker, oldReturnType, newReturnType)) {
+		case TypesRelation.Narrowed:
+			addChange(context, 'return-type-narrowed', false, path, `Return type of "${path}" was narrowed ${returnTypesDescription}`);
+			break;
+
+		case TypesRelation.Widened:
+			addChange(context, 'return-type-widened', true, path, `Return type of "${path}" was widened ${returnTypesDescription}`);
+			break;
+
+		case TypesRelation.Changed:
+			addChange(context, 'return-type-changed', true, path, `Return type of "${path}" was changed ${returnTypesDescription}`);
+	}
+}
+
+/**
+ * `isTypeAssignableTo` of the type checker isn't a part of the public API of the compiler,
+ * but it is available in all supported versions of it.
+ */
+interface TypeCheckerWithAssignability extends ts.TypeChecker {
+	isTypeAssignableTo?(source: ts.Type, target: ts.Type): boolean;
+}
+
+/**
+ * Members of unions are compared separately (a type which isn't a union is the only member of itself).
+ * Members with the same texts are considered the same types (e.g. an interface declared in both bundles),
+ * changes of such types are reported for their own exports.
+ * Other members are compared by assignability (e.g. `'a'` is narrower than `string` and `{ a: string }` is the same as `{ readonly a: string }`),
+ * so named types (classes, enums and so on) which aren't exported are compared structurally if their texts differ.
+ */
+function getTypesRelation(typeChecker: ts.TypeChecker, oldType: ts.Type, newType: ts.Type): TypesRelation {
+	const isNewSubtypeOfOld = isTypeCoveredBy(typeChecker, newType, oldType);
+	const isOldSubtypeOfNew = isTypeCoveredBy(typeChecker, oldType, newType);
+
+	if (isNewSubtypeOfOld && isOldSubtypeOfNew) {
+		return TypesRelation.Same;
+	}
+
+	if (isNewSubtypeOfOld) {
+		return TypesRelation.Narrowed;
+	}
+
+	if (isOldSubtypeOfNew) {
+		return TypesRelation.Widened;
+	}
+
+	return TypesRelation.Changed;
+}
+
+/**
+ * Returns whether every member of the type is a member of the target type or is assignable to it.
+ */
+function isTypeCoveredBy(typeChecker: TypeCheckerWithAssignability, type: ts.Type, targetType: ts.Type): boolean {
+	const targetTypesTexts = getUnionTypes(targetType).map((t: ts.Type) => getTypeText(typeChecker, t));
+	return getUnionTypes(type).every((t: ts.Type) => {
+		if (targetTypesTexts.indexOf(getTypeText(typeChecker, t)) !== -1) {
+			return true;
+		}
+
+		return typeChecker.isTypeAssignableTo !== undefined && typeChecker.isTypeAssignableTo(t, targetType);
+	});
+}
+
+function getUnionTypes(type: ts.Type): ReadonlyArray<ts.Type> {
+	return type.isUnion() ? type.types : [type];
+}
+
+function getTypeText(typeChecker: ts.TypeChecker, type: ts.Type): string {
+	return typeChecker.typeToString(type, undefined, ts.TypeFormatFlags.NoTruncation);
+}
+
+function getSymbolKind(symbol: ts.Symbol): SymbolKind {
+	if (symbol.flags & ts.SymbolFlags.Enum) {
+		return SymbolKind.Enum;
+	}
+
+	if (symbol.flags & ts.SymbolFlags.Class) {
+		return SymbolKind.Class;
+	}
+
+	if (symbol.flags & ts.SymbolFlags.Interface) {
+		return SymbolKind.Interface;
+	}
+
+	if (symbol.flags & ts.SymbolFlags.Function) {
+		return SymbolKind.Function;
+	}
+
+	if (symbol.flags & ts.SymbolFlags.Variable) {
+		return SymbolKind.Variable;
+	}
+
+	if (symbol.flags & ts.SymbolFlags.TypeAlias) {
+		return SymbolKind.TypeAlias;
+	}
+
+	if (symbol.flags & ts.SymbolFlags.Module) {
+		return SymbolKind.Namespace;
+	}
+
+	return SymbolKind.Unknown;
+}
+
+function getSymbolType(typeChecker: ts.TypeChecker, symbol: ts.Symbol): ts.Type {
+	const declaration = getDeclarationsForSymbol(symbol)[0] as ts.Declaration | undefined;
+	if (declaration === undefined) {
+		return typeChecker.getDeclaredTypeOfSymbol(symbol);
+	}
+
+	return typeChecker.getTypeOfSymbolAtLocation(symbol, declaration);
+}
+
+function getSymbolTypeText(typeChecker: ts.TypeChecker, symbol: ts.Symbol): string {
+	if (symbol.flags & ts.SymbolFlags.TypeAlias) {
+		// the declared type of an alias is printed as the alias' name so its declaration is compared instead
+		const declaration = getDeclarationsForSymbol(symbol).find(ts.isTypeAliasDeclaration);
+		if (declaration !== undefined) {
+			const typeParameters = declaration.typeParameters !== undefined ? `<${declaration.typeParameters.map((param: ts.TypeParameterDeclaration) => param.getText()).join(', ')}> ` : '';
+			return normalizeText(`${typeParameters}${declaration.type.getText()}`);
+		}
+	}
+
+	return typeChecker.typeToString(getSymbolType(typeChecker, symbol), undefined, ts.TypeFormatFlags.NoTruncation);
+}
+
+function getCallSignatures(typeChecker: ts.TypeChecker, symbol: ts.Symbol): ReadonlyArray<ts.Signature> {
+	return getSymbolType(typeChecker, symbol).getCallSignatures();
+}
+
+function isOptionalSymbol(symbol: ts.Symbol): boolean {
+	return (symbol.flags & ts.SymbolFlags.Optional) !== 0;
+}
+
+function isOptionalParameter(typeChecker: ts.TypeChecker, parameter: ts.Symbol): boolean {
+	const declaration = getDeclarationsForSymbol(parameter).find(ts.isParameter);
+	return declaration !== undefined && typeChecker.isOptionalParameter(declaration);
+}
+
+function quoteType(typeText: string): string {
+	return `\`${typeText}\``;
+}
+
+function normalizeText(text: string): string {
+	return text.replace(/\s+/g, ' ');
+}
+
+function addChange(context: DiffContext, kind: ApiChangeKind, isBreaking: boolean, path: string, message: string): void {
+	context.changes.push({
+		kind,
+		isBreaking,
+		exportName: context.exportName,
+		path,
+		message,
+	});
+}
@@ -0,0 +1,108 @@
+import * as crypto from 'crypto';
+import * as path from 'path';
+import * as ts from 'typescript';
+
+import { packageVersion } from './helpers/package-version';
+import { systemFileSystem, FileSystem } from './file-system';
+import { verboseLog, warnLog } from './logger';
+
+/**
+ * A persistent storage of values (e.g. emitted declarations or generated bundles) between runs.
+ * Every value is stored along with hashes of files which it depends on,
+ * so it is returned only if none of these files is changed since the value was stored.
+ */
+export interface Cache {
+	get<T>(key: string): T | null;
+	set<T>(key: string, value: T, dependencies: ReadonlyArray<string>): void;
+}
+
+interface CacheRecord<T> {
+	key: string;
+
+	/**
+	 * Hashes of contents of files which the value depends on by their names (`null` for not existing files).
+	 */
+	dependencies: Record<string, string | null>;
+
+	value: T;
+}
+
+/**
+ * Creates a cache which stores every value in a separate JSON file in the directory.
+ * Note that hashes of files are computed once, so an instance of the cache should be used for a single run only.
+ */
+export function createFileSystemCache(cacheDir: string, fileSystem: FileSystem = systemFileSystem): Cache {
+	const filesHashes = new Map<string, string | null>();
+	const getFileHash = (fileName: string): string | null => {
+		let hash = filesHashes.get(fileName);
+		if (hash === undefined) {
+			const content = fileSystem.readFile(fileName);
+			hash = content !== undefined ? getHash(content) : null;
+			filesHashes.set(fileName, hash);
+		}
+
+		return hash;
+	};
+
+	const getRecordFileName = (key: string) => path.join(cacheDir, `${getHash(key)}.json`);
+
+	return {
+		get: <T>(key: string): T | null => {
+			const recordFileName = getRecordFileName(key);
+			const content = fileSystem.readFile(recordFileName);
+			if (content === undefined) {
+				return null;
+			}
+
+			let record: CacheRecord<T>;
+			try {
+				record = JSON.parse(content) as CacheRecord<T>;
+			} catch (ex) {
+				verboseLog(`Cannot parse cache file ${recordFileName}: ${ex.message}`);
+				return null;
+			}
+
+			if (record.key !== key) {
+				return null;
+			}
+
+			const changedFile = Object.keys(record.dependencies).find((fileName: string) => getFileHash(fileName) !== record.dependencies[fileName]);
+			if (changedFile !== undefined) {
+				verboseLog(`Cache file ${recordFileName} is outdated because ${changedFile} is changed`);
+				return null;
+			}
+
+			return record.value;
+		},
+		set: <T>(key: string, value: T, dependencies: ReadonlyArray<string>): void => {
+			const record: CacheRecord<T> = {
+				key,
+				dependencies: {},
+				value,
+			};
+
+			for (const fileName of dependencies) {
+				record.dependencies[fileName] = getFileHash(fileName);
+			}
+
+			try {
+				fileSystem.writeFile(getRecordFileName(key), JSON.stringify(record));
+			} catch (ex) {
+				// the cache is an optimization only so it shouldn't break the generation
+				warnLog(`Cannot write cache to ${cacheDir}: ${ex.message}`, { code: 'cache-write-failed' });
+			}
+		},
+	};
+}
+
+/**
+ * Returns a key of a value which depends on the given parts (which must be serializable to JSON)
+ * as well as on versions of the generator and the compiler.
+ */
+export function getCacheKey(...parts: unknown[]): string {
+	return JSON.stringify([packageVersion(), ts.version, ...parts]);
+}
+
+function getHash(content: string): string {
+	return crypto.createHash('sha256').update(content).digest('hex');
+}
@@ -0,0 +1,196 @@
+import * as ts from 'typescript';
+
+import { getDeclarationNameSymbol, getStatementDeclarationNames } from './helpers/typescript';
+import { getNodeLocation } from './helpers/check-diagnostics-errors';
+import { verboseLog, warnLog } from './logger';
+
+export interface NamedSymbol {
+	name: string;
+	symbol: ts.Symbol;
+}
+
+export interface CollisionsResolverParams {
+	/**
+	 * Statements which will be emitted in the output.
+	 */
+	statements: ReadonlyArray<ts.Statement>;
+
+	/**
+	 * Declarations which aren't statements but will be emitted in the output (e.g. synthesized namespaces).
+	 */
+	additionalDeclarations: ReadonlyArray<NamedSymbol>;
+
+	/**
+	 * Names which are already taken in the output by something which cannot be renamed (e.g. imports).
+	 */
+	reservedNames: ReadonlyArray<string>;
+
+	/**
+	 * Returns whether a symbol is exported from the root file with its own name
+	 * (so it is a part of the public API and must not be renamed).
+	 */
+	isSymbolPublic(symbol: ts.Symbol): boolean;
+}
+
+/**
+ * Finds declarations which have the same name but are different symbols
+ * (e.g. non-exported `interface Options` in 2 different inlined modules)
+ * and returns a map of symbols which must be renamed to their new names.
+ */
+export function getRenamedSymbols(params: CollisionsResolverParams, typeChecker: ts.TypeChecker): Map<ts.Symbol, string> {
+	const symbolsByName = new Map<string, ts.Symbol[]>();
+
+	const addDeclaration = (name: string, symbol: ts.Symbol) => {
+		let symbols = symbolsByName.get(name);
+		if (symbols === undefined) {
+			symbols = [];
+			symbolsByName.set(name, symbols);
+		}
+
+		// the same symbol might be declared in several statements (declaration merging, overloads, etc)
+		if (!symbols.includes(symbol)) {
+			symbols.push(symbol);
+		}
+	};
+
+	for (const statement of params.statements) {
+		for (const name of getStatementDeclarationNames(statement)) {
+			const symbol = getDeclarationNameSymbol(name, typeChecker);
+			if (symbol !== null) {
+				addDeclaration(name.text, symbol);
+			}
+		}
+	}
+
+	for (const declaration of params.additionalDeclarations) {
+		addDeclaration(declaration.name, declaration.symbol);
+	}
+
+	const takenNames = new Set<string>(params.reservedNames);
+	symbolsByName.forEach((_: ts.Symbol[], name: string) => takenNames.add(name));
+
+	const result = new Map<ts.Symbol, string>();
+
+	symbolsByName.forEach((symbols: ts.Symbol[], name: string) => {
+		const isNameReserved = params.reservedNames.includes(name);
+		if (symbols.length === 1 && !isNameReserved) {
+			return;
+		}
+
+		// public symbols must go first to keep their names
+		// the order of others is the order of their statements in the output
+		const sortedSymbols = symbols.filter(params.isSymbolPublic).concat(
+			symbols.filter((symbol: ts.Symbol) => !params.isSymbolPublic(symbol))
+		);
+
+		sortedSymbols.forEach((symbol: ts.Symbol, index: number) => {
+			if (index === 0 && !isNameReserved) {
+				return;
+			}
+
+			if (params.isSymbolPublic(symbol)) {
+				const declarations = symbol.getDeclarations();
+				warnLog(
+					`Cannot rename "${name}" because it is exported from the root file, but the name is already taken in the output`,
+					{
+						code: 'cannot-rename-export',
+						location: declarations !== undefined && declarations.length !== 0 ? getNodeLocation(declarations[0]) : undefined,
+					}
+				);
+				return;
+			}
+
+			const newName = getFreeName(name, takenNames);
+			takenNames.add(newName);
+			result.set(symbol, newName);
+
+			verboseLog(`Rename "${name}" to "${newName}" to avoid names collision`);
+		});
+	});
+
+	return result;
+}
+
+/**
+ * Returns new text of the node where all references to renamed symbols are replaced with their new names.
+ * A reference is either an identifier or `import('./module')` type node (which is replaced with a namespace name).
+ * Note that text is got from the original node, so any leading trivia is not included.
+ * @param isNodeRemoved Returns whether a child node should be removed from the text (with its leading comments).
+ */
+export function getNodeTextWithRenamedReferences(
+	node: ts.Node,
+	getReferenceNewName: (reference: ts.Identifier | ts.ImportTypeNode) => string | null,
+	isNodeRemoved: (child: ts.Node) => boolean = () => false
+): string {
+	const nodeStart = node.getStart();
+	const replacements: { start: number; end: number; newText: string }[] = [];
+
+	function addReplacement(child: ts.Node, newText: string): void {
+		replacements.push({ start: child.getStart() - nodeStart, end: child.getEnd() - nodeStart, newText });
+	}
+
+	function visit(child: ts.Node): void {
+		if (child !== node && isNodeRemoved(child)) {
+			// leading trivia of the first child might be a part of the node's one (which isn't a part of the text)
+			replacements.push({ start: Math.max(0, child.getFullStart() - nodeStart), end: child.getEnd() - nodeStart, newText: '' });
+			return;
+		}
+
+		if (ts.isIdentifier(child)) {
+			if (isIdentifierReplaceable(child)) {
+				const newName = getReferenceNewName(child);
+				if (newName !== null && newName !== child.text) {
+					addReplacement(child, newName);
+				}
+			}
+
+			return;
+		}
+
+		if (ts.isImportTypeNode(child) && child.qualifier === undefined) {
+			const newName = getReferenceNewName(child);
+			if (newName !== null) {
+				addReplacement(child, child.isTypeOf ? `typeof ${newName}` : newName);
+				return;
+			}
+		}
+
+		ts.forEachChild(child, visit);
+	}
+
+	visit(node);
+
+	let result = node.getText();
+
+	// apply replacements from the end to keep positions of previous ones valid
+	replacements.sort((a: { start: number }, b: { start: number }) => b.start - a.start);
+	for (const replacement of replacements) {
+		result = result.slice(0, replacement.start) + replacement.newText + result.slice(replacement.end);
+	}
+
+	return result;
+}
+
+function isIdentifierReplaceable(identifier: ts.Identifier): boolean {
+	const parent = identifier.parent;
+
+	// `ns.Name` - only the left part might refer to a top-level declaration
+	if (ts.isQualifiedName(parent) && parent.right === identifier) {
+		return false;
+	}
+
+	if (ts.isPropertyAccessExpression(parent) && parent.name === identifier) {
+		return false;
+	}
+
+	return true;
+}
+
+function getFreeName(name: string, takenNames: Set<string>): string {
+	let index = 1;
+	while (takenNames.has(`${name}$${index}`)) {
+		++index;
+	}
+
+	return `${name}$${index}`;
+}
@@ -3,17 +3,224 @@ import * as ts from 'typescript';
 
 import { verboseLog, warnLog } from './logger';
 
-import { getCompilerOptions } from './get-compiler-options';
+import { getConfigFileName, parseConfigFile } from './get-compiler-options';
 import { getAbsolutePath } from './helpers/get-absolute-path';
-import { checkProgramDiagnosticsErrors, checkDiagnosticsErrors } from './helpers/check-diagnostics-errors';
+import {
+	checkProgramDiagnosticsErrors,
+	checkDiagnosticsErrors,
+	getSourceFileDiagnostics,
+	DiagnosticsPolicy,
+} from './helpers/check-diagnostics-errors';
+import { getReferencedProjects, getReferencedProjectSourceFile, ReferencedProject } from './project-references';
+import { RawSourceMap } from './helpers/source-map';
+import { getCacheKey, Cache } from './cache';
+import { createCompilerHost, systemFileSystem, FileSystem } from './file-system';
 
 export interface CompileDtsResult {
 	program: ts.Program;
 	rootFilesRemapping: Map<string, string>;
+	referencedProjects: ReferencedProject[];
+
+	/**
+	 * Declaration maps of generated declaration files by absolute paths of these files
+	 * (empty if declaration maps aren't requested).
+	 */
+	declarationMaps: Map<string, RawSourceMap>;
+
+	/**
+	 * Names of source files of generated declaration files by absolute paths of these files.
+	 */
+	declarationsSources: Map<string, string>;
+
+	/**
+	 * Diagnostics of the compilation (of the tsconfig file, of emitting declarations and of the program)
+	 * except ones ignored by the diagnostics policy.
+	 */
+	diagnostics: ts.Diagnostic[];
+
+	/**
+	 * Returns names of all source files (except default libraries) which the file might depend on, including the file itself.
+	 */
+	getFileDependencies(fileName: string): string[];
 }
 
-export function compileDts(rootFiles: ReadonlyArray<string>, preferredConfigPath?: string, followSymlinks: boolean = true): CompileDtsResult {
-	const compilerOptions = getCompilerOptions(rootFiles, preferredConfigPath);
+export interface CompileDtsOptions {
+	preferredConfigPath?: string;
+	followSymlinks?: boolean;
+	generateDeclarationMaps?: boolean;
+
+	/**
+	 * If specified, emitted declarations of source files are stored in the cache
+	 * and re-used while the files (and files which they depend on) aren't changed.
+	 */
+	cache?: Cache | null;
+
+	fileSystem?: FileSystem;
+	diagnosticsPolicy?: DiagnosticsPolicy;
+}
+
+export function compileDts(rootFiles: ReadonlyArray<string>, options: CompileDtsOptions = {}): CompileDtsResult {
+	const fileSystem = options.fileSystem || systemFileSystem;
+	const diagnosticsPolicy = options.diagnosticsPolicy || {};
+
+	// dependencies of files (and so the cache) are detected by absolute paths only
+	const absoluteRootFiles = rootFiles.map((rootFile: string) => getAbsolutePath(rootFile));
+
+	const {
+		compilerOptions,
+		referencedProjects,
+		diagnostics: configDiagnostics,
+	} = getCompilationConfig(rootFiles, options.preferredConfigPath, fileSystem, diagnosticsPolicy);
+
+	const {
+		declarations: dtsFiles,
+		declarationMaps,
+		declarationsSources,
+		diagnostics: declarationsDiagnostics,
+		reusedDeclarations,
+		getFileDependencies,
+	} = getDeclarationFiles(
+		absoluteRootFiles,
+		compilerOptions,
+		referencedProjects,
+		Boolean(options.generateDeclarationMaps),
+		options.cache || null,
+		fileSystem,
+		diagnosticsPolicy
+	);
+
+	verboseLog(`dts cache:\n  ${Object.keys(dtsFiles).join('\n  ')}\n`);
+
+	const host = createCompilerHost(compilerOptions, fileSystem);
+	setupModuleResolution(host, compilerOptions, referencedProjects, options.followSymlinks !== false, true);
+
+	const originalGetSourceFile = host.getSourceFile;
+	host.getSourceFile = (fileName: string, languageVersion: ts.ScriptTarget, onError?: (message: string) => void) => {
+		const absolutePath = getAbsolutePath(fileName);
+		const storedValue = dtsFiles.get(absolutePath);
+		if (storedValue !== undefined) {
+			verboseLog(`dts cache match: ${absolutePath}`);
+			return ts.createSourceFile(fileName, storedValue, languageVersion);
+		}
+
+		verboseLog(`dts cache mismatch: ${absolutePath} (${fileName})`);
+		return originalGetSourceFile(fileName, languageVersion, onError);
+	};
+
+	const rootFilesRemapping = new Map<string, string>();
+	const inputFiles = rootFiles.map((rootFile: string, index: number) => {
+		const rootDtsFile = changeExtensionToDts(absoluteRootFiles[index]);
+		rootFilesRemapping.set(rootFile, rootDtsFile);
+		return rootDtsFile;
+	});
+
+	const program = ts.createProgram(inputFiles, compilerOptions, host);
+	if (options.generateDeclarationMaps) {
+		addBuiltDeclarationMaps(program, declarationMaps, fileSystem);
+	}
+
+	// declarations from the cache were checked by the run which emitted them
+	// and they are re-emitted if any of their dependencies is changed, so there is no need to check them again
+	const isFileChecked = reusedDeclarations.size !== 0
+		? (sourceFile: ts.SourceFile) => !reusedDeclarations.has(getAbsolutePath(sourceFile.fileName))
+		: undefined;
+
+	const diagnostics = ts.sortAndDeduplicateDiagnostics([
+		...configDiagnostics,
+		...declarationsDiagnostics,
+		...checkProgramDiagnosticsErrors(program, diagnosticsPolicy, isFileChecked),
+	]);
+	warnAboutTypeScriptFilesInProgram(program);
+
+	return {
+		program,
+		rootFilesRemapping,
+		referencedProjects,
+		declarationMaps,
+		declarationsSources,
+		diagnostics: diagnostics.slice(),
+		getFileDependencies,
+	};
+}
+
+/**
+ * Returns a compilation result for a program provided by a caller (which is expected to consist of declaration files)
+ * instead of compiling the root files.
+ * A root file might be specified by its declaration file (a root file of the program) or by its source file next to it.
+ * If `withDeclarationMaps` is `true`, declaration maps of the program's files are read from the file system (see `addBuiltDeclarationMaps`).
+ * Diagnostics of the program are checked according to the policy.
+ */
+export function getProgramCompilation(
+	program: ts.Program,
+	rootFiles: ReadonlyArray<string>,
+	withDeclarationMaps: boolean = false,
+	fileSystem: FileSystem = systemFileSystem,
+	diagnosticsPolicy: DiagnosticsPolicy = {}
+): CompileDtsResult {
+	const programRootFiles = new Map<string, string>();
+	for (const programRootFile of program.getRootFileNames()) {
+		programRootFiles.set(getAbsolutePath(programRootFile), programRootFile);
+	}
+
+	const rootFilesRemapping = new Map<string, string>();
+	for (const rootFile of rootFiles) {
+		const absolutePath = getAbsolutePath(rootFile);
+		const programRootFile = programRootFiles.get(absolutePath) || programRootFiles.get(changeExtensionToDts(absolutePath));
+		if (programRootFile === undefined) {
+			throw new Error(`Neither ${rootFile} nor its declaration file is a root file of the program`);
+		}
+
+		rootFilesRemapping.set(rootFile, programRootFile);
+	}
+
+	warnAboutTypeScriptFilesInProgram(program);
+
+	const declarationMaps = new Map<string, RawSourceMap>();
+	if (withDeclarationMaps) {
+		addBuiltDeclarationMaps(program, declarationMaps, fileSystem);
+	}
+
+	return {
+		program,
+		rootFilesRemapping,
+		// declarations of referenced projects are expected to be built already
+		// so they are handled as any other files
+		referencedProjects: [],
+		declarationMaps,
+		declarationsSources: new Map(),
+		diagnostics: ts.sortAndDeduplicateDiagnostics(checkProgramDiagnosticsErrors(program, diagnosticsPolicy)).slice(),
+		getFileDependencies: (fileName: string) => [fileName],
+	};
+}
+
+export interface CompilationConfig {
+	configFileName: string;
+	compilerOptions: ts.CompilerOptions;
+	referencedProjects: ReferencedProject[];
+
+	/**
+	 * Names of config files which the tsconfig extends (recursively).
+	 */
+	extendedConfigFiles: string[];
+
+	/**
+	 * Checked diagnostics of the tsconfig file.
+	 */
+	diagnostics: ts.Diagnostic[];
+}
+
+/**
+ * Returns compiler options (adjusted to compile the root files to declarations) and referenced projects of the root files' tsconfig.
+ */
+export function getCompilationConfig(
+	rootFiles: ReadonlyArray<string>,
+	preferredConfigPath?: string,
+	fileSystem: FileSystem = systemFileSystem,
+	diagnosticsPolicy: DiagnosticsPolicy = {}
+): CompilationConfig {
+	const configFileName = getConfigFileName(rootFiles, preferredConfigPath, fileSystem);
+	const parsedConfig = parseConfigFile(configFileName, fileSystem, diagnosticsPolicy);
+	const compilerOptions = parsedConfig.options;
 
 	// currently we don't support these compiler options
 	// and removing them shouldn't affect generated code
@@ -24,24 +231,47 @@ export function compileDts(rootFiles: ReadonlyArray<string>, preferredConfigPath
 	compilerOptions.declarationDir = undefined;
 
 	if (compilerOptions.composite) {
-		warnLog(`Composite projects aren't supported at the time. Prefer to use non-composite project to generate declarations instead or just ignore this message if everything works fine. See https://github.com/timocov/dts-bundle-generator/issues/93`);
+		// source files of referenced projects are compiled together with the project's ones
+		// so they aren't placed under the project's root dir and aren't listed in the project's files
+		verboseLog('Composite project is compiled as non-composite one');
 		compilerOptions.composite = undefined;
+		compilerOptions.rootDir = undefined;
 	}
 
-	const dtsFiles = getDeclarationFiles(rootFiles, compilerOptions);
-
-	verboseLog(`dts cache:\n  ${Object.keys(dtsFiles).join('\n  ')}\n`);
+	return {
+		configFileName,
+		compilerOptions,
+		referencedProjects: getReferencedProjects(parsedConfig.projectReferences, configFileName, fileSystem, diagnosticsPolicy),
+		extendedConfigFiles: parsedConfig.extendedConfigFiles,
+		diagnostics: parsedConfig.errors,
+	};
+}
 
-	const host = ts.createCompilerHost(compilerOptions);
+/**
+ * A host which resolves modules, e.g. a compiler host or a watch compiler host.
+ */
+export type ModuleResolutionCompilerHost = ts.ModuleResolutionHost & Pick<ts.CompilerHost, 'resolveModuleNames'>;
 
+/**
+ * Makes the host resolve modules the same way as the compilation does it (see `resolveModuleName`).
+ * If `followSymlinks` is `false` the host doesn't resolve symlinks to their real paths.
+ * If `resolveToDeclarations` is `true` modules of source files are resolved to their declaration files instead.
+ */
+export function setupModuleResolution(
+	host: ModuleResolutionCompilerHost,
+	compilerOptions: ts.CompilerOptions,
+	referencedProjects: ReadonlyArray<ReferencedProject>,
+	followSymlinks: boolean,
+	resolveToDeclarations: boolean
+): void {
 	if (!followSymlinks) {
 		host.realpath = (path: string) => path;
 	}
 
 	host.resolveModuleNames = (moduleNames: string[], containingFile: string) => {
 		return moduleNames.map((moduleName: string) => {
-			const resolvedModule = ts.resolveModuleName(moduleName, containingFile, compilerOptions, host).resolvedModule;
-			if (resolvedModule && !resolvedModule.isExternalLibraryImport && resolvedModule.extension !== ts.Extension.Dts) {
+			const resolvedModule = resolveModuleName(moduleName, containingFile, compilerOptions, host, referencedProjects);
+			if (resolveToDeclarations && resolvedModule && !resolvedModule.isExternalLibraryImport && resolvedModule.extension !== ts.Extension.Dts) {
 				resolvedModule.extension = ts.Extension.Dts;
 
 				verboseLog(`Change module from .ts to .d.ts: ${resolvedModule.resolvedFileName}`);
@@ -52,32 +282,41 @@ export function compileDts(rootFiles: ReadonlyArray<string>, preferredConfigPath
 			return resolvedModule as ts.ResolvedModule;
 		});
 	};
+}
 
-	const originalGetSourceFile = host.getSourceFile;
-	host.getSourceFile = (fileName: string, languageVersion: ts.ScriptTarget, onError?: (message: string) => void) => {
-		const absolutePath = getAbsolutePath(fileName);
-		const storedValue = dtsFiles.get(absolutePath);
-		if (storedValue !== undefined) {
-			verboseLog(`dts cache match: ${absolutePath}`);
-			return ts.createSourceFile(fileName, storedValue, languageVersion);
-		}
+/**
+ * Resolves a module, but if the module is built from a referenced project
+ * it is resolved to the project's source file to compile it together with the root project.
+ */
+function resolveModuleName(
+	moduleName: string,
+	containingFile: string,
+	compilerOptions: ts.CompilerOptions,
+	host: ts.ModuleResolutionHost,
+	referencedProjects: ReadonlyArray<ReferencedProject>
+): ts.ResolvedModuleFull | undefined {
+	const resolvedModule = ts.resolveModuleName(moduleName, containingFile, compilerOptions, host).resolvedModule;
+	if (referencedProjects.length === 0) {
+		return resolvedModule;
+	}
 
-		verboseLog(`dts cache mismatch: ${absolutePath} (${fileName})`);
-		return originalGetSourceFile(fileName, languageVersion, onError);
-	};
+	const sourceFileName = getReferencedProjectSourceFile(
+		resolvedModule !== undefined ? resolvedModule.resolvedFileName : undefined,
+		moduleName,
+		referencedProjects
+	);
 
-	const rootFilesRemapping = new Map<string, string>();
-	const inputFiles = rootFiles.map((rootFile: string) => {
-		const rootDtsFile = changeExtensionToDts(rootFile);
-		rootFilesRemapping.set(rootFile, rootDtsFile);
-		return rootDtsFile;
-	});
+	if (sourceFileName === null) {
+		return resolvedModule;
+	}
 
-	const program = ts.createProgram(inputFiles, compilerOptions, host);
-	checkProgramDiagnosticsErrors(program);
-	warnAboutTypeScriptFilesInProgram(program);
+	verboseLog(`Resolve module "${moduleName}" from referenced project to its source: ${sourceFileName}`);
 
-	return { program, rootFilesRemapping };
+	return {
+		resolvedFileName: sourceFileName,
+		extension: path.extname(sourceFileName) === '.tsx' ? ts.Extension.Tsx : ts.Extension.Ts,
+		isExternalLibraryImport: false,
+	};
 }
 
 function changeExtensionToDts(fileName: string): string {
@@ -90,50 +329,285 @@ function changeExtensionToDts(fileName: string): string {
 	return fileName.slice(0, -ext.length) + '.d.ts';
 }
 
+interface DeclarationFiles {
+	declarations: Map<string, string>;
+	declarationMaps: Map<string, RawSourceMap>;
+	declarationsSources: Map<string, string>;
+	diagnostics: ts.Diagnostic[];
+
+	/**
+	 * Absolute paths of declaration files which are taken from the cache.
+	 */
+	reusedDeclarations: Set<string>;
+
+	getFileDependencies(fileName: string): string[];
+}
+
 /**
- * @description Compiles source files into d.ts files and returns map of absolute path to file content
+ * Diagnostic in a form which can be stored in the cache (the file is specified by its name).
  */
-function getDeclarationFiles(rootFiles: ReadonlyArray<string>, compilerOptions: ts.CompilerOptions): Map<string, string> {
+interface CachedDiagnostic {
+	fileName?: string;
+	start?: number;
+	length?: number;
+	messageText: string;
+	category: ts.DiagnosticCategory;
+	code: number;
+}
+
+/**
+ * Emitted files of a source file (names and contents) along with diagnostics of the source file and of emitting it.
+ */
+interface CachedDeclarations {
+	files: [string, string][];
+	diagnostics: CachedDiagnostic[];
+	emitDiagnostics: CachedDiagnostic[];
+}
+
+/**
+ * @description Compiles source files into d.ts files and returns maps of absolute path to file content (and to its declaration map)
+ */
+function getDeclarationFiles(
+	rootFiles: ReadonlyArray<string>,
+	compilerOptions: ts.CompilerOptions,
+	referencedProjects: ReadonlyArray<ReferencedProject>,
+	generateDeclarationMaps: boolean,
+	cache: Cache | null,
+	fileSystem: FileSystem,
+	diagnosticsPolicy: DiagnosticsPolicy
+): DeclarationFiles {
 	// we must pass `declaration: true` and `noEmit: false` if we want to generate declaration files
 	// see https://github.com/microsoft/TypeScript/issues/24002#issuecomment-550549393
 	compilerOptions = {
 		...compilerOptions,
 		noEmit: false,
 		declaration: true,
+		declarationMap: generateDeclarationMaps,
 	};
 
-	const program = ts.createProgram(rootFiles, compilerOptions);
+	const host = createCompilerHost(compilerOptions, fileSystem);
+	setupModuleResolution(host, compilerOptions, referencedProjects, true, false);
+
+	const program = ts.createProgram(rootFiles, compilerOptions, host);
 	const allFilesAreDeclarations = program.getSourceFiles().every((s: ts.SourceFile) => s.isDeclarationFile);
+	const result: DeclarationFiles = {
+		declarations: new Map(),
+		declarationMaps: new Map(),
+		declarationsSources: new Map(),
+		diagnostics: [],
+		reusedDeclarations: new Set(),
+		getFileDependencies: createFileDependenciesGetter(program, compilerOptions, host, referencedProjects),
+	};
 
-	const declarations = new Map<string, string>();
 	if (allFilesAreDeclarations) {
 		// if all files are declarations we don't need to compile the project twice
 		// so let's just return empty map to speed up
 		verboseLog('Skipping compiling the project to generate d.ts because all files in it are d.ts already');
-		return declarations;
+		return result;
 	}
 
-	checkProgramDiagnosticsErrors(program);
+	const sourceFiles = program.getSourceFiles().filter((sourceFile: ts.SourceFile) => !sourceFile.isDeclarationFile);
+	for (const sourceFile of sourceFiles) {
+		result.declarationsSources.set(changeExtensionToDts(getAbsolutePath(sourceFile.fileName)), sourceFile.fileName);
+	}
 
-	const emitResult = program.emit(
-		undefined,
-		(fileName: string, data: string) => declarations.set(getAbsolutePath(fileName), data),
-		undefined,
-		true
+	const writeFile = (fileName: string, data: string) => {
+		const absolutePath = getAbsolutePath(fileName);
+		if (absolutePath.slice(-4) === '.map') {
+			result.declarationMaps.set(absolutePath.slice(0, -4), JSON.parse(data) as RawSourceMap);
+		} else {
+			result.declarations.set(absolutePath, data);
+		}
+	};
+
+	if (cache === null) {
+		result.diagnostics.push(...checkProgramDiagnosticsErrors(program, diagnosticsPolicy));
+
+		const emitResult = program.emit(undefined, writeFile, undefined, true);
+		result.diagnostics.push(...checkDiagnosticsErrors(emitResult.diagnostics, 'Errors while emitting declarations', diagnosticsPolicy));
+		return result;
+	}
+
+	const getCacheKeyForFile = (sourceFile: ts.SourceFile) => getCacheKey('declarations', getAbsolutePath(sourceFile.fileName), compilerOptions);
+
+	const cachedDeclarations = new Map<ts.SourceFile, CachedDeclarations>();
+	for (const sourceFile of sourceFiles) {
+		const cachedValue = cache.get<CachedDeclarations>(getCacheKeyForFile(sourceFile));
+		if (cachedValue !== null) {
+			verboseLog(`Using cached declarations of ${sourceFile.fileName}`);
+			cachedDeclarations.set(sourceFile, cachedValue);
+		}
+	}
+
+	// only files which aren't cached are type-checked, diagnostics of the rest ones are taken from the cache
+	const restoreDiagnostic = (diagnostic: CachedDiagnostic) => restoreCachedDiagnostic(diagnostic, program);
+	const cachedDiagnostics: ts.Diagnostic[] = [];
+	const emitDiagnostics: ts.Diagnostic[] = [];
+	cachedDeclarations.forEach((value: CachedDeclarations) => {
+		cachedDiagnostics.push(...value.diagnostics.map(restoreDiagnostic));
+		emitDiagnostics.push(...value.emitDiagnostics.map(restoreDiagnostic));
+	});
+
+	result.diagnostics.push(
+		...checkProgramDiagnosticsErrors(program, diagnosticsPolicy, (sourceFile: ts.SourceFile) => !cachedDeclarations.has(sourceFile)),
+		...checkDiagnosticsErrors(cachedDiagnostics, 'Compiled with errors', diagnosticsPolicy)
 	);
 
-	checkDiagnosticsErrors(emitResult.diagnostics, 'Errors while emitting declarations');
+	// broken declarations (e.g. not emitted ones) might cause errors in files which use them
+	// so if there are any diagnostics all declarations are checked again
+	let hasDiagnostics = result.diagnostics.length !== 0;
+	for (const sourceFile of sourceFiles) {
+		let value = cachedDeclarations.get(sourceFile);
+		if (value === undefined) {
+			const files: [string, string][] = [];
+			const emitResult = program.emit(sourceFile, (fileName: string, data: string) => files.push([fileName, data]), undefined, true);
+			emitDiagnostics.push(...emitResult.diagnostics);
+
+			value = {
+				files,
+				diagnostics: getSourceFileDiagnostics(program, sourceFile).map(getCachedDiagnostic),
+				emitDiagnostics: emitResult.diagnostics.map(getCachedDiagnostic),
+			};
+
+			cache.set(getCacheKeyForFile(sourceFile), value, result.getFileDependencies(sourceFile.fileName));
+		}
 
-	return declarations;
+		hasDiagnostics = hasDiagnostics || value.diagnostics.length !== 0 || value.emitDiagnostics.length !== 0;
+
+		for (const [fileName, data] of value.files) {
+			writeFile(fileName, data);
+		}
+	}
+
+	result.diagnostics.push(...checkDiagnosticsErrors(emitDiagnostics, 'Errors while emitting declarations', diagnosticsPolicy));
+
+	if (!hasDiagnostics) {
+		cachedDeclarations.forEach((value: CachedDeclarations, sourceFile: ts.SourceFile) => {
+			result.reusedDeclarations.add(changeExtensionToDts(getAbsolutePath(sourceFile.fileName)));
+		});
+	}
+
+	return result;
+}
+
+function getCachedDiagnostic(diagnostic: ts.Diagnostic): CachedDiagnostic {
+	return {
+		fileName: diagnostic.file !== undefined ? getAbsolutePath(diagnostic.file.fileName) : undefined,
+		start: diagnostic.start,
+		length: diagnostic.length,
+		messageText: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+		category: diagnostic.category,
+		code: diagnostic.code,
+	};
+}
+
+function restoreCachedDiagnostic(diagnostic: CachedDiagnostic, program: ts.Program): ts.Diagnostic {
+	return {
+		file: diagnostic.fileName !== undefined ? program.getSourceFile(diagnostic.fileName) : undefined,
+		start: diagnostic.start,
+		length: diagnostic.length,
+		messageText: diagnostic.messageText,
+		category: diagnostic.category,
+		code: diagnostic.code,
+	};
+}
+
+/**
+ * Returns a function which returns names of all source files of the program (except default libraries)
+ * which the file might depend on, i.e. the file itself, files which it imports or references (recursively)
+ * and global (non-module) files.
+ * The dependencies are detected by the files' texts so the program doesn't need to be type-checked.
+ */
+function createFileDependenciesGetter(
+	program: ts.Program,
+	compilerOptions: ts.CompilerOptions,
+	host: ts.ModuleResolutionHost,
+	referencedProjects: ReadonlyArray<ReferencedProject>
+): (fileName: string) => string[] {
+	const globalFiles = program.getSourceFiles().filter((file: ts.SourceFile) => !ts.isExternalModule(file));
+
+	const directDependencies = new Map<ts.SourceFile, string[]>();
+	const getDirectDependencies = (sourceFile: ts.SourceFile): string[] => {
+		let result = directDependencies.get(sourceFile);
+		if (result === undefined) {
+			const fileInfo = ts.preProcessFile(sourceFile.text, true, true);
+			const resolvedFiles: (string | undefined)[] = [
+				...fileInfo.importedFiles.map((ref: ts.FileReference) => {
+					const resolvedModule = resolveModuleName(ref.fileName, sourceFile.fileName, compilerOptions, host, referencedProjects);
+					return resolvedModule !== undefined ? resolvedModule.resolvedFileName : undefined;
+				}),
+				...fileInfo.typeReferenceDirectives.map((ref: ts.FileReference) => {
+					const resolvedDirective = ts.resolveTypeReferenceDirective(ref.fileName, sourceFile.fileName, compilerOptions, host).resolvedTypeReferenceDirective;
+					return resolvedDirective !== undefined ? resolvedDirective.resolvedFileName : undefined;
+				}),
+				...fileInfo.referencedFiles.map((ref: ts.FileReference) => path.resolve(path.dirname(sourceFile.fileName), ref.fileName)),
+			];
+
+			result = resolvedFiles.filter((fileName: string | undefined): fileName is string => fileName !== undefined);
+			directDependencies.set(sourceFile, result);
+		}
+
+		return result;
+	};
+
+	return (fileName: string) => {
+		const dependencies = new Set<string>();
+		const visitFile = (sourceFile: ts.SourceFile | undefined) => {
+			if (sourceFile === undefined || dependencies.has(sourceFile.fileName) || program.isSourceFileDefaultLibrary(sourceFile)) {
+				return;
+			}
+
+			dependencies.add(sourceFile.fileName);
+			for (const dependency of getDirectDependencies(sourceFile)) {
+				visitFile(program.getSourceFile(dependency));
+			}
+		};
+
+		visitFile(program.getSourceFile(fileName));
+		globalFiles.forEach(visitFile);
+
+		return Array.from(dependencies);
+	};
+}
+
+/**
+ * Adds declaration maps of declaration files of the program which are built already (e.g. by tsc with `declarationMap` option)
+ * to maps of emitted declaration files.
+ * Only maps which are placed next to their files (i.e. `<file>.d.ts.map`, as tsc emits them) are read.
+ */
+function addBuiltDeclarationMaps(program: ts.Program, declarationMaps: Map<string, RawSourceMap>, fileSystem: FileSystem): void {
+	for (const sourceFile of program.getSourceFiles()) {
+		const fileName = getAbsolutePath(sourceFile.fileName);
+		if (!sourceFile.isDeclarationFile || declarationMaps.has(fileName) || program.isSourceFileDefaultLibrary(sourceFile)) {
+			continue;
+		}
+
+		const mapFileName = `${fileName}.map`;
+		if (!sourceFile.text.trimRight().endsWith(`//# sourceMappingURL=${path.basename(mapFileName)}`)) {
+			continue;
+		}
+
+		const content = fileSystem.readFile(mapFileName);
+		if (content === undefined) {
+			continue;
+		}
+
+		try {
+			declarationMaps.set(fileName, JSON.parse(content) as RawSourceMap);
+		} catch (ex) {
+			verboseLog(`Cannot parse declaration map ${mapFileName}: ${ex.message}`);
+		}
+	}
 }
 
 function warnAboutTypeScriptFilesInProgram(program: ts.Program): void {
 	const nonDeclarationFiles = program.getSourceFiles().filter((file: ts.SourceFile) => !file.isDeclarationFile);
 	if (nonDeclarationFiles.length !== 0) {
-		warnLog(`WARNING: It seems that some files in the compilation still are not declaration files.
+		const message = `WARNING: It seems that some files in the compilation still are not declaration files.
 For more information see https://github.com/timocov/dts-bundle-generator/issues/53.
 If you think this is a mistake, feel free to open new issue or just ignore this warning.
   ${nonDeclarationFiles.map((file: ts.SourceFile) => file.fileName).join('\n  ')}
-`);
+`;
+		warnLog(message, { code: 'non-declaration-files' });
 	}
 }
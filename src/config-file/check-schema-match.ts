@@ -5,6 +5,8 @@ export interface PrimitiveValues {
 	requiredBoolean: true;
 	string: '';
 	requiredString: 'REQUIRED';
+	number: 0;
+	function(): void;
 }
 
 export type SchemeDescriptor<T> = {
@@ -16,6 +18,8 @@ export const schemaPrimitiveValues: Readonly<PrimitiveValues> = {
 	requiredBoolean: true,
 	string: '',
 	requiredString: 'REQUIRED',
+	number: 0,
+	function: () => undefined,
 };
 
 const schemaRequiredValues = new Set([
@@ -34,7 +38,7 @@ export function checkSchemaMatch<T>(value: unknown, schema: SchemeDescriptor<T>,
 
 // tslint:disable-next-line:cyclomatic-complexity
 function checkSchemaMatchRecursively<T>(value: unknown, schema: SchemeDescriptor<T> | [SchemeDescriptor<T>], prefix: string, errors: string[]): value is T {
-	if (typeof schema === 'boolean' || typeof schema === 'string') {
+	if (typeof schema === 'boolean' || typeof schema === 'string' || typeof schema === 'number' || typeof schema === 'function') {
 		const schemeType = typeof schema;
 		if (value === undefined && schemaRequiredValues.has(schema)) {
 			errors.push(`Value for "${prefix}" is required and must have type "${schemeType}"`);
@@ -1,8 +1,17 @@
 import * as path from 'path';
 
 import { errorLog } from '../logger';
-import { EntryPointConfig, CompilationOptions } from '../bundle-generator';
+import {
+	BundlerPlugin,
+	CommonChunkOptions,
+	CompilationOptions,
+	EntryPointConfig,
+	LibrariesOptions,
+	OutputOptions,
+} from '../bundle-generator';
 import { getAbsolutePath } from '../helpers/get-absolute-path';
+import { ReleaseTag } from '../helpers/release-tags';
+import { getPackageExportsEntries, PackageExportEntry } from '../package-exports';
 import { checkSchemaMatch, SchemeDescriptor, schemaPrimitiveValues } from './check-schema-match';
 
 export interface ConfigEntryPoint extends EntryPointConfig {
@@ -16,11 +25,48 @@ export interface ConfigEntryPoint extends EntryPointConfig {
 	 * Skip validation of generated d.ts file
 	 */
 	noCheck?: boolean;
+
+	/**
+	 * Path of API report of generated d.ts.
+	 * If specified - the report is written to this file (or compared with it if `--check-api-report` is used).
+	 */
+	apiReportFile?: string;
+}
+
+export interface ConfigCommonChunkOptions extends CommonChunkOptions {
+	/**
+	 * Path of generated d.ts of the common chunk.
+	 */
+	outFile: string;
+
+	/**
+	 * Skip validation of generated d.ts file
+	 */
+	noCheck?: boolean;
+
+	/**
+	 * Path of API report of generated d.ts of the common chunk.
+	 */
+	apiReportFile?: string;
+}
+
+// the file system and the logger can't be changed for the CLI and reports (an explanation, a usage graph, unused declarations, statistics) are requested via CLI options only
+export interface ConfigCompilationOptions extends Omit<CompilationOptions, 'fileSystem' | 'logger' | 'explain' | 'usageGraph' | 'unusedDeclarations' | 'stats'> {
+	commonChunk?: ConfigCommonChunkOptions;
+}
+
+export interface ConfigPackageExports extends Omit<ConfigEntryPoint, 'filePath' | 'outFile' | 'importPath' | 'apiReportFile'> {
+	/**
+	 * Path to package.json which `exports` field is used to generate an entry for every subpath.
+	 * An output of an entry is written to its subpath's `types`/`import` declaration target.
+	 */
+	packageJsonPath: string;
 }
 
 export interface BundlerConfig {
 	entries: ConfigEntryPoint[];
-	compilationOptions?: CompilationOptions;
+	packageExports?: ConfigPackageExports;
+	compilationOptions?: ConfigCompilationOptions;
 }
 
 /**
@@ -31,33 +77,153 @@ export function loadConfigFile(configPath: string): BundlerConfig {
 
 	const errors: string[] = [];
 	if (!checkSchemaMatch(possibleConfig, configScheme, errors)) {
-		errorLog(errors.join('\n'));
+		errorLog(errors.join('\n'), { code: 'invalid-config' });
 		throw new Error('Cannot parse config file');
 	}
 
-	if (!Array.isArray(possibleConfig.entries) || possibleConfig.entries.length === 0) {
+	const configFolder = path.dirname(configPath);
+
+	if (possibleConfig.packageExports !== undefined) {
+		const packageExports: ConfigPackageExports = possibleConfig.packageExports;
+		packageExports.packageJsonPath = getAbsolutePath(packageExports.packageJsonPath, configFolder);
+		if (packageExports.preferredConfigPath !== undefined) {
+			packageExports.preferredConfigPath = getAbsolutePath(packageExports.preferredConfigPath, configFolder);
+		}
+
+		// entries are optional if package exports are specified
+		if (!Array.isArray(possibleConfig.entries)) {
+			possibleConfig.entries = [];
+		}
+	}
+
+	if (!Array.isArray(possibleConfig.entries) || possibleConfig.entries.length === 0 && possibleConfig.packageExports === undefined) {
 		throw new Error('No entries found');
 	}
 
-	const configFolder = path.dirname(configPath);
-	possibleConfig.entries.forEach((entry: ConfigEntryPoint) => {
-		entry.filePath = getAbsolutePath(entry.filePath, configFolder);
-		if (entry.outFile !== undefined) {
-			entry.outFile = getAbsolutePath(entry.outFile, configFolder);
-		}
-	});
+	possibleConfig.entries.forEach((entry: ConfigEntryPoint) => resolveEntryPaths(entry, configFolder));
+
+	if (possibleConfig.compilationOptions !== undefined) {
+		resolveCompilationOptionsPaths(possibleConfig.compilationOptions, configFolder);
+	}
 
-	if (possibleConfig.compilationOptions !== undefined && possibleConfig.compilationOptions.preferredConfigPath !== undefined) {
-		possibleConfig.compilationOptions.preferredConfigPath = getAbsolutePath(possibleConfig.compilationOptions.preferredConfigPath, configFolder);
+	if (possibleConfig.packageExports !== undefined) {
+		possibleConfig.entries.push(...getPackageExportsConfigEntries(possibleConfig.packageExports));
 	}
 
 	return possibleConfig;
 }
 
+function resolveCompilationOptionsPaths(compilationOptions: ConfigCompilationOptions, configFolder: string): void {
+	if (compilationOptions.preferredConfigPath !== undefined) {
+		compilationOptions.preferredConfigPath = getAbsolutePath(compilationOptions.preferredConfigPath, configFolder);
+	}
+
+	if (compilationOptions.cacheDir !== undefined) {
+		compilationOptions.cacheDir = getAbsolutePath(compilationOptions.cacheDir, configFolder);
+	}
+
+	const diagnostics = compilationOptions.diagnostics;
+	if (diagnostics !== undefined && diagnostics.ignoreFiles !== undefined) {
+		diagnostics.ignoreFiles = diagnostics.ignoreFiles.map((ignoredPath: string) => getAbsolutePath(ignoredPath, configFolder));
+	}
+
+	const commonChunk = compilationOptions.commonChunk;
+	if (commonChunk !== undefined) {
+		commonChunk.outFile = getAbsolutePath(commonChunk.outFile, configFolder);
+		if (commonChunk.apiReportFile !== undefined) {
+			commonChunk.apiReportFile = getAbsolutePath(commonChunk.apiReportFile, configFolder);
+		}
+	}
+}
+
+function resolveEntryPaths(entry: ConfigEntryPoint, configFolder: string): void {
+	entry.filePath = getAbsolutePath(entry.filePath, configFolder);
+	if (entry.outFile !== undefined) {
+		entry.outFile = getAbsolutePath(entry.outFile, configFolder);
+	}
+
+	if (entry.preferredConfigPath !== undefined) {
+		entry.preferredConfigPath = getAbsolutePath(entry.preferredConfigPath, configFolder);
+	}
+
+	if (entry.apiReportFile !== undefined) {
+		entry.apiReportFile = getAbsolutePath(entry.apiReportFile, configFolder);
+	}
+}
+
+/**
+ * @internal Do not output this function in generated dts for the npm package
+ */
+export function getPackageExportsConfigEntries(packageExports: ConfigPackageExports): ConfigEntryPoint[] {
+	const { packageJsonPath, ...entryOptions } = packageExports;
+	return getPackageExportsEntries(packageJsonPath, packageExports.preferredConfigPath).map((packageExport: PackageExportEntry) => {
+		return {
+			...entryOptions,
+			filePath: packageExport.filePath,
+			outFile: packageExport.outFile,
+			importPath: packageExport.importPath,
+			preferredConfigPath: packageExport.configPath,
+		};
+	});
+}
+
+const librariesScheme: SchemeDescriptor<LibrariesOptions> = {
+	allowedTypesLibraries: [schemaPrimitiveValues.string],
+	importedLibraries: [schemaPrimitiveValues.string],
+	inlinedLibraries: [schemaPrimitiveValues.string],
+};
+
+const outputScheme: SchemeDescriptor<OutputOptions> = {
+	inlineDeclareGlobals: schemaPrimitiveValues.boolean,
+	inlineDeclareExternals: schemaPrimitiveValues.boolean,
+	sortNodes: schemaPrimitiveValues.boolean,
+	umdModuleName: schemaPrimitiveValues.string,
+	noBanner: schemaPrimitiveValues.boolean,
+	respectPreserveConstEnum: schemaPrimitiveValues.boolean,
+	exportReferencedTypes: schemaPrimitiveValues.boolean,
+	// only the type of the value is checked here, the value itself is validated by the generator
+	releaseLevel: schemaPrimitiveValues.string as ReleaseTag,
+	declarationMap: schemaPrimitiveValues.boolean,
+};
+
+const pluginsScheme: SchemeDescriptor<BundlerPlugin[]> = [
+	{
+		name: schemaPrimitiveValues.requiredString,
+		onStatementCollected: schemaPrimitiveValues.function,
+		transformStatement: schemaPrimitiveValues.function,
+		transformOutput: schemaPrimitiveValues.function,
+	},
+];
+
 const configScheme: SchemeDescriptor<BundlerConfig> = {
 	compilationOptions: {
 		followSymlinks: schemaPrimitiveValues.boolean,
 		preferredConfigPath: schemaPrimitiveValues.string,
+		plugins: pluginsScheme,
+		cacheDir: schemaPrimitiveValues.string,
+		diagnostics: {
+			// only the type of the value is checked here, the value itself is validated by the generator
+			errors: schemaPrimitiveValues.string as 'fail' | 'warn',
+			ignoreCodes: [schemaPrimitiveValues.number],
+			ignoreFiles: [schemaPrimitiveValues.string],
+		},
+		commonChunk: {
+			importPath: schemaPrimitiveValues.requiredString,
+			outFile: schemaPrimitiveValues.requiredString,
+			noCheck: schemaPrimitiveValues.boolean,
+			apiReportFile: schemaPrimitiveValues.string,
+			libraries: librariesScheme,
+			output: outputScheme,
+		},
+	},
+	packageExports: {
+		packageJsonPath: schemaPrimitiveValues.requiredString,
+		failOnClass: schemaPrimitiveValues.boolean,
+		noCheck: schemaPrimitiveValues.boolean,
+		preferredConfigPath: schemaPrimitiveValues.string,
+		libraries: librariesScheme,
+		output: outputScheme,
+		plugins: pluginsScheme,
 	},
 	entries: [
 		{
@@ -65,20 +231,12 @@ const configScheme: SchemeDescriptor<BundlerConfig> = {
 			outFile: schemaPrimitiveValues.string,
 			failOnClass: schemaPrimitiveValues.boolean,
 			noCheck: schemaPrimitiveValues.boolean,
-			libraries: {
-				allowedTypesLibraries: [schemaPrimitiveValues.string],
-				importedLibraries: [schemaPrimitiveValues.string],
-				inlinedLibraries: [schemaPrimitiveValues.string],
-			},
-			output: {
-				inlineDeclareGlobals: schemaPrimitiveValues.boolean,
-				inlineDeclareExternals: schemaPrimitiveValues.boolean,
-				sortNodes: schemaPrimitiveValues.boolean,
-				umdModuleName: schemaPrimitiveValues.string,
-				noBanner: schemaPrimitiveValues.boolean,
-				respectPreserveConstEnum: schemaPrimitiveValues.boolean,
-				exportReferencedTypes: schemaPrimitiveValues.boolean,
-			},
+			preferredConfigPath: schemaPrimitiveValues.string,
+			importPath: schemaPrimitiveValues.string,
+			apiReportFile: schemaPrimitiveValues.string,
+			libraries: librariesScheme,
+			output: outputScheme,
+			plugins: pluginsScheme,
 		},
 	],
 };
@@ -0,0 +1,133 @@
+import * as ts from 'typescript';
+
+import { getStatementDeclarationNames } from './helpers/typescript';
+import { getAbsolutePath } from './helpers/get-absolute-path';
+import {
+	createSourceMap,
+	getOriginalPositionGetter,
+	FilePosition,
+	RawSourceMap,
+	SourceMapSegment,
+} from './helpers/source-map';
+
+export interface DeclarationMapParams {
+	/**
+	 * Names of declarations of the bundle (nodes of the program) by their names in the output.
+	 * Several declarations with the same name (e.g. merged ones) are expected to be in the output order.
+	 */
+	declarationsNames: Map<string, ts.Identifier[]>;
+
+	/**
+	 * Declaration maps of the program's declaration files by absolute paths of these files.
+	 */
+	declarationMaps: Map<string, RawSourceMap>;
+}
+
+type OriginalPositionGetter = (line: number, character: number) => FilePosition | null;
+
+/**
+ * Generates a map from the output to sources of its declarations.
+ * Every statement (as well as its members) of the output is mapped to its declaration in the program,
+ * which in turn is mapped to its source file via the declaration map of its file (if there is one).
+ * Paths of sources are absolute.
+ */
+export function generateDeclarationMap(output: string, params: DeclarationMapParams): RawSourceMap {
+	const outputFile = ts.createSourceFile('output.d.ts', output, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+	const linesSegments: SourceMapSegment[][] = outputFile.getLineStarts().map(() => []);
+
+	const positionGetters = new Map<string, OriginalPositionGetter | null>();
+	const getSourcePosition = (node: ts.Node): FilePosition => {
+		const sourceFile = node.getSourceFile();
+		const fileName = getAbsolutePath(sourceFile.fileName);
+		const { line, character } = sourceFile.getLineAndCharacterOfPosition(node.getStart());
+
+		let getter = positionGetters.get(fileName);
+		if (getter === undefined) {
+			const declarationMap = params.declarationMaps.get(fileName);
+			getter = declarationMap !== undefined ? getOriginalPositionGetter(declarationMap, `${fileName}.map`) : null;
+			positionGetters.set(fileName, getter);
+		}
+
+		const originalPosition = getter !== null ? getter(line, character) : null;
+		return originalPosition !== null ? originalPosition : { fileName, line, character };
+	};
+
+	const addSegment = (outputNode: ts.Node, originalNode: ts.Node) => {
+		const { line, character } = outputFile.getLineAndCharacterOfPosition(outputNode.getStart());
+		linesSegments[line].push({ generatedCharacter: character, source: getSourcePosition(originalNode) });
+	};
+
+	const usedDeclarationsCount = new Map<string, number>();
+
+	for (const statement of outputFile.statements) {
+		for (const name of getStatementDeclarationNames(statement)) {
+			const declarations = params.declarationsNames.get(name.text);
+			const index = usedDeclarationsCount.get(name.text) || 0;
+			if (declarations === undefined || index >= declarations.length) {
+				continue;
+			}
+
+			usedDeclarationsCount.set(name.text, index + 1);
+
+			const originalName = declarations[index];
+			addSegment(statement, originalName.parent);
+			addSegment(name, originalName);
+			addMembersSegments(statement, originalName.parent, addSegment);
+		}
+	}
+
+	for (const lineSegments of linesSegments) {
+		lineSegments.sort((a: SourceMapSegment, b: SourceMapSegment) => a.generatedCharacter - b.generatedCharacter);
+	}
+
+	return createSourceMap(linesSegments);
+}
+
+/**
+ * Maps members of a declaration of the output to members of the original declaration with the same names.
+ */
+function addMembersSegments(outputNode: ts.Node, originalNode: ts.Node, addSegment: (outputNode: ts.Node, originalNode: ts.Node) => void): void {
+	const originalMembers = getNamedMembers(originalNode);
+	if (originalMembers.length === 0) {
+		return;
+	}
+
+	for (const outputMember of getNamedMembers(outputNode)) {
+		const memberName = getMemberName(outputMember);
+		const index = originalMembers.findIndex((member: ts.NamedDeclaration) => getMemberName(member) === memberName);
+		if (index === -1) {
+			continue;
+		}
+
+		const originalMember = originalMembers[index];
+		originalMembers.splice(index, 1);
+
+		addSegment(outputMember, originalMember);
+		addSegment(outputMember.name as ts.DeclarationName, originalMember.name as ts.DeclarationName);
+		addMembersSegments(outputMember, originalMember, addSegment);
+	}
+}
+
+function getNamedMembers(node: ts.Node): ts.NamedDeclaration[] {
+	let members: ReadonlyArray<ts.Node> = [];
+	if (ts.isClassDeclaration(node) || ts.isInterfaceDeclaration(node) || ts.isEnumDeclaration(node)) {
+		members = node.members;
+	} else if (ts.isModuleDeclaration(node) && node.body !== undefined && ts.isModuleBlock(node.body)) {
+		members = node.body.statements;
+	}
+
+	return members.filter((member: ts.Node): member is ts.NamedDeclaration => getMemberName(member as ts.NamedDeclaration) !== null);
+}
+
+function getMemberName(member: ts.NamedDeclaration): string | null {
+	const name = member.name;
+	if (name === undefined) {
+		return null;
+	}
+
+	if (ts.isIdentifier(name) || ts.isPrivateIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name)) {
+		return name.text;
+	}
+
+	return null;
+}
@@ -0,0 +1,158 @@
+import * as path from 'path';
+
+import { BundleDiagnostic, DiagnosticLocation } from './helpers/check-diagnostics-errors';
+import { fixPath } from './helpers/fix-path';
+import { packageVersion } from './helpers/package-version';
+import { Logger, LogMessage } from './logger';
+
+export type DiagnosticsReportFormat = 'json' | 'sarif';
+
+/**
+ * A compiler diagnostic or a warning (or an error) of the generator.
+ */
+export interface DiagnosticsReportItem {
+	severity: 'error' | 'warning' | 'suggestion' | 'message';
+
+	/**
+	 * `TS<code>` for compiler diagnostics and a code of the message for generator's ones (if it has one).
+	 */
+	code?: string;
+
+	message: string;
+	location?: DiagnosticLocation;
+
+	/**
+	 * Path of the input file of the entry which the item relates to (if it relates to a specific entry).
+	 */
+	entryFilePath?: string;
+}
+
+/**
+ * A logger which collects compiler diagnostics as well as generator's warnings and errors from logged messages.
+ */
+export interface DiagnosticsCollector extends Logger {
+	getItems(): DiagnosticsReportItem[];
+	getReport(format: DiagnosticsReportFormat): string;
+}
+
+/**
+ * Creates a diagnostics collector which passes all messages to the logger as well (if it is provided),
+ * e.g. `{ logger: createDiagnosticsCollector(createConsoleLogger()) }` compilation options
+ * allow to write a report even if the generation fails.
+ */
+export function createDiagnosticsCollector(logger?: Logger): DiagnosticsCollector {
+	const items: DiagnosticsReportItem[] = [];
+	const reportedItems = new Set<string>();
+
+	const addItem = (item: DiagnosticsReportItem) => {
+		// the same diagnostics might be reported several times (e.g. for every entry of a project)
+		const itemKey = JSON.stringify([item.severity, item.code, item.message, item.location]);
+		if (!reportedItems.has(itemKey)) {
+			reportedItems.add(itemKey);
+			items.push(item);
+		}
+	};
+
+	return {
+		log: (message: LogMessage) => {
+			if (logger !== undefined) {
+				logger.log(message);
+			}
+
+			if (message.level !== 'warning' && message.level !== 'error') {
+				return;
+			}
+
+			if (message.diagnostics !== undefined) {
+				for (const diagnostic of message.diagnostics) {
+					addItem(getCompilerDiagnosticItem(diagnostic, message.entryFilePath));
+				}
+
+				return;
+			}
+
+			addItem({
+				severity: message.level,
+				code: message.code,
+				message: message.message,
+				location: message.location,
+				entryFilePath: message.entryFilePath,
+			});
+		},
+		getItems: () => items.slice(),
+		getReport: (format: DiagnosticsReportFormat) => formatDiagnosticsReport(items, format),
+	};
+}
+
+/**
+ * Formats items as a JSON object with `diagnostics` array or as a SARIF log (https://sarifweb.azurewebsites.net),
+ * paths of files in SARIF are relative to the current directory.
+ */
+export function formatDiagnosticsReport(items: ReadonlyArray<DiagnosticsReportItem>, format: DiagnosticsReportFormat): string {
+	switch (format) {
+		case 'json':
+			return JSON.stringify({ diagnostics: items }, null, 2);
+
+		case 'sarif':
+			return JSON.stringify(getSarifLog(items), null, 2);
+
+		default:
+			throw new Error(`Unknown diagnostics report format "${format}", expected "json" or "sarif"`);
+	}
+}
+
+function getCompilerDiagnosticItem(diagnostic: BundleDiagnostic, entryFilePath: string | undefined): DiagnosticsReportItem {
+	return {
+		severity: diagnostic.category,
+		code: `TS${diagnostic.code}`,
+		message: diagnostic.message,
+		location: diagnostic.location,
+		entryFilePath,
+	};
+}
+
+function getSarifLog(items: ReadonlyArray<DiagnosticsReportItem>): object {
+	const rulesIds = Array.from(new Set(
+		items.map((item: DiagnosticsReportItem) => item.code).filter((code: string | undefined): code is string => code !== undefined)
+	)).sort();
+
+	return {
+		$schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+		version: '2.1.0',
+		runs: [
+			{
+				tool: {
+					driver: {
+						name: 'dts-bundle-generator',
+						version: packageVersion(),
+						informationUri: 'https://github.com/timocov/dts-bundle-generator',
+						rules: rulesIds.map((id: string) => ({ id })),
+					},
+				},
+				results: items.map((item: DiagnosticsReportItem) => {
+					const result: Record<string, unknown> = {
+						level: item.severity === 'error' || item.severity === 'warning' ? item.severity : 'note',
+						message: { text: item.message },
+					};
+
+					if (item.code !== undefined) {
+						result.ruleId = item.code;
+					}
+
+					if (item.location !== undefined) {
+						result.locations = [
+							{
+								physicalLocation: {
+									artifactLocation: { uri: fixPath(path.relative(process.cwd(), item.location.fileName)) },
+									region: { startLine: item.location.line, startColumn: item.location.column },
+								},
+							},
+						];
+					}
+
+					return result;
+				}),
+			},
+		],
+	};
+}
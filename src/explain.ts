@@ -0,0 +1,172 @@
+import * as path from 'path';
+import * as ts from 'typescript';
+
+import { DiagnosticLocation } from './helpers/check-diagnostics-errors';
+import { fixPath } from './helpers/fix-path';
+import { getAbsolutePath } from './helpers/get-absolute-path';
+import { createSourceLocationGetter } from './helpers/source-location';
+import { RawSourceMap } from './helpers/source-map';
+import {
+	getDeclarationNameSymbol,
+	getDeclarationsForSymbol,
+	getStatementDeclarationNames,
+	SourceFileExport,
+} from './helpers/typescript';
+import { getModuleTypeName, ModuleInfo, ModuleTypeName } from './module-info';
+import { TypesUsageEvaluator } from './types-usage-evaluator';
+
+export interface DeclarationUsageChainItem {
+	name: string;
+	location?: DiagnosticLocation;
+}
+
+/**
+ * Explains why a declaration is (or isn't) a part of a bundle.
+ */
+export interface DeclarationExplanation {
+	name: string;
+	location?: DiagnosticLocation;
+
+	/**
+	 * The shortest chain of declarations from an export of the entry to the declaration (both are included),
+	 * where every declaration uses the next one.
+	 * `null` if the declaration isn't used by any export of the entry.
+	 */
+	usageChain: DeclarationUsageChainItem[] | null;
+
+	/**
+	 * Name of the export of the entry which the usage chain starts from (`null` if there is no chain).
+	 */
+	exportedName: string | null;
+
+	/**
+	 * How the module of the declaration is handled, i.e. whether the declaration is inlined, imported and so on.
+	 */
+	module: {
+		fileName: string;
+		type: ModuleTypeName;
+		reason: string;
+	};
+}
+
+export interface ExplainParams {
+	sourceFiles: ReadonlyArray<ts.SourceFile>;
+	typeChecker: ts.TypeChecker;
+	rootFileExports: ReadonlyArray<SourceFileExport>;
+	typesUsageEvaluator: TypesUsageEvaluator;
+
+	/**
+	 * Declaration maps of the program's declaration files by absolute paths of these files
+	 * to report locations in source files rather than in emitted declarations.
+	 */
+	declarationMaps: Map<string, RawSourceMap>;
+
+	/**
+	 * Source files of the program's declaration files by absolute paths of these files.
+	 */
+	declarationsSources: Map<string, string>;
+
+	getModuleInfo(fileName: string): ModuleInfo;
+}
+
+/**
+ * Returns explanations for all top-level declarations with the name (there might be several ones in different files).
+ */
+export function explainDeclarations(name: string, params: ExplainParams): DeclarationExplanation[] {
+	const { typeChecker, rootFileExports, typesUsageEvaluator } = params;
+	const rootFileExportSymbols = rootFileExports.map((exp: SourceFileExport) => exp.symbol);
+
+	const getSourceLocation = createSourceLocationGetter(params.declarationMaps);
+	const getSymbolLocation = (symbol: ts.Symbol): DiagnosticLocation | undefined => {
+		const declarations = getDeclarationsForSymbol(symbol);
+		if (declarations.length === 0) {
+			return undefined;
+		}
+
+		return getSourceLocation(ts.getNameOfDeclaration(declarations[0]) || declarations[0]);
+	};
+
+	const getUsageChainItem = (symbol: ts.Symbol): DeclarationUsageChainItem => {
+		const location = getSymbolLocation(symbol);
+		return location !== undefined ? { name: symbol.getName(), location } : { name: symbol.getName() };
+	};
+
+	const result: DeclarationExplanation[] = [];
+	for (const symbol of findDeclarationsSymbols(name, params.sourceFiles, typeChecker)) {
+		const usageChain = typesUsageEvaluator.getShortestUsageChain(symbol, rootFileExportSymbols);
+		const rootExport = usageChain !== null ? rootFileExports.find((exp: SourceFileExport) => exp.symbol === usageChain[0]) : undefined;
+		const moduleInfo = params.getModuleInfo(getSymbolFileName(symbol));
+		const moduleSourceFileName = params.declarationsSources.get(getAbsolutePath(moduleInfo.fileName));
+
+		result.push({
+			name,
+			location: getSymbolLocation(symbol),
+			usageChain: usageChain !== null ? usageChain.map(getUsageChainItem) : null,
+			exportedName: rootExport !== undefined ? rootExport.exportedName : null,
+			module: {
+				fileName: getAbsolutePath(moduleSourceFileName !== undefined ? moduleSourceFileName : moduleInfo.fileName),
+				type: getModuleTypeName(moduleInfo.type),
+				reason: moduleInfo.reason,
+			},
+		});
+	}
+
+	return result;
+}
+
+/**
+ * Returns a human-readable explanation (paths are relative to the current directory).
+ */
+export function formatDeclarationExplanation(explanation: DeclarationExplanation): string {
+	const lines = [`${explanation.name}${formatLocation(explanation.location)}`];
+
+	if (explanation.usageChain === null) {
+		lines.push('  is not used by any export of the entry');
+	} else {
+		lines.push(`  is used by export "${explanation.exportedName}" via:`);
+		explanation.usageChain.forEach((item: DeclarationUsageChainItem, index: number) => {
+			lines.push(`    ${index === 0 ? '' : '-> '}${item.name}${formatLocation(item.location)}`);
+		});
+	}
+
+	lines.push(`  module ${getRelativePath(explanation.module.fileName)} is ${explanation.module.type}: ${explanation.module.reason}`);
+
+	return lines.join('\n');
+}
+
+function findDeclarationsSymbols(name: string, sourceFiles: ReadonlyArray<ts.SourceFile>, typeChecker: ts.TypeChecker): ts.Symbol[] {
+	const result = new Set<ts.Symbol>();
+	for (const sourceFile of sourceFiles) {
+		for (const statement of sourceFile.statements) {
+			for (const declarationName of getStatementDeclarationNames(statement)) {
+				if (declarationName.text !== name) {
+					continue;
+				}
+
+				const symbol = getDeclarationNameSymbol(declarationName, typeChecker);
+				if (symbol !== null) {
+					result.add(symbol);
+				}
+			}
+		}
+	}
+
+	return Array.from(result);
+}
+
+function getSymbolFileName(symbol: ts.Symbol): string {
+	const declarations = getDeclarationsForSymbol(symbol);
+	if (declarations.length === 0) {
+		throw new Error(`Cannot find declarations of symbol ${symbol.getName()}`);
+	}
+
+	return declarations[0].getSourceFile().fileName;
+}
+
+function formatLocation(location: DiagnosticLocation | undefined): string {
+	return location !== undefined ? ` (${getRelativePath(location.fileName)}:${location.line}:${location.column})` : '';
+}
+
+function getRelativePath(fileName: string): string {
+	return fixPath(path.relative(process.cwd(), fileName));
+}
@@ -0,0 +1,124 @@
+import * as path from 'path';
+import * as ts from 'typescript';
+
+import { getAbsolutePath } from './helpers/get-absolute-path';
+
+/**
+ * File system which is used to read source files (as well as tsconfig and package.json files)
+ * and to write files (e.g. ones of the cache).
+ * `ts.sys` is used by default.
+ */
+export interface FileSystem {
+	/**
+	 * Whether names of files are case-sensitive.
+	 * If it isn't specified, the current system's setting is used.
+	 */
+	useCaseSensitiveFileNames?: boolean;
+
+	fileExists(fileName: string): boolean;
+	readFile(fileName: string): string | undefined;
+	writeFile(fileName: string, content: string): void;
+	directoryExists(directoryName: string): boolean;
+	getDirectories(directoryName: string): string[];
+
+	/**
+	 * Used to find files matching `include`/`exclude` patterns of tsconfig files.
+	 */
+	readDirectory(
+		rootDir: string,
+		extensions?: ReadonlyArray<string>,
+		excludes?: ReadonlyArray<string>,
+		includes?: ReadonlyArray<string>,
+		depth?: number
+	): string[];
+
+	realpath?(fileName: string): string;
+}
+
+export const systemFileSystem: FileSystem = ts.sys;
+
+export function isFileSystemCaseSensitive(fileSystem: FileSystem): boolean {
+	return fileSystem.useCaseSensitiveFileNames !== undefined ? fileSystem.useCaseSensitiveFileNames : ts.sys.useCaseSensitiveFileNames;
+}
+
+/**
+ * Creates a file system which contains the files (by their paths, relative ones are resolved against the current directory)
+ * in addition to files of the base file system.
+ * Written files are added to the in-memory files (i.e. the base file system isn't changed).
+ * Note that in-memory files aren't matched by `include` patterns of tsconfig files
+ * (which are not used for entries' compilation anyway).
+ */
+export function createInMemoryFileSystem(files: Record<string, string>, baseFileSystem: FileSystem = systemFileSystem): FileSystem {
+	const inMemoryFiles = new Map<string, string>();
+	const inMemoryDirectories = new Set<string>();
+
+	const addFile = (fileName: string, content: string) => {
+		const absolutePath = getAbsolutePath(fileName);
+		inMemoryFiles.set(absolutePath, content);
+
+		let directory = path.posix.dirname(absolutePath);
+		while (!inMemoryDirectories.has(directory)) {
+			inMemoryDirectories.add(directory);
+
+			const parentDirectory = path.posix.dirname(directory);
+			if (parentDirectory === directory) {
+				break;
+			}
+
+			directory = parentDirectory;
+		}
+	};
+
+	for (const fileName of Object.keys(files)) {
+		addFile(fileName, files[fileName]);
+	}
+
+	return {
+		fileExists: (fileName: string) => inMemoryFiles.has(getAbsolutePath(fileName)) || baseFileSystem.fileExists(fileName),
+		readFile: (fileName: string) => {
+			const content = inMemoryFiles.get(getAbsolutePath(fileName));
+			return content !== undefined ? content : baseFileSystem.readFile(fileName);
+		},
+		writeFile: addFile,
+		directoryExists: (directoryName: string) => inMemoryDirectories.has(getAbsolutePath(directoryName)) || baseFileSystem.directoryExists(directoryName),
+		getDirectories: (directoryName: string) => {
+			const absolutePath = getAbsolutePath(directoryName);
+			const result = new Set(baseFileSystem.directoryExists(directoryName) ? baseFileSystem.getDirectories(directoryName) : []);
+			inMemoryDirectories.forEach((directory: string) => {
+				if (directory !== absolutePath && path.posix.dirname(directory) === absolutePath) {
+					result.add(path.posix.basename(directory));
+				}
+			});
+
+			return Array.from(result);
+		},
+		readDirectory: baseFileSystem.readDirectory.bind(baseFileSystem),
+		realpath: (fileName: string) => {
+			if (inMemoryFiles.has(getAbsolutePath(fileName)) || baseFileSystem.realpath === undefined) {
+				return fileName;
+			}
+
+			return baseFileSystem.realpath(fileName);
+		},
+		useCaseSensitiveFileNames: isFileSystemCaseSensitive(baseFileSystem),
+	};
+}
+
+/**
+ * Creates a compiler host which reads files from the file system.
+ */
+export function createCompilerHost(compilerOptions: ts.CompilerOptions, fileSystem: FileSystem): ts.CompilerHost {
+	const host = ts.createCompilerHost(compilerOptions);
+	if (fileSystem === systemFileSystem) {
+		return host;
+	}
+
+	host.fileExists = (fileName: string) => fileSystem.fileExists(fileName);
+	host.readFile = (fileName: string) => fileSystem.readFile(fileName);
+	host.directoryExists = (directoryName: string) => fileSystem.directoryExists(directoryName);
+	host.getDirectories = (directoryName: string) => fileSystem.getDirectories(directoryName);
+	host.realpath = fileSystem.realpath !== undefined ? fileSystem.realpath.bind(fileSystem) : undefined;
+	host.useCaseSensitiveFileNames = () => isFileSystemCaseSensitive(fileSystem);
+
+	return host;
+}
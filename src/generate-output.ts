@@ -1,7 +1,8 @@
 import * as ts from 'typescript';
 
-import { hasNodeModifier } from './helpers/typescript';
+import { getBindingNameIdentifiers, hasNodeModifier } from './helpers/typescript';
 import { packageVersion } from './helpers/package-version';
+import { getNodeTextWithRenamedReferences } from './collisions-resolver';
 
 export interface ModuleImportsSet {
 	defaultImports: Set<string>;
@@ -14,14 +15,42 @@ export interface OutputParams extends OutputHelpers {
 	typesReferences: Set<string>;
 	imports: Map<string, ModuleImportsSet>;
 	statements: ReadonlyArray<ts.Statement>;
+	namespaces: ReadonlyArray<NamespaceDeclaration>;
 	renamedExports: string[];
 }
 
+/**
+ * A namespace which is synthesized from a module (e.g. for `export * as ns from './module'`).
+ */
+export interface NamespaceDeclaration {
+	name: string;
+	isExported: boolean;
+	/**
+	 * Export specifiers of the namespace members (e.g. `Name` or `LocalName as Name`).
+	 */
+	members: string[];
+}
+
 export interface OutputHelpers {
 	shouldStatementHasExportKeyword(statement: ts.Statement): boolean;
 	needStripDefaultKeywordForStatement(statement: ts.Statement): boolean;
 	needStripConstFromConstEnum(constEnum: ts.EnumDeclaration): boolean;
 	needStripImportFromImportTypeNode(importType: ts.ImportTypeNode): boolean;
+	/**
+	 * Returns a new name for a reference if it references a renamed declaration (e.g. to avoid names collisions)
+	 * or a module which is emitted as a namespace.
+	 */
+	getReferenceNewName(reference: ts.Identifier | ts.ImportTypeNode): string | null;
+	shouldVariableHasExportKeyword(variableName: ts.Identifier): boolean;
+	isVariableUsed(variableName: ts.Identifier): boolean;
+	/**
+	 * Returns whether a node (e.g. a class member) should be removed from the output due its release tag.
+	 */
+	isNodeTrimmed(node: ts.Node): boolean;
+	/**
+	 * Returns a statement which should be printed instead of the given statement of the output (or `null` to remove it).
+	 */
+	transformStatement?(statement: ts.Statement): ts.Statement | null;
 }
 
 export interface OutputOptions {
@@ -59,6 +88,7 @@ export function generateOutput(params: OutputParams, options: OutputOptions = {}
 	}
 
 	const statements = params.statements.map((statement: ts.Statement) => getStatementText(statement, params));
+	statements.push(...params.namespaces.map(getNamespaceText));
 
 	if (options.sortStatements) {
 		statements.sort(compareStatementText);
@@ -81,6 +111,41 @@ export function generateOutput(params: OutputParams, options: OutputOptions = {}
 	return resultOutput;
 }
 
+/**
+ * Generates an API report of the output, i.e. a listing of all declarations of the output
+ * without comments, sorted to be stable regardless of declarations order in the sources.
+ */
+export function generateApiReport(params: OutputParams): string {
+	const sections: string[] = [];
+
+	if (params.typesReferences.size !== 0) {
+		sections.push(generateReferenceTypesDirective(Array.from(params.typesReferences)));
+	}
+
+	const importsArray: string[] = [];
+	for (const libraryName of Array.from(params.imports.keys()).sort()) {
+		importsArray.push(...generateImports(libraryName, params.imports.get(libraryName) as ModuleImportsSet));
+	}
+
+	if (importsArray.length !== 0) {
+		sections.push(importsArray.join('\n'));
+	}
+
+	const statements = params.statements.map((statement: ts.Statement): StatementText => ({ text: getStatementText(statement, params).text }));
+	statements.push(...params.namespaces.map(getNamespaceText));
+	statements.sort(compareStatementText);
+
+	if (statements.length !== 0) {
+		sections.push(statementsTextToString(statements, params, true));
+	}
+
+	if (params.renamedExports.length !== 0) {
+		sections.push(`export {\n\t${params.renamedExports.slice().sort().join(',\n\t')},\n};`);
+	}
+
+	return `${sections.join('\n\n')}\n`;
+}
+
 interface StatementText {
 	leadingComment?: string;
 	text: string;
@@ -94,17 +159,21 @@ function statementTextToString(s: StatementText): string {
 	return `${s.leadingComment}\n${s.text}`;
 }
 
-function statementsTextToString(statements: StatementText[], helpers: OutputHelpers): string {
+function statementsTextToString(statements: StatementText[], helpers: OutputHelpers, removeComments: boolean = false): string {
 	const statementsText = statements.map(statementTextToString).join('\n');
-	return spacesToTabs(prettifyStatementsText(statementsText, helpers));
+	return spacesToTabs(prettifyStatementsText(statementsText, helpers, removeComments));
 }
 
-function prettifyStatementsText(statementsText: string, helpers: OutputHelpers): string {
-	const sourceFile = ts.createSourceFile('output.d.ts', statementsText, ts.ScriptTarget.Latest, false, ts.ScriptKind.TS);
+function prettifyStatementsText(statementsText: string, helpers: OutputHelpers, removeComments: boolean): string {
+	const sourceFile = transformSourceFileStatements(
+		ts.createSourceFile('output.d.ts', statementsText, ts.ScriptTarget.Latest, false, ts.ScriptKind.TS),
+		helpers
+	);
+
 	const printer = ts.createPrinter(
 		{
 			newLine: ts.NewLineKind.LineFeed,
-			removeComments: false,
+			removeComments,
 		},
 		{
 			substituteNode: (hint: ts.EmitHint, node: ts.Node) => {
@@ -130,6 +199,36 @@ function prettifyStatementsText(statementsText: string, helpers: OutputHelpers):
 	return printer.printFile(sourceFile).trim();
 }
 
+function transformSourceFileStatements(sourceFile: ts.SourceFile, helpers: OutputHelpers): ts.SourceFile {
+	const { transformStatement } = helpers;
+	if (transformStatement === undefined) {
+		return sourceFile;
+	}
+
+	// statements passed to transforms should have parents (e.g. to be able to get their text)
+	// but the printer prints nodes with parents in a different way (e.g. it keeps quotes of string literals)
+	// so unchanged statements are taken from the source file without parents to keep the output untouched
+	const sourceFileWithParents = ts.createSourceFile(sourceFile.fileName, sourceFile.text, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+
+	let hasChanges = false;
+	const statements: ts.Statement[] = [];
+
+	sourceFileWithParents.statements.forEach((statement: ts.Statement, index: number) => {
+		const newStatement = transformStatement(statement);
+		if (newStatement === statement) {
+			statements.push(sourceFile.statements[index]);
+			return;
+		}
+
+		hasChanges = true;
+		if (newStatement !== null) {
+			statements.push(newStatement);
+		}
+	});
+
+	return hasChanges ? ts.factory.updateSourceFile(sourceFile, statements) : sourceFile;
+}
+
 function compareStatementText(a: StatementText, b: StatementText): number {
 	if (a.text > b.text) {
 		return 1;
@@ -160,11 +259,16 @@ function needAddDeclareKeyword(statement: ts.Statement, nodeText: string): boole
 }
 
 function getStatementText(statement: ts.Statement, helpers: OutputHelpers): StatementText {
+	if (ts.isVariableStatement(statement) && needSplitVariableStatement(statement, helpers)) {
+		return getSplitVariableStatementText(statement, helpers);
+	}
+
 	const shouldStatementHasExportKeyword = helpers.shouldStatementHasExportKeyword(statement);
 	const needStripDefaultKeyword = helpers.needStripDefaultKeywordForStatement(statement);
 	const hasStatementExportKeyword = ts.isExportAssignment(statement) || hasNodeModifier(statement, ts.SyntaxKind.ExportKeyword);
 
-	let nodeText = getTextAccordingExport(statement.getText(), hasStatementExportKeyword, shouldStatementHasExportKeyword);
+	const statementText = getNodeTextWithRenamedReferences(statement, helpers.getReferenceNewName, helpers.isNodeTrimmed);
+	let nodeText = getTextAccordingExport(statementText, hasStatementExportKeyword, shouldStatementHasExportKeyword);
 
 	if (
 		ts.isEnumDeclaration(statement)
@@ -190,17 +294,161 @@ function getStatementText(statement: ts.Statement, helpers: OutputHelpers): Stat
 
 	// add jsdoc for exported nodes only
 	if (shouldStatementHasExportKeyword) {
-		const start = statement.getStart();
-		const jsDocStart = statement.getStart(undefined, true);
-		const nodeJSDoc = statement.getSourceFile().getFullText().substring(jsDocStart, start).trim();
-		if (nodeJSDoc.length !== 0) {
-			result.leadingComment = nodeJSDoc;
+		result.leadingComment = getNodeJSDoc(statement);
+	}
+
+	return result;
+}
+
+function getNodeJSDoc(node: ts.Node): string | undefined {
+	const start = node.getStart();
+	const jsDocStart = node.getStart(undefined, true);
+	const nodeJSDoc = node.getSourceFile().getFullText().substring(jsDocStart, start).trim();
+	return nodeJSDoc.length !== 0 ? nodeJSDoc : undefined;
+}
+
+function hasBindingPattern(declaration: ts.VariableDeclaration): boolean {
+	return !ts.isIdentifier(declaration.name);
+}
+
+/**
+ * Returns whether declarations of the statement should be emitted as separate statements,
+ * e.g. if they have different export statuses (`declare const a: A, b: B;` where only `a` is exported)
+ * or some of them aren't used at all.
+ */
+function needSplitVariableStatement(statement: ts.VariableStatement, helpers: OutputHelpers): boolean {
+	const declarations = statement.declarationList.declarations;
+	if (declarations.some(hasBindingPattern)) {
+		return true;
+	}
+
+	if (declarations.length === 1) {
+		return false;
+	}
+
+	const names = declarations.map((declaration: ts.VariableDeclaration) => declaration.name as ts.Identifier);
+	if (!names.every(helpers.isVariableUsed)) {
+		return true;
+	}
+
+	const isFirstNameExported = helpers.shouldVariableHasExportKeyword(names[0]);
+	return names.some((name: ts.Identifier) => helpers.shouldVariableHasExportKeyword(name) !== isFirstNameExported);
+}
+
+/**
+ * Every variable declaration (as well as every name from a binding pattern, e.g. `export declare const { a, b }: Type;`)
+ * might have its own export status so such statements are split into separate statements (one per name),
+ * e.g. `export declare const a: A;` or `export declare const { a }: Type;`.
+ */
+function getSplitVariableStatementText(statement: ts.VariableStatement, helpers: OutputHelpers): StatementText {
+	const keyword = getVariableKeyword(statement.declarationList);
+	const lines: string[] = [];
+	let hasExportedNames = false;
+
+	const addLine = (isExported: boolean, declarationText: string) => {
+		hasExportedNames = hasExportedNames || isExported;
+		lines.push(`${isExported ? 'export ' : ''}declare ${keyword} ${declarationText};`);
+	};
+
+	for (const declaration of statement.declarationList.declarations) {
+		const names = getBindingNameIdentifiers(declaration.name).filter(helpers.isVariableUsed);
+		if (names.length === 0) {
+			continue;
+		}
+
+		if (ts.isIdentifier(declaration.name) || !canBindingPatternBeSplit(declaration)) {
+			// there is no way to split a pattern without a type (or with an object rest) without changing types so let's keep it as is
+			addLine(names.some(helpers.shouldVariableHasExportKeyword), getNodeTextWithRenamedReferences(declaration, helpers.getReferenceNewName, helpers.isNodeTrimmed));
+			continue;
+		}
+
+		const typeText = getNodeTextWithRenamedReferences(declaration.type as ts.TypeNode, helpers.getReferenceNewName, helpers.isNodeTrimmed);
+		for (const name of names) {
+			addLine(helpers.shouldVariableHasExportKeyword(name), `${getBindingPatternTextForName(name, helpers)}: ${typeText}`);
+		}
+	}
+
+	return {
+		leadingComment: hasExportedNames ? getNodeJSDoc(statement) : undefined,
+		text: lines.join('\n'),
+	};
+}
+
+function getVariableKeyword(declarationList: ts.VariableDeclarationList): string {
+	if (declarationList.flags & ts.NodeFlags.Const) {
+		return 'const';
+	}
+
+	if (declarationList.flags & ts.NodeFlags.Let) {
+		return 'let';
+	}
+
+	return 'var';
+}
+
+function canBindingPatternBeSplit(declaration: ts.VariableDeclaration): boolean {
+	if (declaration.type === undefined) {
+		return false;
+	}
+
+	// the type of an object rest element depends on other elements of the pattern
+	const hasObjectRestElement = (pattern: ts.BindingPattern): boolean => {
+		return (pattern.elements as ts.NodeArray<ts.ArrayBindingElement>).some((element: ts.ArrayBindingElement) => {
+			if (!ts.isBindingElement(element)) {
+				return false;
+			}
+
+			if (ts.isObjectBindingPattern(pattern) && element.dotDotDotToken !== undefined) {
+				return true;
+			}
+
+			return !ts.isIdentifier(element.name) && hasObjectRestElement(element.name);
+		});
+	};
+
+	return !hasObjectRestElement(declaration.name as ts.BindingPattern);
+}
+
+/**
+ * Returns text of a binding pattern which declares the given name only,
+ * e.g. for `c` from `{ a, b: [c] }` it returns `{ b: [c] }`.
+ */
+function getBindingPatternTextForName(name: ts.Identifier, helpers: OutputHelpers): string {
+	const newName = helpers.getReferenceNewName(name);
+	let result = newName !== null ? newName : name.text;
+	let node: ts.Node = name;
+
+	while (ts.isBindingElement(node.parent)) {
+		const element = node.parent;
+		const pattern = element.parent;
+
+		if (ts.isObjectBindingPattern(pattern)) {
+			// if the name is renamed we need to keep the original property name
+			const propertyName = element.propertyName !== undefined ? element.propertyName.getText() : (result !== name.text ? name.text : undefined);
+			result = `{ ${propertyName !== undefined ? `${propertyName}: ` : ''}${result} }`;
+		} else {
+			const elementIndex = pattern.elements.indexOf(element);
+			const elementText = element.dotDotDotToken !== undefined ? `...${result}` : result;
+
+			// skipped elements are kept as omitted expressions to keep the element's position
+			result = `[${', '.repeat(elementIndex)}${elementText}]`;
 		}
+
+		node = pattern;
 	}
 
 	return result;
 }
 
+function getNamespaceText(namespace: NamespaceDeclaration): StatementText {
+	const exportKeyword = namespace.isExported ? 'export ' : '';
+	const members = namespace.members.length !== 0 ? `\n\texport { ${namespace.members.sort().join(', ')} };\n` : '\n';
+
+	return {
+		text: `${exportKeyword}declare namespace ${namespace.name} {${members}}`,
+	};
+}
+
 function generateImports(libraryName: string, imports: ModuleImportsSet): string[] {
 	const fromEnding = `from '${libraryName}';`;
 
@@ -3,34 +3,75 @@ import * as path from 'path';
 
 import { getAbsolutePath } from './helpers/get-absolute-path';
 import { fixPath } from './helpers/fix-path';
-import { checkDiagnosticsErrors } from './helpers/check-diagnostics-errors';
+import { checkDiagnosticsErrors, DiagnosticsPolicy } from './helpers/check-diagnostics-errors';
 import { verboseLog } from './logger';
+import { isFileSystemCaseSensitive, systemFileSystem, FileSystem } from './file-system';
 
 const enum Constants {
 	NoInputsWereFoundDiagnosticCode = 18003,
 }
 
-const parseConfigHost: ts.ParseConfigHost = {
-	useCaseSensitiveFileNames: ts.sys.useCaseSensitiveFileNames,
-	readDirectory: ts.sys.readDirectory,
-	fileExists: ts.sys.fileExists,
-	readFile: ts.sys.readFile,
-};
+export function getCompilerOptions(
+	inputFileNames: ReadonlyArray<string>,
+	preferredConfigPath?: string,
+	diagnosticsPolicy?: DiagnosticsPolicy
+): ts.CompilerOptions {
+	return parseConfigFile(getConfigFileName(inputFileNames, preferredConfigPath), systemFileSystem, diagnosticsPolicy).options;
+}
 
-export function getCompilerOptions(inputFileNames: ReadonlyArray<string>, preferredConfigPath?: string): ts.CompilerOptions {
-	const configFileName = preferredConfigPath !== undefined ? preferredConfigPath : findConfig(inputFileNames);
+export function getConfigFileName(
+	inputFileNames: ReadonlyArray<string>,
+	preferredConfigPath?: string,
+	fileSystem: FileSystem = systemFileSystem
+): string {
+	const configFileName = preferredConfigPath !== undefined ? preferredConfigPath : findConfig(inputFileNames, fileSystem);
 
 	verboseLog(`Using config: ${configFileName}`);
 
-	const configParseResult = ts.readConfigFile(configFileName, ts.sys.readFile);
-	checkDiagnosticsErrors(configParseResult.error !== undefined ? [configParseResult.error] : [], 'Error while processing tsconfig file');
+	return configFileName;
+}
+
+export interface ParsedConfigFile extends ts.ParsedCommandLine {
+	/**
+	 * Names of config files which the config extends (recursively).
+	 */
+	extendedConfigFiles: string[];
+}
+
+/**
+ * Returns parsed config (compiler options, project references, etc).
+ * `errors` of the result are diagnostics of the config checked according to the policy.
+ */
+export function parseConfigFile(
+	configFileName: string,
+	fileSystem: FileSystem = systemFileSystem,
+	diagnosticsPolicy: DiagnosticsPolicy = {}
+): ParsedConfigFile {
+	const parseConfigHost: ts.ParseConfigHost = {
+		useCaseSensitiveFileNames: isFileSystemCaseSensitive(fileSystem),
+		readDirectory: fileSystem.readDirectory.bind(fileSystem),
+		fileExists: (fileName: string) => fileSystem.fileExists(fileName),
+		readFile: (fileName: string) => fileSystem.readFile(fileName),
+	};
+
+	const configParseResult = ts.readConfigFile(configFileName, parseConfigHost.readFile);
+	const configDiagnostics = checkDiagnosticsErrors(
+		configParseResult.error !== undefined ? [configParseResult.error] : [],
+		'Error while processing tsconfig file',
+		diagnosticsPolicy
+	);
 
+	// the compiler adds every extended config to the cache so it is used to get them
+	const extendedConfigCache = new Map<string, ts.ExtendedConfigCacheEntry>();
 	const compilerOptionsParseResult = ts.parseJsonConfigFileContent(
 		configParseResult.config,
 		parseConfigHost,
 		path.resolve(path.dirname(configFileName)),
 		undefined,
-		getAbsolutePath(configFileName)
+		getAbsolutePath(configFileName),
+		undefined,
+		undefined,
+		extendedConfigCache
 	);
 
 	// we don't want to raise an error if no inputs found in a config file
@@ -38,19 +79,25 @@ export function getCompilerOptions(inputFileNames: ReadonlyArray<string>, prefer
 	const diagnostics = compilerOptionsParseResult.errors
 		.filter((d: ts.Diagnostic) => d.code !== Constants.NoInputsWereFoundDiagnosticCode);
 
-	checkDiagnosticsErrors(diagnostics, 'Error while processing tsconfig compiler options');
+	compilerOptionsParseResult.errors = [
+		...configDiagnostics,
+		...checkDiagnosticsErrors(diagnostics, 'Error while processing tsconfig compiler options', diagnosticsPolicy),
+	];
 
-	return compilerOptionsParseResult.options;
+	return {
+		...compilerOptionsParseResult,
+		extendedConfigFiles: Array.from(extendedConfigCache.values()).map((entry: ts.ExtendedConfigCacheEntry) => entry.extendedResult.fileName),
+	};
 }
 
-function findConfig(inputFiles: ReadonlyArray<string>): string {
+function findConfig(inputFiles: ReadonlyArray<string>, fileSystem: FileSystem): string {
 	if (inputFiles.length !== 1) {
 		throw new Error('Cannot find tsconfig for multiple files. Please specify preferred tsconfig file');
 	}
 
 	const searchPath = fixPath(inputFiles[0]);
 
-	const configFileName = ts.findConfigFile(searchPath, ts.sys.fileExists);
+	const configFileName = ts.findConfigFile(searchPath, (fileName: string) => fileSystem.fileExists(fileName));
 
 	if (!configFileName) {
 		throw new Error(`Cannot find config file for file ${searchPath}`);
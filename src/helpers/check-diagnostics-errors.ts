@@ -1,5 +1,6 @@
 import * as ts from 'typescript';
-import { errorLog } from '../logger';
+import { errorLog, warnLog } from '../logger';
+import { getAbsolutePath } from './get-absolute-path';
 
 const formatDiagnosticsHost: ts.FormatDiagnosticsHost = {
 	getCanonicalFileName: (fileName: string) => ts.sys.useCaseSensitiveFileNames ? fileName : fileName.toLowerCase(),
@@ -7,16 +8,174 @@ const formatDiagnosticsHost: ts.FormatDiagnosticsHost = {
 	getNewLine: () => ts.sys.newLine,
 };
 
-export function checkProgramDiagnosticsErrors(program: ts.Program): void {
-	checkDiagnosticsErrors(ts.getPreEmitDiagnostics(program), 'Compiled with errors');
-	checkDiagnosticsErrors(program.getDeclarationDiagnostics(), 'Compiled with errors');
+/**
+ * Diagnostic of the compilation in a serializable form.
+ */
+export interface BundleDiagnostic {
+	category: 'error' | 'warning' | 'suggestion' | 'message';
+	code: number;
+	message: string;
+
+	/**
+	 * Location of the diagnostic if it belongs to a file.
+	 */
+	location?: DiagnosticLocation;
+}
+
+/**
+ * Location in a file (line and column are one-based).
+ */
+export interface DiagnosticLocation {
+	fileName: string;
+	line: number;
+	column: number;
+}
+
+/**
+ * Defines how diagnostics of the compilation (of tsconfig files, of emitting declarations and of the program) are handled.
+ */
+export interface DiagnosticsPolicy {
+	/**
+	 * What to do if the compilation has errors:
+	 * - `fail` - log them and throw an error
+	 * - `warn` - log them as warnings and continue generating
+	 * Diagnostics of other categories are always logged as warnings.
+	 * Default value is `fail` (errors were logged only before), use `warn` to generate outputs in spite of errors.
+	 */
+	errors?: 'fail' | 'warn';
+
+	/**
+	 * Codes of diagnostics which are ignored (they are neither logged nor returned), e.g. `2307` for `TS2307`.
+	 */
+	ignoreCodes?: number[];
+
+	/**
+	 * Paths of files or folders diagnostics in which are ignored.
+	 * Relative paths are resolved against the current directory.
+	 */
+	ignoreFiles?: string[];
+}
+
+/**
+ * Returns checked diagnostics (i.e. except ignored ones).
+ * If `isFileChecked` is specified, only files which it returns `true` for are type-checked.
+ */
+export function checkProgramDiagnosticsErrors(
+	program: ts.Program,
+	policy: DiagnosticsPolicy = {},
+	isFileChecked?: (sourceFile: ts.SourceFile) => boolean
+): ts.Diagnostic[] {
+	if (isFileChecked === undefined) {
+		return [
+			...checkDiagnosticsErrors(ts.getPreEmitDiagnostics(program), 'Compiled with errors', policy),
+			...checkDiagnosticsErrors(program.getDeclarationDiagnostics(), 'Compiled with errors', policy),
+		];
+	}
+
+	const diagnostics = [
+		...program.getConfigFileParsingDiagnostics(),
+		...program.getOptionsDiagnostics(),
+	];
+
+	for (const sourceFile of program.getSourceFiles().filter(isFileChecked)) {
+		diagnostics.push(...getSourceFileDiagnostics(program, sourceFile));
+	}
+
+	// global diagnostics are collected while checking files so they must be requested after them
+	diagnostics.push(...program.getGlobalDiagnostics());
+
+	return checkDiagnosticsErrors(diagnostics, 'Compiled with errors', policy);
 }
 
-export function checkDiagnosticsErrors(diagnostics: ReadonlyArray<ts.Diagnostic>, failMessage: string): void {
-	if (diagnostics.length === 0) {
-		return;
+/**
+ * Returns syntactic, semantic and declaration diagnostics of the file.
+ */
+export function getSourceFileDiagnostics(program: ts.Program, sourceFile: ts.SourceFile): ts.Diagnostic[] {
+	return [
+		...program.getSyntacticDiagnostics(sourceFile),
+		...program.getSemanticDiagnostics(sourceFile),
+		...program.getDeclarationDiagnostics(sourceFile),
+	];
+}
+
+/**
+ * Returns checked diagnostics (i.e. except ignored ones).
+ */
+export function checkDiagnosticsErrors(diagnostics: ReadonlyArray<ts.Diagnostic>, failMessage: string, policy: DiagnosticsPolicy = {}): ts.Diagnostic[] {
+	const errorsPolicy = policy.errors !== undefined ? policy.errors : 'fail';
+	if (errorsPolicy !== 'fail' && errorsPolicy !== 'warn') {
+		throw new Error(`Unknown diagnostics errors policy "${errorsPolicy}", expected "fail" or "warn"`);
+	}
+
+	const checkedDiagnostics = diagnostics.filter((diagnostic: ts.Diagnostic) => !isDiagnosticIgnored(diagnostic, policy));
+	if (checkedDiagnostics.length === 0) {
+		return [];
+	}
+
+	const formattedDiagnostics = ts.formatDiagnostics(checkedDiagnostics, formatDiagnosticsHost).trim();
+	const hasErrors = checkedDiagnostics.some((diagnostic: ts.Diagnostic) => diagnostic.category === ts.DiagnosticCategory.Error);
+	const logDetails = { code: 'compiler-diagnostics', diagnostics: checkedDiagnostics.map(getBundleDiagnostic) };
+	if (hasErrors && errorsPolicy === 'fail') {
+		errorLog(formattedDiagnostics, logDetails);
+		throw new Error(failMessage);
+	}
+
+	warnLog(formattedDiagnostics, logDetails);
+	return checkedDiagnostics;
+}
+
+export function getBundleDiagnostic(diagnostic: ts.Diagnostic): BundleDiagnostic {
+	const result: BundleDiagnostic = {
+		category: getDiagnosticCategoryName(diagnostic.category),
+		code: diagnostic.code,
+		message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+	};
+
+	if (diagnostic.file !== undefined && diagnostic.start !== undefined) {
+		result.location = getFileLocation(diagnostic.file, diagnostic.start);
+	}
+
+	return result;
+}
+
+export function getNodeLocation(node: ts.Node): DiagnosticLocation {
+	return getFileLocation(node.getSourceFile(), node.getStart());
+}
+
+function getFileLocation(file: ts.SourceFile, position: number): DiagnosticLocation {
+	const { line, character } = file.getLineAndCharacterOfPosition(position);
+	return {
+		fileName: file.fileName,
+		line: line + 1,
+		column: character + 1,
+	};
+}
+
+function getDiagnosticCategoryName(category: ts.DiagnosticCategory): BundleDiagnostic['category'] {
+	switch (category) {
+		case ts.DiagnosticCategory.Error:
+			return 'error';
+		case ts.DiagnosticCategory.Warning:
+			return 'warning';
+		case ts.DiagnosticCategory.Suggestion:
+			return 'suggestion';
+		case ts.DiagnosticCategory.Message:
+			return 'message';
+	}
+}
+
+function isDiagnosticIgnored(diagnostic: ts.Diagnostic, policy: DiagnosticsPolicy): boolean {
+	if (policy.ignoreCodes !== undefined && policy.ignoreCodes.indexOf(diagnostic.code) !== -1) {
+		return true;
+	}
+
+	if (policy.ignoreFiles === undefined || diagnostic.file === undefined) {
+		return false;
 	}
 
-	errorLog(ts.formatDiagnostics(diagnostics, formatDiagnosticsHost).trim());
-	//throw new Error(failMessage);
+	const fileName = getAbsolutePath(diagnostic.file.fileName);
+	return policy.ignoreFiles.some((ignoredPath: string) => {
+		const absoluteIgnoredPath = getAbsolutePath(ignoredPath);
+		return fileName === absoluteIgnoredPath || fileName.indexOf(`${absoluteIgnoredPath.replace(/\/$/, '')}/`) === 0;
+	});
 }
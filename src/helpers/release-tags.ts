@@ -0,0 +1,69 @@
+import * as ts from 'typescript';
+
+/**
+ * Release tags in order of their "maturity" (from the most stable to the least one).
+ */
+export type ReleaseTag = 'public' | 'beta' | 'alpha' | 'internal';
+
+const releaseTags: ReadonlyArray<ReleaseTag> = ['public', 'beta', 'alpha', 'internal'];
+
+export function isReleaseTag(value: string): value is ReleaseTag {
+	return releaseTags.indexOf(value as ReleaseTag) !== -1;
+}
+
+/**
+ * Returns a release tag which the node is marked with via JSDoc (e.g. `@beta`) or `null` if there is no such tag.
+ */
+export function getNodeReleaseTag(node: ts.Node): ReleaseTag | null {
+	for (const tag of ts.getJSDocTags(node)) {
+		const tagName = tag.tagName.text;
+		if (isReleaseTag(tagName)) {
+			return tagName;
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Returns whether the node should be removed from the output of the given release level,
+ * e.g. `@alpha` declarations (or class/interface members) are removed from `public` and `beta` outputs.
+ * Nodes without release tags are treated as having the same release tag as their containers have (i.e. aren't removed).
+ */
+export function isNodeTrimmed(node: ts.Node, releaseLevel: ReleaseTag): boolean {
+	if (!canNodeBeTrimmed(node)) {
+		return false;
+	}
+
+	const releaseTag = getNodeReleaseTag(node);
+	return releaseTag !== null && releaseTags.indexOf(releaseTag) > releaseTags.indexOf(releaseLevel);
+}
+
+function canNodeBeTrimmed(node: ts.Node): boolean {
+	const parent = node.parent;
+	// source files don't have parents
+	// tslint:disable-next-line:strict-type-predicates
+	if (parent === undefined) {
+		return false;
+	}
+
+	// top-level statements or statements of namespaces
+	if (ts.isSourceFile(parent) || ts.isModuleBlock(parent)) {
+		return true;
+	}
+
+	// JSDoc of a variable declaration is JSDoc of its variable statement
+	if (ts.isVariableDeclaration(node)) {
+		return true;
+	}
+
+	if (ts.isClassDeclaration(parent)) {
+		return ts.isClassElement(node);
+	}
+
+	if (ts.isInterfaceDeclaration(parent)) {
+		return ts.isTypeElement(node);
+	}
+
+	return false;
+}
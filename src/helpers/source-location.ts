@@ -0,0 +1,33 @@
+import * as ts from 'typescript';
+
+import { getNodeLocation, DiagnosticLocation } from './check-diagnostics-errors';
+import { getAbsolutePath } from './get-absolute-path';
+import { getOriginalPositionGetter, FilePosition, RawSourceMap } from './source-map';
+
+type OriginalPositionGetter = (line: number, character: number) => FilePosition | null;
+
+/**
+ * Returns a function which returns a location of a node in its source file,
+ * i.e. locations in the program's declaration files are mapped to their sources via declaration maps (if there are ones).
+ */
+export function createSourceLocationGetter(declarationMaps: Map<string, RawSourceMap>): (node: ts.Node) => DiagnosticLocation {
+	const positionGetters = new Map<string, OriginalPositionGetter | null>();
+
+	return (node: ts.Node) => {
+		const location = getNodeLocation(node);
+
+		const fileName = getAbsolutePath(location.fileName);
+		let getter = positionGetters.get(fileName);
+		if (getter === undefined) {
+			const declarationMap = declarationMaps.get(fileName);
+			getter = declarationMap !== undefined ? getOriginalPositionGetter(declarationMap, `${fileName}.map`) : null;
+			positionGetters.set(fileName, getter);
+		}
+
+		// locations are one-based while positions of source maps are zero-based
+		const originalPosition = getter !== null ? getter(location.line - 1, location.column - 1) : null;
+		return originalPosition !== null
+			? { fileName: originalPosition.fileName, line: originalPosition.line + 1, column: originalPosition.character + 1 }
+			: location;
+	};
+}
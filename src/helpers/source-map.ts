@@ -0,0 +1,175 @@
+import * as path from 'path';
+
+import { fixPath } from './fix-path';
+
+/**
+ * Source map in the format of https://sourcemaps.info/spec.html (version 3).
+ */
+export interface RawSourceMap {
+	version: number;
+	file: string;
+	sourceRoot?: string;
+	sources: string[];
+	names: string[];
+	mappings: string;
+}
+
+/**
+ * Zero-based position in a file.
+ */
+export interface FilePosition {
+	fileName: string;
+	line: number;
+	character: number;
+}
+
+export interface SourceMapSegment {
+	generatedCharacter: number;
+	source: FilePosition;
+}
+
+const base64Chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * Returns a function which returns a position in a source file of the map
+ * which the given position of the generated file is mapped to (or `null` if the position isn't mapped).
+ * Source file names are resolved relatively to the map's file.
+ */
+export function getOriginalPositionGetter(map: RawSourceMap, mapFileName: string): (line: number, character: number) => FilePosition | null {
+	const sources = map.sources.map((source: string) => path.resolve(path.dirname(mapFileName), map.sourceRoot || '', source));
+
+	// segments' values are relative to the previous segment (generated character - within a line only)
+	// so the whole mappings have to be decoded sequentially
+	const state = [0, 0, 0, 0];
+	const linesSegments = map.mappings.split(';').map((lineMappings: string) => {
+		state[0] = 0;
+
+		const segments: SourceMapSegment[] = [];
+		for (const segment of lineMappings.split(',')) {
+			if (segment.length === 0) {
+				continue;
+			}
+
+			const values = decodeVlq(segment);
+			for (let i = 0; i < values.length && i < state.length; ++i) {
+				state[i] += values[i];
+			}
+
+			if (values.length >= 4) {
+				segments.push({
+					generatedCharacter: state[0],
+					source: { fileName: sources[state[1]], line: state[2], character: state[3] },
+				});
+			}
+		}
+
+		return segments;
+	});
+
+	return (line: number, character: number) => {
+		const segments = linesSegments[line] as SourceMapSegment[] | undefined;
+		if (segments === undefined) {
+			return null;
+		}
+
+		let result: FilePosition | null = null;
+		for (const segment of segments) {
+			if (segment.generatedCharacter > character) {
+				break;
+			}
+
+			result = segment.source;
+		}
+
+		return result;
+	};
+}
+
+/**
+ * Creates a source map from the segments of every line of the generated file.
+ * Paths of source files are kept as is.
+ */
+export function createSourceMap(linesSegments: ReadonlyArray<ReadonlyArray<SourceMapSegment>>): RawSourceMap {
+	const sources: string[] = [];
+	const state = [0, 0, 0, 0];
+
+	const mappings = linesSegments.map((lineSegments: ReadonlyArray<SourceMapSegment>) => {
+		state[0] = 0;
+		return lineSegments.map((segment: SourceMapSegment) => {
+			let sourceIndex = sources.indexOf(segment.source.fileName);
+			if (sourceIndex === -1) {
+				sourceIndex = sources.push(segment.source.fileName) - 1;
+			}
+
+			const values = [segment.generatedCharacter, sourceIndex, segment.source.line, segment.source.character];
+			const result = values.map((value: number, index: number) => encodeVlq(value - state[index])).join('');
+			values.forEach((value: number, index: number) => {
+				state[index] = value;
+			});
+
+			return result;
+		}).join(',');
+	}).join(';');
+
+	return {
+		version: 3,
+		file: '',
+		sources,
+		names: [],
+		mappings,
+	};
+}
+
+/**
+ * Returns a copy of the map to be written to the given file, i.e. with the file name and paths of sources relative to the map.
+ */
+export function relocateSourceMap(map: RawSourceMap, generatedFileName: string): RawSourceMap {
+	const mapDir = path.dirname(generatedFileName);
+	return {
+		...map,
+		file: path.basename(generatedFileName),
+		sources: map.sources.map((source: string) => fixPath(path.relative(mapDir, source))),
+	};
+}
+
+function encodeVlq(value: number): string {
+	let vlq = value < 0 ? ((-value) << 1) + 1 : value << 1;
+	let result = '';
+
+	do {
+		let digit = vlq & 31;
+		vlq >>>= 5;
+		if (vlq > 0) {
+			digit |= 32;
+		}
+
+		result += base64Chars[digit];
+	} while (vlq > 0);
+
+	return result;
+}
+
+function decodeVlq(segment: string): number[] {
+	const result: number[] = [];
+	let value = 0;
+	let shift = 0;
+
+	for (const char of segment) {
+		const digit = base64Chars.indexOf(char);
+		if (digit === -1) {
+			throw new Error(`Invalid character "${char}" in source map mappings`);
+		}
+
+		value += (digit & 31) << shift;
+		if (digit & 32) {
+			shift += 5;
+			continue;
+		}
+
+		result.push(value & 1 ? -(value >>> 1) : value >>> 1);
+		value = 0;
+		shift = 0;
+	}
+
+	return result;
+}
@@ -143,6 +143,67 @@ export function getDeclarationsForSymbol(symbol: ts.Symbol): ts.Declaration[] {
 	return result;
 }
 
+/**
+ * Returns source file of the module if the symbol is a symbol of an external module (i.e. a symbol of the whole file), otherwise returns `null`.
+ * Such symbols are used by `import * as ns from './module'`, `export * as ns from './module'` or `typeof import('./module')`.
+ */
+export function getModuleSymbolSourceFile(symbol: ts.Symbol): ts.SourceFile | null {
+	if ((symbol.flags & ts.SymbolFlags.ValueModule) === 0) {
+		return null;
+	}
+
+	const sourceFile = getDeclarationsForSymbol(symbol).find(ts.isSourceFile);
+	return sourceFile !== undefined ? sourceFile : null;
+}
+
+/**
+ * Returns names of top-level declarations which are declared by the statement.
+ */
+export function getStatementDeclarationNames(statement: ts.Statement): ts.Identifier[] {
+	if (ts.isVariableStatement(statement)) {
+		return statement.declarationList.declarations
+			.map((declaration: ts.VariableDeclaration) => getBindingNameIdentifiers(declaration.name))
+			.reduce((acc: ts.Identifier[], val: ts.Identifier[]) => acc.concat(val), []);
+	}
+
+	if (isAmbientModule(statement)) {
+		return [];
+	}
+
+	if (
+		ts.isInterfaceDeclaration(statement)
+		|| ts.isTypeAliasDeclaration(statement)
+		|| ts.isClassDeclaration(statement)
+		|| ts.isEnumDeclaration(statement)
+		|| ts.isFunctionDeclaration(statement)
+		|| ts.isModuleDeclaration(statement)
+	) {
+		const name = statement.name;
+		return name !== undefined && ts.isIdentifier(name) ? [name] : [];
+	}
+
+	return [];
+}
+
+/**
+ * Returns all identifiers declared by a binding name,
+ * i.e. the name itself if it is an identifier or every identifier from a binding pattern (e.g. `const { a, b: [c] } = obj;`).
+ */
+export function getBindingNameIdentifiers(name: ts.BindingName): ts.Identifier[] {
+	if (ts.isIdentifier(name)) {
+		return [name];
+	}
+
+	const result: ts.Identifier[] = [];
+	for (const element of name.elements as ts.NodeArray<ts.ArrayBindingElement>) {
+		if (ts.isBindingElement(element)) {
+			result.push(...getBindingNameIdentifiers(element.name));
+		}
+	}
+
+	return result;
+}
+
 export function isDeclarationFromExternalModule(node: ts.Declaration): boolean {
 	return getLibraryName(node.getSourceFile().fileName) !== null;
 }
@@ -238,28 +299,11 @@ export function getExportsForStatement(
 	statement: ts.Statement
 ): SourceFileExport[] {
 	if (ts.isVariableStatement(statement)) {
-		if (statement.declarationList.declarations.length === 0) {
-			return [];
-		}
-
-		const firstDeclarationExports = getExportsForName(
-			exportedSymbols,
-			typeChecker,
-			statement.declarationList.declarations[0].name
-		);
-
-		const allDeclarationsHaveSameExportType = statement.declarationList.declarations.every((variableDecl: ts.VariableDeclaration) => {
-			// all declaration should have the same export type
-			// TODO: for now it's not supported to have different type of exports
-			return getExportsForName(exportedSymbols, typeChecker, variableDecl.name)[0] === firstDeclarationExports[0];
-		});
-
-		if (!allDeclarationsHaveSameExportType) {
-			// log warn?
-			return [];
-		}
-
-		return firstDeclarationExports;
+		// declarations might have different exports
+		// (such statements are split by declarations in the output)
+		return statement.declarationList.declarations
+			.map((variableDecl: ts.VariableDeclaration) => getExportsForName(exportedSymbols, typeChecker, variableDecl.name))
+			.reduce((acc: SourceFileExport[], val: SourceFileExport[]) => acc.concat(val), []);
 	}
 
 	return getExportsForName(exportedSymbols, typeChecker, (statement as unknown as ts.NamedDeclaration).name);
@@ -275,9 +319,11 @@ function getExportsForName(
 	}
 
 	if (ts.isArrayBindingPattern(name) || ts.isObjectBindingPattern(name)) {
-		// TODO: binding patterns in variable declarations are not supported for now
+		// every name of a binding pattern is a separate declaration which might be exported
 		// see https://github.com/microsoft/TypeScript/issues/30598 also
-		return [];
+		return getBindingNameIdentifiers(name)
+			.map((identifier: ts.Identifier) => getExportsForName(exportedSymbols, typeChecker, identifier))
+			.reduce((acc: SourceFileExport[], val: SourceFileExport[]) => acc.concat(val), []);
 	}
 
 	const declarationSymbol = typeChecker.getSymbolAtLocation(name);
@@ -1,54 +1,234 @@
-const enum LogLevel {
-	Verbose,
-	Normal,
-	Warning,
-	Error,
+import { BundleDiagnostic, DiagnosticLocation } from './helpers/check-diagnostics-errors';
+
+export type LogLevel = 'verbose' | 'normal' | 'warning' | 'error';
+
+export interface LogMessage {
+	level: LogLevel;
+	message: string;
+
+	/**
+	 * Stable identifier of the kind of the message (e.g. `unsupported-import-expression`) if it has one.
+	 * Unlike texts of messages codes aren't changed between versions, so they can be used to filter messages.
+	 */
+	code?: string;
+
+	/**
+	 * Path of the input file of the entry which the message relates to (if it relates to a specific entry).
+	 */
+	entryFilePath?: string;
+
+	/**
+	 * Location in a file which the message relates to (if any).
+	 */
+	location?: DiagnosticLocation;
+
+	/**
+	 * Compiler diagnostics which the message reports (the message is their formatted text).
+	 */
+	diagnostics?: BundleDiagnostic[];
 }
 
-export function verboseLog(message: string): void {
-	logMessage(message, LogLevel.Verbose);
+/**
+ * Optional details of a logged message.
+ */
+export type LogMessageDetails = Pick<LogMessage, 'code' | 'location' | 'diagnostics'>;
+
+/**
+ * Receives all messages logged by the generator (filtering them by their levels is up to the logger).
+ */
+export interface Logger {
+	log(message: LogMessage): void;
 }
 
-export function normalLog(message: string): void {
-	logMessage(message, LogLevel.Normal);
+export interface ConsoleLoggerOptions {
+	/**
+	 * Messages of lower levels are ignored.
+	 * Default value is `normal`.
+	 */
+	level?: LogLevel;
+
+	/**
+	 * Whether errors and warnings should be colored via ANSI escape codes.
+	 * By default they are colored only if stdout is a TTY.
+	 */
+	colors?: boolean;
 }
 
-export function warnLog(message: string): void {
-	logMessage(message, LogLevel.Warning);
+export interface JsonLinesLoggerOptions {
+	/**
+	 * Messages of lower levels are ignored.
+	 * Default value is `normal`.
+	 */
+	level?: LogLevel;
+
+	/**
+	 * Writes a line (without a line break at the end) of the log.
+	 * By default lines are written to stdout.
+	 */
+	write?(line: string): void;
 }
 
-export function errorLog(message: string): void {
-	logMessage(message, LogLevel.Error);
+const logLevelsOrder: LogLevel[] = ['verbose', 'normal', 'warning', 'error'];
+
+/**
+ * Creates a logger which prints messages to the console (errors and warnings are printed to stderr).
+ */
+export function createConsoleLogger(options: ConsoleLoggerOptions = {}): Logger {
+	const minLevel = options.level !== undefined ? options.level : 'normal';
+	const colors = options.colors !== undefined ? options.colors : Boolean(process.stdout.isTTY);
+
+	return {
+		log: (logMessage: LogMessage) => {
+			if (!isLevelEnabled(logMessage.level, minLevel)) {
+				return;
+			}
+
+			const { message } = logMessage;
+
+			switch (logMessage.level) {
+				case 'error':
+					// print red
+					console.error(colors ? `\x1b[0;31m${message}\x1b[0m` : message);
+					break;
+
+				case 'warning':
+					console.warn(colors ? `\x1b[1;33m${message}\x1b[0m` : message);
+					break;
+
+				case 'normal':
+				case 'verbose':
+					console.log(message);
+			}
+		},
+	};
 }
 
-let currentLogLevel = LogLevel.Error;
+/**
+ * Creates a logger which writes every message as a JSON object in a separate line,
+ * e.g. `{"time":"2021-07-01T10:00:00.000Z","level":"warning","message":"...","code":"...","entryFilePath":"..."}`.
+ */
+export function createJsonLinesLogger(options: JsonLinesLoggerOptions = {}): Logger {
+	const minLevel = options.level !== undefined ? options.level : 'normal';
+	const write = options.write !== undefined
+		? options.write.bind(options)
+		: (line: string) => process.stdout.write(`${line}\n`);
+
+	return {
+		log: (logMessage: LogMessage) => {
+			if (!isLevelEnabled(logMessage.level, minLevel)) {
+				return;
+			}
+
+			write(JSON.stringify({
+				time: new Date().toISOString(),
+				...logMessage,
+			}));
+		},
+	};
+}
 
-export function enableVerbose(): void {
-	currentLogLevel = LogLevel.Verbose;
-	normalLog('Verbose log enabled');
+export function verboseLog(message: string, details?: LogMessageDetails): void {
+	logMessage('verbose', message, details);
 }
 
-export function enableNormalLog(): void {
-	currentLogLevel = LogLevel.Normal;
+export function normalLog(message: string, details?: LogMessageDetails): void {
+	logMessage('normal', message, details);
 }
 
-function logMessage(message: string, level: LogLevel = LogLevel.Verbose): void {
-	if (level < currentLogLevel) {
-		return;
+export function warnLog(message: string, details?: LogMessageDetails): void {
+	logMessage('warning', message, details);
+}
+
+export function errorLog(message: string, details?: LogMessageDetails): void {
+	logMessage('error', message, details);
+}
+
+/**
+ * Logs warnings which were logged before (e.g. ones stored in the cache along with an output) one more time.
+ */
+export function logWarningsAgain(warnings: ReadonlyArray<LogMessage>): void {
+	for (const warning of warnings) {
+		logMessageToCurrentLogger(warning);
 	}
+}
 
-	switch (level) {
-		case LogLevel.Error:
-			// print red
-			console.error(`\x1b[0;31m${message}\x1b[0m`);
-			break;
+export interface LogContext {
+	/**
+	 * Warnings logged in the context are added to the array (they are logged as usual as well).
+	 * Warnings of nested contexts are added to the innermost context's array only.
+	 */
+	warnings: LogMessage[];
+
+	/**
+	 * Path of the input file of the entry which messages logged in the context relate to.
+	 */
+	entryFilePath?: string;
+}
+
+// by default only errors are logged (the CLI changes the level according to its options)
+let defaultLogger = createConsoleLogger({ level: 'error' });
+
+const loggers: Logger[] = [];
+const logContexts: LogContext[] = [];
+
+/**
+ * Sets the logger which is used unless another one is provided via compilation options.
+ */
+export function setDefaultLogger(logger: Logger): void {
+	defaultLogger = logger;
+}
+
+/**
+ * Calls the callback and logs messages logged while it is running via the logger (if it is provided).
+ */
+export function withLogger<T>(logger: Logger | undefined, callback: () => T): T {
+	if (logger === undefined) {
+		return callback();
+	}
+
+	loggers.push(logger);
+	try {
+		return callback();
+	} finally {
+		loggers.pop();
+	}
+}
+
+/**
+ * Calls the callback and logs messages logged while it is running in the context.
+ */
+export function withLogContext<T>(context: LogContext, callback: () => T): T {
+	logContexts.push(context);
+	try {
+		return callback();
+	} finally {
+		logContexts.pop();
+	}
+}
+
+function isLevelEnabled(level: LogLevel, minLevel: LogLevel): boolean {
+	return logLevelsOrder.indexOf(level) >= logLevelsOrder.indexOf(minLevel);
+}
 
-		case LogLevel.Warning:
-			console.warn(`\x1b[1;33m${message}\x1b[0m`);
+function logMessage(level: LogLevel, message: string, details: LogMessageDetails = {}): void {
+	const result: LogMessage = { level, message, ...details };
+
+	for (let i = logContexts.length - 1; i >= 0; --i) {
+		const { entryFilePath } = logContexts[i];
+		if (entryFilePath !== undefined) {
+			result.entryFilePath = entryFilePath;
 			break;
+		}
+	}
 
-		case LogLevel.Normal:
-		case LogLevel.Verbose:
-			console.log(message);
+	logMessageToCurrentLogger(result);
+}
+
+function logMessageToCurrentLogger(message: LogMessage): void {
+	if (message.level === 'warning' && logContexts.length !== 0) {
+		logContexts[logContexts.length - 1].warnings.push(message);
 	}
+
+	const logger = loggers.length !== 0 ? loggers[loggers.length - 1] : defaultLogger;
+	logger.log(message);
 }
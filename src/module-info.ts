@@ -6,6 +6,7 @@ import {
 } from './helpers/node-modules';
 
 import { fixPath } from './helpers/fix-path';
+import { findReferencedProject, ReferencedProject } from './project-references';
 
 export const enum ModuleType {
 	ShouldBeInlined,
@@ -17,6 +18,11 @@ export const enum ModuleType {
 export interface UsedModuleInfoCommon {
 	fileName: string;
 	isExternal: boolean;
+
+	/**
+	 * Human-readable explanation why the module has its type (e.g. which library it belongs to and which option matches it).
+	 */
+	reason: string;
 }
 
 export interface InlinedModuleInfo extends UsedModuleInfoCommon {
@@ -41,23 +47,53 @@ export interface UsedForModulesModuleInfo extends UsedModuleInfoCommon {
 
 export type ModuleInfo = InlinedModuleInfo | ImportedModuleInfo | ReferencedModuleInfo | UsedForModulesModuleInfo;
 
+/**
+ * Name of a module type which is used in reports (e.g. in explanations of declarations).
+ */
+export type ModuleTypeName = 'inlined' | 'imported' | 'referenced' | 'used-for-modules-only';
+
 export interface ModuleCriteria {
 	inlinedLibraries: string[];
 	importedLibraries: string[] | undefined;
 	allowedTypesLibraries: string[] | undefined;
 	typeRoots?: string[];
+	referencedProjects?: ReadonlyArray<ReferencedProject>;
 }
 
 export function getModuleInfo(fileName: string, criteria: ModuleCriteria): ModuleInfo {
 	return getModuleInfoImpl(fileName, fileName, criteria);
 }
 
+export function getModuleTypeName(type: ModuleType): ModuleTypeName {
+	switch (type) {
+		case ModuleType.ShouldBeInlined:
+			return 'inlined';
+		case ModuleType.ShouldBeImported:
+			return 'imported';
+		case ModuleType.ShouldBeReferencedAsTypes:
+			return 'referenced';
+		case ModuleType.ShouldBeUsedForModulesOnly:
+			return 'used-for-modules-only';
+	}
+}
+
 /**
  * @param currentFilePath Current file path - can be used to override actual path of module (e.g. with `typeRoots`)
  * @param originalFileName Original file name of the module
  * @param criteria Criteria of module info
  */
 function getModuleInfoImpl(currentFilePath: string, originalFileName: string, criteria: ModuleCriteria): ModuleInfo {
+	if (criteria.referencedProjects !== undefined) {
+		// a referenced project which is a package is treated as a library
+		// otherwise it is treated as local files
+		const referencedProject = findReferencedProject(currentFilePath, criteria.referencedProjects);
+		if (referencedProject !== null && referencedProject.packageName !== null) {
+			const moduleInfo = getLibraryModuleInfo(referencedProject.packageName, null, originalFileName, criteria);
+			moduleInfo.reason = `the file belongs to referenced project ${referencedProject.configPath} of package "${referencedProject.packageName}", ${moduleInfo.reason}`;
+			return moduleInfo;
+		}
+	}
+
 	const npmLibraryName = getLibraryName(currentFilePath);
 	if (npmLibraryName === null) {
 		if (criteria.typeRoots !== undefined) {
@@ -66,28 +102,60 @@ function getModuleInfoImpl(currentFilePath: string, originalFileName: string, cr
 				if (!relativePath.startsWith('../')) {
 					// relativePath is path relative to type root
 					// so we should treat it as "library from node_modules/@types/"
-					return getModuleInfoImpl(remapToTypesFromNodeModules(relativePath), originalFileName, criteria);
+					const moduleInfo = getModuleInfoImpl(remapToTypesFromNodeModules(relativePath), originalFileName, criteria);
+					moduleInfo.reason = `the file is located in type root ${root}, ${moduleInfo.reason}`;
+					return moduleInfo;
 				}
 			}
 		}
 
-		return { type: ModuleType.ShouldBeInlined, fileName: originalFileName, isExternal: false };
+		return { type: ModuleType.ShouldBeInlined, fileName: originalFileName, isExternal: false, reason: 'the file is a local file (it is not a part of any library)' };
 	}
 
-	const typesLibraryName = getTypesLibraryName(currentFilePath);
+	return getLibraryModuleInfo(npmLibraryName, getTypesLibraryName(currentFilePath), originalFileName, criteria);
+}
+
+function getLibraryModuleInfo(npmLibraryName: string, typesLibraryName: string | null, originalFileName: string, criteria: ModuleCriteria): ModuleInfo {
+	const libraryName = typesLibraryName !== null ? `@types/${typesLibraryName}` : npmLibraryName;
+
 	if (shouldLibraryBeInlined(npmLibraryName, typesLibraryName, criteria.inlinedLibraries)) {
-		return { type: ModuleType.ShouldBeInlined, fileName: originalFileName, isExternal: true };
+		return {
+			type: ModuleType.ShouldBeInlined,
+			fileName: originalFileName,
+			isExternal: true,
+			reason: `library "${libraryName}" is listed in inlined libraries`,
+		};
 	}
 
 	if (shouldLibraryBeImported(npmLibraryName, typesLibraryName, criteria.importedLibraries)) {
-		return { type: ModuleType.ShouldBeImported, fileName: originalFileName, isExternal: true };
+		return {
+			type: ModuleType.ShouldBeImported,
+			fileName: originalFileName,
+			isExternal: true,
+			reason: criteria.importedLibraries === undefined
+				? `library "${libraryName}" is imported because imported libraries aren't specified (i.e. all libraries are imported)`
+				: `library "${libraryName}" is listed in imported libraries`,
+		};
 	}
 
 	if (typesLibraryName !== null && isLibraryAllowed(typesLibraryName, criteria.allowedTypesLibraries)) {
-		return { type: ModuleType.ShouldBeReferencedAsTypes, fileName: originalFileName, typesLibraryName, isExternal: true };
+		return {
+			type: ModuleType.ShouldBeReferencedAsTypes,
+			fileName: originalFileName,
+			typesLibraryName,
+			isExternal: true,
+			reason: criteria.allowedTypesLibraries === undefined
+				? `library "${libraryName}" is referenced because allowed types libraries aren't specified (i.e. all types libraries are referenced)`
+				: `library "${libraryName}" is listed in allowed types libraries`,
+		};
 	}
 
-	return { type: ModuleType.ShouldBeUsedForModulesOnly, fileName: originalFileName, isExternal: true };
+	return {
+		type: ModuleType.ShouldBeUsedForModulesOnly,
+		fileName: originalFileName,
+		isExternal: true,
+		reason: `library "${libraryName}" is neither inlined, imported nor referenced according to libraries options`,
+	};
 }
 
 function shouldLibraryBeInlined(npmLibraryName: string, typesLibraryName: string | null, inlinedLibraries: string[]): boolean {
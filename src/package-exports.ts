@@ -0,0 +1,180 @@
+import * as path from 'path';
+import * as ts from 'typescript';
+
+import { getConfigFileName, parseConfigFile } from './get-compiler-options';
+import { getAbsolutePath } from './helpers/get-absolute-path';
+import { getDeclarationOutputsToSources } from './project-references';
+import { verboseLog, warnLog } from './logger';
+
+export interface PackageExportEntry {
+	/**
+	 * Subpath of the package's exports, e.g. `.` or `./testing`.
+	 */
+	subpath: string;
+
+	/**
+	 * Module specifier which is used to import the subpath, e.g. `my-package/testing`.
+	 */
+	importPath: string;
+
+	/**
+	 * Absolute path to the source file of the subpath.
+	 */
+	filePath: string;
+
+	/**
+	 * Absolute path to the declaration file of the subpath.
+	 */
+	outFile: string;
+
+	/**
+	 * Path to tsconfig which the source file of the subpath belongs to.
+	 */
+	configPath: string;
+}
+
+// the order matters - `types` is preferred over others
+const supportedConditions = ['types', 'import', 'default', 'require'];
+
+/**
+ * Returns entries for every subpath of the package.json's `exports` field.
+ * @param packageJsonPath Path to package.json file.
+ * @param preferredConfigPath Path to tsconfig which is used to map declaration files back to their sources.
+ * By default the nearest tsconfig to package.json is used.
+ */
+export function getPackageExportsEntries(packageJsonPath: string, preferredConfigPath?: string): PackageExportEntry[] {
+	const packageJsonContent = ts.sys.readFile(packageJsonPath);
+	if (packageJsonContent === undefined) {
+		throw new Error(`Cannot read package.json ${packageJsonPath}`);
+	}
+
+	const packageJson = JSON.parse(packageJsonContent);
+	if (typeof packageJson.name !== 'string') {
+		throw new Error(`Package name is not specified in ${packageJsonPath}`);
+	}
+
+	if (packageJson.exports === undefined) {
+		throw new Error(`Package exports are not specified in ${packageJsonPath}`);
+	}
+
+	const packageDir = path.dirname(getAbsolutePath(packageJsonPath));
+	const configFileName = getConfigFileName([packageJsonPath], preferredConfigPath);
+	const parsedConfig = parseConfigFile(configFileName);
+
+	// declaration files are needed to find sources of subpaths' targets even if they aren't emitted by the project
+	const outputsToSources = getDeclarationOutputsToSources({
+		...parsedConfig,
+		options: { ...parsedConfig.options, declaration: true },
+	});
+
+	const result: PackageExportEntry[] = [];
+
+	for (const [subpath, exportValue] of getSubpathsExports(packageJson.exports)) {
+		if (subpath.includes('*')) {
+			warnLog(`Subpath patterns aren't supported, "${subpath}" export is skipped`, { code: 'unsupported-subpath-pattern' });
+			continue;
+		}
+
+		const target = getExportTarget(exportValue);
+		if (target === null) {
+			verboseLog(`Subpath "${subpath}" has no supported targets and is skipped`);
+			continue;
+		}
+
+		const outFile = getAbsolutePath(changeExtensionToDts(target), packageDir);
+		const filePath = outputsToSources.get(outFile);
+		if (filePath === undefined) {
+			throw new Error(`Cannot find source file for "${subpath}" export (${outFile}) in ${configFileName}`);
+		}
+
+		verboseLog(`Package export "${subpath}": ${filePath} -> ${outFile}`);
+
+		result.push({
+			subpath,
+			importPath: subpath === '.' ? packageJson.name : `${packageJson.name}/${subpath.slice(2)}`,
+			filePath,
+			outFile,
+			configPath: getAbsolutePath(configFileName),
+		});
+	}
+
+	return result;
+}
+
+function getSubpathsExports(exportsField: unknown): [string, unknown][] {
+	// `"exports": "./index.js"` or `"exports": ["./index.js"]` or `"exports": { "import": "./index.js" }`
+	if (typeof exportsField !== 'object' || exportsField === null || Array.isArray(exportsField)) {
+		return [['.', exportsField]];
+	}
+
+	const subpathsExports = exportsField as Record<string, unknown>;
+	if (!Object.keys(subpathsExports).some(isSubpath)) {
+		return [['.', exportsField]];
+	}
+
+	return Object.keys(subpathsExports)
+		.filter(isSubpath)
+		.map((subpath: string): [string, unknown] => [subpath, subpathsExports[subpath]]);
+}
+
+function isSubpath(key: string): boolean {
+	return key === '.' || key.startsWith('./');
+}
+
+function getExportTarget(exportValue: unknown): string | null {
+	if (typeof exportValue === 'string') {
+		return isTargetSupported(exportValue) ? exportValue : null;
+	}
+
+	if (Array.isArray(exportValue)) {
+		for (const fallback of exportValue) {
+			const target = getExportTarget(fallback);
+			if (target !== null) {
+				return target;
+			}
+		}
+
+		return null;
+	}
+
+	if (typeof exportValue === 'object' && exportValue !== null) {
+		return getConditionsTarget(exportValue as Record<string, unknown>);
+	}
+
+	return null;
+}
+
+function getConditionsTarget(conditions: Record<string, unknown>): string | null {
+	for (const condition of supportedConditions) {
+		if (conditions[condition] === undefined) {
+			continue;
+		}
+
+		const target = getExportTarget(conditions[condition]);
+		if (target !== null) {
+			return target;
+		}
+	}
+
+	// nested conditions, e.g. `{ "node": { "import": "./index.js" } }`
+	for (const condition of Object.keys(conditions)) {
+		if (supportedConditions.indexOf(condition) !== -1) {
+			continue;
+		}
+
+		const target = getExportTarget(conditions[condition]);
+		if (target !== null) {
+			return target;
+		}
+	}
+
+	return null;
+}
+
+function isTargetSupported(target: string): boolean {
+	return /\.(d\.ts|m?js|cjs)$/.test(target);
+}
+
+function changeExtensionToDts(fileName: string): string {
+	return fileName.endsWith('.d.ts') ? fileName : fileName.replace(/\.(m|c)?js$/, '.d.ts');
+}
@@ -0,0 +1,77 @@
+import * as ts from 'typescript';
+
+export interface PluginContext {
+	/**
+	 * Path to the entry's input file or `null` for the common chunk.
+	 */
+	entryFilePath: string | null;
+
+	/**
+	 * Type checker of the program which the bundle is generated from.
+	 * Note that it can be used for statements passed to `onStatementCollected` only
+	 * (statements passed to `transformStatement` are parsed from the output and don't belong to the program).
+	 */
+	typeChecker: ts.TypeChecker;
+}
+
+/**
+ * Plugins are applied in the order they are specified (plugins from `CompilationOptions` are applied before entry's plugins).
+ */
+export interface BundlerPlugin {
+	/**
+	 * Name of the plugin (used in logs).
+	 */
+	name: string;
+
+	/**
+	 * Called for every statement of the program which is emitted into the bundle.
+	 */
+	onStatementCollected?(statement: ts.Statement, context: PluginContext): void;
+
+	/**
+	 * Allows to replace a statement of the output with another one (e.g. created via `ts.factory`)
+	 * or to remove it by returning `null`.
+	 * The statement is parsed from the output, i.e. it already has all renames and modifiers applied.
+	 * Return the statement itself to leave it as is.
+	 */
+	transformStatement?(statement: ts.Statement, context: PluginContext): ts.Statement | null;
+
+	/**
+	 * Allows to change the final text of the output.
+	 */
+	transformOutput?(output: string, context: PluginContext): string;
+}
+
+/**
+ * Returns a function which applies `transformStatement` hooks of the plugins or `undefined` if there are no such hooks.
+ */
+export function getPluginsStatementTransformer(
+	plugins: ReadonlyArray<BundlerPlugin>,
+	context: PluginContext
+): ((statement: ts.Statement) => ts.Statement | null) | undefined {
+	if (plugins.every((plugin: BundlerPlugin) => plugin.transformStatement === undefined)) {
+		return undefined;
+	}
+
+	return (statement: ts.Statement) => {
+		let result: ts.Statement | null = statement;
+		for (const plugin of plugins) {
+			if (result === null) {
+				break;
+			}
+
+			if (plugin.transformStatement !== undefined) {
+				result = plugin.transformStatement(result, context);
+			}
+		}
+
+		return result;
+	};
+}
+
+export function applyPluginsOutputTransforms(plugins: ReadonlyArray<BundlerPlugin>, output: string, context: PluginContext): string {
+	return plugins.reduce(
+		(result: string, plugin: BundlerPlugin) => plugin.transformOutput !== undefined ? plugin.transformOutput(result, context) : result,
+		output
+	);
+}
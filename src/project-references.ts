@@ -0,0 +1,260 @@
+import * as path from 'path';
+import * as ts from 'typescript';
+
+import { parseConfigFile } from './get-compiler-options';
+import { getAbsolutePath } from './helpers/get-absolute-path';
+import { fixPath } from './helpers/fix-path';
+import { DiagnosticsPolicy } from './helpers/check-diagnostics-errors';
+import { verboseLog } from './logger';
+import { isFileSystemCaseSensitive, systemFileSystem, FileSystem } from './file-system';
+
+export interface ReferencedProject {
+	/**
+	 * Absolute path to the project's tsconfig file.
+	 */
+	configPath: string;
+
+	/**
+	 * Absolute path to the folder of the project's tsconfig file.
+	 */
+	projectDir: string;
+
+	/**
+	 * Name of the package which the project belongs to (from the nearest package.json file).
+	 * It is used to treat the project as a library (e.g. to import or inline it according to `LibrariesOptions`).
+	 * `null` if the project isn't a part of any package (in this case it is treated as local files).
+	 */
+	packageName: string | null;
+
+	/**
+	 * Absolute path to the folder of the project's package.json file.
+	 */
+	packageDir: string | null;
+
+	/**
+	 * Absolute path to the declaration file which is specified in package.json as `types` or `typings`.
+	 */
+	packageTypesPath: string | null;
+
+	/**
+	 * Map of absolute paths of declaration files which are built from the project's source files (outputs) to their source files.
+	 */
+	outputsToSources: Map<string, string>;
+}
+
+/**
+ * Returns all projects referenced by a project (including references of referenced projects).
+ * @param projectReferences References of the root project.
+ * @param rootConfigPath Path to the root project's tsconfig file.
+ */
+export function getReferencedProjects(
+	projectReferences: ReadonlyArray<ts.ProjectReference> | undefined,
+	rootConfigPath: string,
+	fileSystem: FileSystem = systemFileSystem,
+	diagnosticsPolicy: DiagnosticsPolicy = {}
+): ReferencedProject[] {
+	const rootProjectDir = path.dirname(getAbsolutePath(rootConfigPath));
+	const result: ReferencedProject[] = [];
+	const visitedConfigs = new Set<string>([getAbsolutePath(rootConfigPath)]);
+
+	const visitReferences = (references: ReadonlyArray<ts.ProjectReference> | undefined) => {
+		if (references === undefined) {
+			return;
+		}
+
+		for (const reference of references) {
+			const configPath = getAbsolutePath(ts.resolveProjectReferencePath(reference));
+			if (visitedConfigs.has(configPath)) {
+				continue;
+			}
+
+			visitedConfigs.add(configPath);
+
+			if (!fileSystem.fileExists(configPath)) {
+				throw new Error(`Cannot find referenced project's config ${configPath}`);
+			}
+
+			verboseLog(`Processing referenced project: ${configPath}`);
+
+			const parsedConfig = parseConfigFile(configPath, fileSystem, diagnosticsPolicy);
+			result.push(createReferencedProject(configPath, parsedConfig, rootProjectDir, fileSystem));
+
+			visitReferences(parsedConfig.projectReferences);
+		}
+	};
+
+	visitReferences(projectReferences);
+
+	return result;
+}
+
+/**
+ * Returns referenced project which the file belongs to.
+ */
+export function findReferencedProject(fileName: string, referencedProjects: ReadonlyArray<ReferencedProject>): ReferencedProject | null {
+	const absoluteFileName = getAbsolutePath(fileName);
+
+	// the longest (i.e. the most nested) project dir wins
+	let result: ReferencedProject | null = null;
+	for (const project of referencedProjects) {
+		if (!isPathInsideDir(absoluteFileName, project.projectDir)) {
+			continue;
+		}
+
+		if (result === null || result.projectDir.length < project.projectDir.length) {
+			result = project;
+		}
+	}
+
+	return result;
+}
+
+/**
+ * Returns absolute path to the source file of the referenced project if the file is its output,
+ * or path to the source file of the project's package entry if the module name is the package's name.
+ */
+export function getReferencedProjectSourceFile(
+	fileName: string | undefined,
+	moduleName: string,
+	referencedProjects: ReadonlyArray<ReferencedProject>
+): string | null {
+	for (const project of referencedProjects) {
+		if (fileName !== undefined) {
+			const sourceFile = project.outputsToSources.get(getAbsolutePath(fileName));
+			if (sourceFile !== undefined) {
+				return sourceFile;
+			}
+		}
+
+		// the module might be unresolved by the compiler if the project isn't built yet
+		// (or resolved to a path which isn't the project's real path, e.g. when symlinks aren't followed)
+		// so let's resolve an import of the package to the source file of the package's types entry
+		if (project.packageName === moduleName && project.packageTypesPath !== null) {
+			const sourceFile = project.outputsToSources.get(project.packageTypesPath);
+			if (sourceFile !== undefined) {
+				return sourceFile;
+			}
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Returns a module specifier which should be used to import a module of the referenced project from outside of the project
+ * (i.e. the package's name or a path inside the package to the built declaration file).
+ * @param moduleFileName Path to the module's source file (probably without extension).
+ */
+export function getReferencedProjectModuleSpecifier(moduleFileName: string, project: ReferencedProject): string | null {
+	if (project.packageName === null || project.packageDir === null) {
+		return null;
+	}
+
+	const moduleFilePath = removeExtension(getAbsolutePath(moduleFileName));
+
+	for (const [outputFile, sourceFile] of Array.from(project.outputsToSources.entries())) {
+		const sourceFilePath = removeExtension(sourceFile);
+		if (sourceFilePath !== moduleFilePath && sourceFilePath !== `${moduleFilePath}/index`) {
+			continue;
+		}
+
+		if (outputFile === project.packageTypesPath) {
+			return project.packageName;
+		}
+
+		return `${project.packageName}/${fixPath(path.relative(project.packageDir, removeExtension(outputFile)))}`;
+	}
+
+	return null;
+}
+
+/**
+ * Returns map of absolute paths of declaration files which are built from the project's source files to these source files.
+ */
+export function getDeclarationOutputsToSources(parsedConfig: ts.ParsedCommandLine, fileSystem: FileSystem = systemFileSystem): Map<string, string> {
+	const result = new Map<string, string>();
+
+	for (const sourceFile of parsedConfig.fileNames) {
+		if (sourceFile.endsWith('.d.ts')) {
+			continue;
+		}
+
+		const outputFiles = ts.getOutputFileNames(parsedConfig, sourceFile, !isFileSystemCaseSensitive(fileSystem));
+		for (const outputFile of outputFiles) {
+			if (outputFile.endsWith('.d.ts')) {
+				result.set(getAbsolutePath(outputFile), getAbsolutePath(sourceFile));
+			}
+		}
+	}
+
+	return result;
+}
+
+function removeExtension(fileName: string): string {
+	const match = /\.(d\.ts|tsx?)$/.exec(fileName);
+	return match !== null ? fileName.slice(0, -match[0].length) : fileName;
+}
+
+function createReferencedProject(
+	configPath: string,
+	parsedConfig: ts.ParsedCommandLine,
+	rootProjectDir: string,
+	fileSystem: FileSystem
+): ReferencedProject {
+	const projectDir = path.dirname(configPath);
+	const outputsToSources = getDeclarationOutputsToSources(parsedConfig, fileSystem);
+
+	const packageJsonPath = findPackageJson(projectDir, rootProjectDir, fileSystem);
+	let packageName: string | null = null;
+	let packageDir: string | null = null;
+	let packageTypesPath: string | null = null;
+
+	if (packageJsonPath !== null) {
+		const packageJson = JSON.parse(fileSystem.readFile(packageJsonPath) || '{}');
+		packageName = typeof packageJson.name === 'string' ? packageJson.name : null;
+		packageDir = getAbsolutePath(path.dirname(packageJsonPath));
+
+		const packageTypes = packageJson.types || packageJson.typings;
+		if (typeof packageTypes === 'string') {
+			packageTypesPath = getAbsolutePath(packageTypes, packageDir);
+		}
+	}
+
+	return {
+		configPath,
+		projectDir: getAbsolutePath(projectDir),
+		packageName,
+		packageDir,
+		packageTypesPath,
+		outputsToSources,
+	};
+}
+
+/**
+ * Finds the nearest package.json for a project.
+ * Note that a package.json which contains the root project as well is ignored
+ * because in this case the referenced project is a part of the same package.
+ */
+function findPackageJson(projectDir: string, rootProjectDir: string, fileSystem: FileSystem): string | null {
+	let currentDir = projectDir;
+	while (!isPathInsideDir(rootProjectDir, currentDir)) {
+		const packageJsonPath = path.join(currentDir, 'package.json');
+		if (fileSystem.fileExists(packageJsonPath)) {
+			return packageJsonPath;
+		}
+
+		const parentDir = path.dirname(currentDir);
+		if (parentDir === currentDir) {
+			break;
+		}
+
+		currentDir = parentDir;
+	}
+
+	return null;
+}
+
+function isPathInsideDir(filePath: string, dir: string): boolean {
+	const relativePath = path.relative(dir, filePath);
+	return !relativePath.startsWith('..') && !path.isAbsolute(relativePath);
+}
@@ -1,6 +1,8 @@
 import * as ts from 'typescript';
 import {
 	getActualSymbol,
+	getBindingNameIdentifiers,
+	getModuleSymbolSourceFile,
 	isNamedTupleMember,
 	isNodeNamedDeclaration,
 	isRelativeDeclareModule,
@@ -13,20 +15,101 @@ export type NodesParents = Map<ts.Symbol, Set<ts.Symbol>>;
 export class TypesUsageEvaluator {
 	private readonly typeChecker: ts.TypeChecker;
 	private readonly nodesParentsMap: NodesParents = new Map<ts.Symbol, Set<ts.Symbol>>();
+	private readonly isNodeIgnored: (node: ts.Node) => boolean;
 
-	public constructor(files: ts.SourceFile[], typeChecker: ts.TypeChecker) {
+	/**
+	 * @param isNodeIgnored Returns whether usages from the node (and its children) shouldn't be counted (e.g. if the node isn't emitted).
+	 */
+	public constructor(files: ts.SourceFile[], typeChecker: ts.TypeChecker, isNodeIgnored: (node: ts.Node) => boolean = () => false) {
 		this.typeChecker = typeChecker;
+		this.isNodeIgnored = isNodeIgnored;
 		this.computeUsages(files);
 	}
 
-	public isSymbolUsedBySymbol(symbol: ts.Symbol, by: ts.Symbol): boolean {
-		return this.isSymbolUsedBySymbolImpl(this.getActualSymbol(symbol), this.getActualSymbol(by), new Set<ts.Symbol>());
+	/**
+	 * @param ignoredSymbols Symbols usages through which aren't counted (e.g. declarations which are imported rather than emitted).
+	 */
+	public isSymbolUsedBySymbol(symbol: ts.Symbol, by: ts.Symbol, ignoredSymbols?: ReadonlySet<ts.Symbol>): boolean {
+		// ignored symbols are marked as visited to skip them while traversing
+		const visitedSymbols = new Set<ts.Symbol>(ignoredSymbols !== undefined ? Array.from(ignoredSymbols) : []);
+		return this.isSymbolUsedBySymbolImpl(this.getActualSymbol(symbol), this.getActualSymbol(by), visitedSymbols);
 	}
 
 	public getSymbolsUsingSymbol(symbol: ts.Symbol): Set<ts.Symbol> | null {
 		return this.nodesParentsMap.get(this.getActualSymbol(symbol)) || null;
 	}
 
+	/**
+	 * Returns the shortest chain of usages from any of `by` symbols to the symbol (both are included),
+	 * e.g. `[Export, Options, Symbol]` if `Export` uses `Options` which uses `Symbol`, or `null` if none of them uses the symbol.
+	 */
+	public getShortestUsageChain(symbol: ts.Symbol, by: ReadonlyArray<ts.Symbol>): ts.Symbol[] | null {
+		const targetSymbols = new Set(by.map((bySymbol: ts.Symbol) => this.getActualSymbol(bySymbol)));
+
+		// breadth-first search from the symbol through symbols which use it
+		// every visited symbol refers to the symbol which is used by it (i.e. the next one in the chain)
+		const actualSymbol = this.getActualSymbol(symbol);
+		const nextSymbols = new Map<ts.Symbol, ts.Symbol | null>([[actualSymbol, null]]);
+		const queue = [actualSymbol];
+		for (const currentSymbol of queue) {
+			if (targetSymbols.has(currentSymbol)) {
+				const result: ts.Symbol[] = [];
+				for (let chainSymbol: ts.Symbol | null = currentSymbol; chainSymbol !== null; chainSymbol = nextSymbols.get(chainSymbol) as ts.Symbol | null) {
+					result.push(chainSymbol);
+				}
+
+				return result;
+			}
+
+			const parents = this.nodesParentsMap.get(currentSymbol);
+			if (parents === undefined) {
+				continue;
+			}
+
+			parents.forEach((parent: ts.Symbol) => {
+				if (!nextSymbols.has(parent)) {
+					nextSymbols.set(parent, currentSymbol);
+					queue.push(parent);
+				}
+			});
+		}
+
+		return null;
+	}
+
+	/**
+	 * Returns symbols which are reachable from the roots (including the roots) along with symbols which every of them uses directly.
+	 */
+	public getUsageGraph(roots: ReadonlyArray<ts.Symbol>): Map<ts.Symbol, Set<ts.Symbol>> {
+		// the map refers to symbols which use a symbol so it has to be inverted to traverse symbols from the roots
+		const usedSymbolsMap = new Map<ts.Symbol, Set<ts.Symbol>>();
+		this.nodesParentsMap.forEach((parents: Set<ts.Symbol>, childSymbol: ts.Symbol) => {
+			parents.forEach((parent: ts.Symbol) => {
+				let usedSymbols = usedSymbolsMap.get(parent);
+				if (usedSymbols === undefined) {
+					usedSymbols = new Set<ts.Symbol>();
+					usedSymbolsMap.set(parent, usedSymbols);
+				}
+
+				usedSymbols.add(childSymbol);
+			});
+		});
+
+		const result = new Map<ts.Symbol, Set<ts.Symbol>>();
+		const queue = roots.map((root: ts.Symbol) => this.getActualSymbol(root));
+		for (const symbol of queue) {
+			if (result.has(symbol)) {
+				continue;
+			}
+
+			const usedSymbols = usedSymbolsMap.get(symbol) || new Set<ts.Symbol>();
+			result.set(symbol, usedSymbols);
+			usedSymbols.forEach((usedSymbol: ts.Symbol) => queue.push(usedSymbol));
+		}
+
+		return result;
+	}
+
 	private isSymbolUsedBySymbolImpl(fromSymbol: ts.Symbol, toSymbol: ts.Symbol, visitedSymbols: Set<ts.Symbol>): boolean {
 		if (fromSymbol === toSymbol) {
 			return true;
@@ -56,14 +139,41 @@ export class TypesUsageEvaluator {
 
 		for (const file of files) {
 			ts.forEachChild(file, this.computeUsageForNode.bind(this));
+			this.computeUsagesForModuleExports(file);
+		}
+	}
+
+	/**
+	 * Every export of a module is used by the module itself
+	 * so if the whole module is used (e.g. `export * as ns from './module'`) then all its exports are used as well.
+	 */
+	private computeUsagesForModuleExports(file: ts.SourceFile): void {
+		const fileSymbol = this.typeChecker.getSymbolAtLocation(file);
+		if (fileSymbol === undefined) {
+			return;
+		}
+
+		for (const exportSymbol of this.typeChecker.getExportsOfModule(fileSymbol)) {
+			const declarations = exportSymbol.getDeclarations();
+			if (declarations !== undefined && declarations.length !== 0 && declarations.every(this.isNodeIgnored)) {
+				continue;
+			}
+
+			this.addUsage(this.getActualSymbol(exportSymbol), fileSymbol);
 		}
 	}
 
 	private computeUsageForNode(node: ts.Node): void {
+		if (this.isNodeIgnored(node)) {
+			return;
+		}
+
 		if (isRelativeDeclareModule(node) && node.body !== undefined && ts.isModuleBlock(node.body)) {
 			for (const statement of node.body.statements) {
 				this.computeUsageForNode(statement);
 			}
+		} else if (ts.isVariableDeclaration(node) && !ts.isIdentifier(node.name)) {
+			this.computeUsagesForBindingPattern(node);
 		} else if (isNodeNamedDeclaration(node) && node.name) {
 			const childSymbol = this.getSymbol(node.name);
 			this.computeUsagesRecursively(node, childSymbol);
@@ -74,15 +184,41 @@ export class TypesUsageEvaluator {
 		}
 	}
 
+	private computeUsagesForBindingPattern(declaration: ts.VariableDeclaration): void {
+		// every name of a binding pattern is a separate declaration which uses the type of the whole declaration only
+		// (but not other names of the pattern)
+		for (const name of getBindingNameIdentifiers(declaration.name)) {
+			const nameSymbol = this.getSymbol(name);
+			if (declaration.type !== undefined) {
+				this.computeUsagesRecursively(declaration.type, nameSymbol);
+			}
+
+			if (declaration.initializer !== undefined) {
+				this.computeUsagesRecursively(declaration.initializer, nameSymbol);
+			}
+		}
+	}
+
 	private computeUsagesRecursively(parent: ts.Node, parentSymbol: ts.Symbol): void {
-		const queue = parent.getChildren();
+		// children are copied because the returned array is cached by the compiler and mustn't be changed
+		const queue = parent.getChildren().slice();
 		for (const child of queue) {
-			if (child.kind === ts.SyntaxKind.JSDocComment) {
+			if (child.kind === ts.SyntaxKind.JSDocComment || this.isNodeIgnored(child)) {
 				continue;
 			}
 
 			queue.push(...child.getChildren());
 
+			// `typeof import('./module')` uses the whole module
+			if (ts.isImportTypeNode(child) && child.qualifier === undefined) {
+				const moduleSymbol = this.typeChecker.getSymbolAtLocation(child);
+				if (moduleSymbol !== undefined) {
+					this.addUsage(moduleSymbol, parentSymbol);
+				}
+
+				continue;
+			}
+
 			if (ts.isIdentifier(child)) {
 				// identifiers in labelled tuples don't have symbols for their labels
 				// so let's just skip them from collecting
@@ -93,22 +229,32 @@ export class TypesUsageEvaluator {
 
 				const childSymbols = splitTransientSymbol(this.getSymbol(child), this.typeChecker);
 
+				// in `ns.Name` only `Name` is used, not the whole module `ns`
+				// (the module's member is resolved by the right part of the name)
+				if (isLeftPartOfQualifiedName(child) && childSymbols.some((symbol: ts.Symbol) => getModuleSymbolSourceFile(symbol) !== null)) {
+					continue;
+				}
+
 				for (const childSymbol of childSymbols) {
-					let symbols = this.nodesParentsMap.get(childSymbol);
-					if (symbols === undefined) {
-						symbols = new Set<ts.Symbol>();
-						this.nodesParentsMap.set(childSymbol, symbols);
-					}
-
-					// to avoid infinite recursion
-					if (childSymbol !== parentSymbol) {
-						symbols.add(parentSymbol);
-					}
+					this.addUsage(childSymbol, parentSymbol);
 				}
 			}
 		}
 	}
 
+	private addUsage(childSymbol: ts.Symbol, parentSymbol: ts.Symbol): void {
+		let symbols = this.nodesParentsMap.get(childSymbol);
+		if (symbols === undefined) {
+			symbols = new Set<ts.Symbol>();
+			this.nodesParentsMap.set(childSymbol, symbols);
+		}
+
+		// to avoid infinite recursion
+		if (childSymbol !== parentSymbol) {
+			symbols.add(parentSymbol);
+		}
+	}
+
 	private getSymbol(node: ts.Node): ts.Symbol {
 		let nodeSymbol = this.typeChecker.getSymbolAtLocation(node);
 
@@ -127,3 +273,9 @@ export class TypesUsageEvaluator {
 		return getActualSymbol(symbol, this.typeChecker);
 	}
 }
+
+function isLeftPartOfQualifiedName(identifier: ts.Identifier): boolean {
+	const parent = identifier.parent;
+	return ts.isQualifiedName(parent) && parent.left === identifier
+		|| ts.isPropertyAccessExpression(parent) && parent.expression === identifier;
+}
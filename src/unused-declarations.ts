@@ -0,0 +1,166 @@
+import * as path from 'path';
+import * as ts from 'typescript';
+
+import { DiagnosticLocation } from './helpers/check-diagnostics-errors';
+import { fixPath } from './helpers/fix-path';
+import { getAbsolutePath } from './helpers/get-absolute-path';
+import { createSourceLocationGetter } from './helpers/source-location';
+import { RawSourceMap } from './helpers/source-map';
+import { getDeclarationsForSymbol, getExportsForSourceFile, SourceFileExport } from './helpers/typescript';
+
+/**
+ * An exported declaration of a local file which isn't a part of any output.
+ */
+export interface UnusedDeclaration {
+	/**
+	 * Name which the declaration is exported from its file with.
+	 */
+	name: string;
+
+	/**
+	 * Kind of the declaration as a name of `ts.SyntaxKind` (e.g. `InterfaceDeclaration`).
+	 */
+	kind: string;
+
+	location: DiagnosticLocation;
+}
+
+export interface UnusedDeclarationsFile {
+	/**
+	 * Absolute path of the source file.
+	 */
+	fileName: string;
+
+	declarations: UnusedDeclaration[];
+}
+
+export interface UnusedDeclarationsParams {
+	sourceFiles: ReadonlyArray<ts.SourceFile>;
+	typeChecker: ts.TypeChecker;
+
+	/**
+	 * Statements of all outputs (including imported ones).
+	 */
+	usedStatements: ReadonlySet<ts.Statement>;
+
+	/**
+	 * Declaration maps of the program's declaration files by absolute paths of these files.
+	 */
+	declarationMaps: Map<string, RawSourceMap>;
+
+	/**
+	 * Source files of the program's declaration files by absolute paths of these files.
+	 */
+	declarationsSources: Map<string, string>;
+
+	isLocalFile(fileName: string): boolean;
+}
+
+/**
+ * Returns exported declarations of local files which aren't a part of any output grouped by their source files.
+ * Declarations re-exported from other files are reported in files where they are declared.
+ * Files all exported declarations of which are used are returned with no declarations
+ * so reports of different compilations can be merged (see `mergeUnusedDeclarations`).
+ */
+export function getUnusedDeclarations(params: UnusedDeclarationsParams): UnusedDeclarationsFile[] {
+	const { typeChecker, usedStatements } = params;
+	const getSourceLocation = createSourceLocationGetter(params.declarationMaps);
+
+	const result: UnusedDeclarationsFile[] = [];
+	for (const sourceFile of params.sourceFiles) {
+		if (!params.isLocalFile(sourceFile.fileName)) {
+			continue;
+		}
+
+		// global scripts don't have exports
+		const sourceFileSymbol = typeChecker.getSymbolAtLocation(sourceFile);
+		if (sourceFileSymbol === undefined) {
+			continue;
+		}
+
+		const declarations: UnusedDeclaration[] = [];
+		for (const exp of getExportsForSourceFile(typeChecker, sourceFileSymbol)) {
+			const fileDeclarations = getDeclarationsForSymbol(exp.symbol).filter((declaration: ts.Declaration) => declaration.getSourceFile() === sourceFile);
+			if (fileDeclarations.length === 0 || fileDeclarations.some((declaration: ts.Declaration) => usedStatements.has(getTopLevelStatement(declaration)))) {
+				continue;
+			}
+
+			declarations.push({
+				name: getExportName(exp),
+				kind: ts.SyntaxKind[fileDeclarations[0].kind],
+				location: getSourceLocation(ts.getNameOfDeclaration(fileDeclarations[0]) || fileDeclarations[0]),
+			});
+		}
+
+		const sourceFileName = params.declarationsSources.get(getAbsolutePath(sourceFile.fileName));
+		result.push({
+			fileName: getAbsolutePath(sourceFileName !== undefined ? sourceFileName : sourceFile.fileName),
+			declarations: declarations.sort((a: UnusedDeclaration, b: UnusedDeclaration) => a.location.line - b.location.line || a.location.column - b.location.column),
+		});
+	}
+
+	return result.sort((a: UnusedDeclarationsFile, b: UnusedDeclarationsFile) => a.fileName.localeCompare(b.fileName));
+}
+
+/**
+ * Merges reports of compilations of entries with different tsconfigs (entries compiled with the same tsconfig share the report).
+ * A declaration is unused only if it is unused in all reports which have its file.
+ * Files without unused declarations are omitted from the result.
+ */
+export function mergeUnusedDeclarations(reports: ReadonlyArray<ReadonlyArray<UnusedDeclarationsFile>>): UnusedDeclarationsFile[] {
+	const unusedDeclarationsFiles = new Map<string, UnusedDeclarationsFile>();
+	// entries compiled with the same tsconfig share the report so it is merged once
+	for (const report of Array.from(new Set(reports))) {
+		for (const file of report) {
+			const existingFile = unusedDeclarationsFiles.get(file.fileName);
+			if (existingFile === undefined) {
+				unusedDeclarationsFiles.set(file.fileName, file);
+				continue;
+			}
+
+			unusedDeclarationsFiles.set(file.fileName, {
+				fileName: file.fileName,
+				declarations: existingFile.declarations.filter((declaration: UnusedDeclaration) => {
+					return file.declarations.some((otherDeclaration: UnusedDeclaration) => otherDeclaration.name === declaration.name);
+				}),
+			});
+		}
+	}
+
+	return Array.from(unusedDeclarationsFiles.values())
+		.filter((file: UnusedDeclarationsFile) => file.declarations.length !== 0)
+		.sort((a: UnusedDeclarationsFile, b: UnusedDeclarationsFile) => a.fileName.localeCompare(b.fileName));
+}
+
+/**
+ * Returns a human-readable report (paths are relative to the current directory).
+ */
+export function formatUnusedDeclarations(files: ReadonlyArray<UnusedDeclarationsFile>): string {
+	const filesWithDeclarations = files.filter((file: UnusedDeclarationsFile) => file.declarations.length !== 0);
+	if (filesWithDeclarations.length === 0) {
+		return 'All exported declarations of local files are used';
+	}
+
+	const lines: string[] = [];
+	for (const file of filesWithDeclarations) {
+		lines.push(`${fixPath(path.relative(process.cwd(), file.fileName))}:`);
+		for (const declaration of file.declarations) {
+			lines.push(`  ${declaration.location.line}:${declaration.location.column} ${declaration.name} (${declaration.kind})`);
+		}
+	}
+
+	return lines.join('\n');
+}
+
+function getExportName(exp: SourceFileExport): string {
+	// `export =` doesn't have a name so the name of the exported declaration is used
+	return exp.exportedName !== '' ? exp.exportedName : exp.originalName;
+}
+
+function getTopLevelStatement(node: ts.Node): ts.Statement {
+	while (!ts.isSourceFile(node.parent)) {
+		node = node.parent;
+	}
+
+	return node as ts.Statement;
+}
@@ -0,0 +1,177 @@
+import * as path from 'path';
+import * as ts from 'typescript';
+
+import { fixPath } from './helpers/fix-path';
+import { getAbsolutePath } from './helpers/get-absolute-path';
+import { getDeclarationsForSymbol, SourceFileExport } from './helpers/typescript';
+import { getModuleTypeName, ModuleInfo, ModuleTypeName } from './module-info';
+import { TypesUsageEvaluator } from './types-usage-evaluator';
+
+export type UsageGraphFormat = 'json' | 'dot';
+
+export interface UsageGraphNode {
+	id: number;
+	name: string;
+
+	/**
+	 * Kind of the first declaration of the symbol as a name of `ts.SyntaxKind` (e.g. `InterfaceDeclaration`)
+	 * or `Unknown` if the symbol doesn't have declarations.
+	 */
+	kind: string;
+
+	/**
+	 * Absolute path of the source file of the first declaration (`null` if the symbol doesn't have declarations).
+	 */
+	fileName: string | null;
+
+	/**
+	 * How the module of the declaration is handled (`null` if the symbol doesn't have declarations).
+	 */
+	moduleType: ModuleTypeName | null;
+
+	/**
+	 * Names which the symbol is exported from the entry with (empty if the symbol isn't an export of the entry).
+	 */
+	exportedNames: string[];
+}
+
+/**
+ * The `from` node uses the `to` node.
+ */
+export interface UsageGraphEdge {
+	from: number;
+	to: number;
+}
+
+/**
+ * Symbols which are reachable from exports of an entry and "uses" relations between them.
+ * Declarations of default libraries (e.g. `Promise`) are omitted.
+ */
+export interface UsageGraph {
+	nodes: UsageGraphNode[];
+	edges: UsageGraphEdge[];
+}
+
+export interface UsageGraphParams {
+	rootFileExports: ReadonlyArray<SourceFileExport>;
+	typesUsageEvaluator: TypesUsageEvaluator;
+
+	/**
+	 * Source files of the program's declaration files by absolute paths of these files.
+	 */
+	declarationsSources: Map<string, string>;
+
+	isDefaultLibrary(sourceFile: ts.SourceFile): boolean;
+	getModuleInfo(fileName: string): ModuleInfo;
+}
+
+export function getUsageGraph(params: UsageGraphParams): UsageGraph {
+	const { rootFileExports, typesUsageEvaluator } = params;
+	const usageGraph = typesUsageEvaluator.getUsageGraph(rootFileExports.map((exp: SourceFileExport) => exp.symbol));
+
+	const isSymbolIncluded = (symbol: ts.Symbol) => {
+		const declarations = getDeclarationsForSymbol(symbol);
+		return declarations.length === 0 || !declarations.every((declaration: ts.Declaration) => params.isDefaultLibrary(declaration.getSourceFile()));
+	};
+
+	const nodesIds = new Map<ts.Symbol, number>();
+	const nodes: UsageGraphNode[] = [];
+	for (const symbol of Array.from(usageGraph.keys())) {
+		if (isSymbolIncluded(symbol)) {
+			nodesIds.set(symbol, nodes.length);
+			nodes.push(getUsageGraphNode(symbol, nodes.length, params));
+		}
+	}
+
+	const edges: UsageGraphEdge[] = [];
+	usageGraph.forEach((usedSymbols: Set<ts.Symbol>, symbol: ts.Symbol) => {
+		const from = nodesIds.get(symbol);
+		if (from === undefined) {
+			return;
+		}
+
+		usedSymbols.forEach((usedSymbol: ts.Symbol) => {
+			const to = nodesIds.get(usedSymbol);
+			if (to !== undefined) {
+				edges.push({ from, to });
+			}
+		});
+	});
+
+	return { nodes, edges };
+}
+
+/**
+ * Formats the graph as a JSON object or as a Graphviz DOT graph (paths of files in DOT are relative to the current directory).
+ */
+export function formatUsageGraph(graph: UsageGraph, format: UsageGraphFormat, graphName: string = 'usage graph'): string {
+	switch (format) {
+		case 'json':
+			return JSON.stringify(graph, null, 2);
+
+		case 'dot':
+			return formatDotGraph(graph, graphName);
+
+		default:
+			throw new Error(`Unknown usage graph format "${format}", expected "json" or "dot"`);
+	}
+}
+
+function getUsageGraphNode(symbol: ts.Symbol, id: number, params: UsageGraphParams): UsageGraphNode {
+	const exportedNames = params.rootFileExports
+		.filter((exp: SourceFileExport) => exp.symbol === symbol)
+		.map((exp: SourceFileExport) => exp.exportedName);
+
+	const declarations = getDeclarationsForSymbol(symbol);
+	if (declarations.length === 0) {
+		return { id, name: symbol.getName(), kind: 'Unknown', fileName: null, moduleType: null, exportedNames };
+	}
+
+	const declaration = declarations[0];
+	const declarationFileName = declaration.getSourceFile().fileName;
+	const sourceFileName = params.declarationsSources.get(getAbsolutePath(declarationFileName));
+	const fileName = getAbsolutePath(sourceFileName !== undefined ? sourceFileName : declarationFileName);
+
+	return {
+		id,
+		// names of modules' symbols are quoted paths of their (declaration) files so source files' paths are used instead
+		name: ts.isSourceFile(declaration) ? fileName : symbol.getName(),
+		kind: ts.SyntaxKind[declaration.kind],
+		fileName,
+		moduleType: getModuleTypeName(params.getModuleInfo(declarationFileName).type),
+		exportedNames,
+	};
+}
+
+function formatDotGraph(graph: UsageGraph, graphName: string): string {
+	const lines = [`digraph ${quoteDotString(graphName)} {`, '\tnode [shape=box];'];
+
+	for (const node of graph.nodes) {
+		const labelLines = [
+			node.exportedNames.length !== 0 && node.exportedNames.indexOf(node.name) === -1 ? `${node.name} (exported as ${node.exportedNames.join(', ')})` : node.name,
+			node.kind,
+		];
+
+		if (node.fileName !== null) {
+			labelLines.push(`${fixPath(path.relative(process.cwd(), node.fileName))} (${node.moduleType})`);
+		}
+
+		const attributes = [`label=${quoteDotString(labelLines.join('\n'))}`];
+		if (node.exportedNames.length !== 0) {
+			attributes.push('style=bold');
+		}
+
+		lines.push(`\tn${node.id} [${attributes.join(', ')}];`);
+	}
+
+	for (const edge of graph.edges) {
+		lines.push(`\tn${edge.from} -> n${edge.to};`);
+	}
+
+	lines.push('}');
+	return lines.join('\n');
+}
+
+function quoteDotString(value: string): string {
+	return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+}
@@ -0,0 +1,194 @@
+import * as ts from 'typescript';
+
+import { CompilationOptions, EntryPointConfig } from './bundle-generator';
+import { getCompilationConfig, setupModuleResolution } from './compile-dts';
+import { getConfigFileName } from './get-compiler-options';
+import { getAbsolutePath } from './helpers/get-absolute-path';
+import { DiagnosticsPolicy } from './helpers/check-diagnostics-errors';
+import { errorLog, verboseLog } from './logger';
+
+export interface Watcher {
+	close(): void;
+}
+
+/**
+ * Watches source files of the entries (and their tsconfig files)
+ * and calls `onChange` with indexes of entries outputs of which might be changed by the changes
+ * (all entries if there is the common chunk or an entry with `importPath` since such entries are generated together).
+ * `onChange` is called for all entries right after watching is started.
+ * Files are watched via the system (`ts.sys` by default).
+ */
+export function watchEntries(
+	entries: ReadonlyArray<EntryPointConfig>,
+	options: CompilationOptions,
+	onChange: (entriesIndexes: number[]) => void,
+	system: ts.System = ts.sys
+): Watcher {
+	const entriesByConfig = new Map<string, number[]>();
+	entries.forEach((entry: EntryPointConfig, index: number) => {
+		const configPath = getAbsolutePath(
+			getConfigFileName([entry.filePath], entry.preferredConfigPath !== undefined ? entry.preferredConfigPath : options.preferredConfigPath)
+		);
+
+		const configEntries = entriesByConfig.get(configPath);
+		if (configEntries === undefined) {
+			entriesByConfig.set(configPath, [index]);
+		} else {
+			configEntries.push(index);
+		}
+	});
+
+	// the common chunk depends on all entries and entries with `importPath` might be imported by other ones
+	// (otherwise their declarations are inlined) so all entries have to be re-generated together
+	const generateAllEntries = options.commonChunk !== undefined || entries.some((entry: EntryPointConfig) => entry.importPath !== undefined);
+	const getAffectedEntries = (projectEntries: number[]) => generateAllEntries ? entries.map((entry: EntryPointConfig, index: number) => index) : projectEntries;
+
+	const watchers: Watcher[] = [];
+	entriesByConfig.forEach((projectEntries: number[], configPath: string) => {
+		watchers.push(watchProjectWithConfig(
+			projectEntries.map((index: number) => entries[index].filePath),
+			configPath,
+			options.followSymlinks !== false,
+			options.diagnostics || {},
+			system,
+			(affectedRootFiles: number[]) => onChange(getAffectedEntries(affectedRootFiles.map((index: number) => projectEntries[index])))
+		));
+	});
+
+	return {
+		close: () => watchers.forEach((watcher: Watcher) => watcher.close()),
+	};
+}
+
+interface ProjectWatcher extends Watcher {
+	/**
+	 * The tsconfig file of the project and config files which it extends.
+	 */
+	configFiles: string[];
+}
+
+/**
+ * Watches the project and re-creates the watching from scratch if its tsconfig file (or any config which it extends) is changed.
+ */
+function watchProjectWithConfig(
+	rootFiles: ReadonlyArray<string>,
+	configPath: string,
+	followSymlinks: boolean,
+	diagnosticsPolicy: DiagnosticsPolicy,
+	system: ts.System,
+	onChange: (affectedRootFiles: number[]) => void
+): Watcher {
+	const watchFile = system.watchFile;
+	if (watchFile === undefined) {
+		throw new Error('Watching files is not supported in the current environment');
+	}
+
+	let configWatchers: ts.FileWatcher[] = [];
+	const closeConfigWatchers = () => configWatchers.forEach((watcher: ts.FileWatcher) => watcher.close());
+
+	const watchConfigFiles = (configFiles: ReadonlyArray<string>) => {
+		closeConfigWatchers();
+		configWatchers = configFiles.map((configFile: string) => watchFile(configFile, () => {
+			verboseLog(`Config ${configFile} is changed, restarting watching of files of ${configPath}`);
+			projectWatcher.close();
+
+			try {
+				projectWatcher = watchProject(rootFiles, configPath, followSymlinks, diagnosticsPolicy, system, onChange);
+			} catch (ex) {
+				// the config might be fixed later so keep watching it (as well as configs which it extended)
+				errorLog(`Error: ${ex.message}`);
+				projectWatcher = { close: () => undefined, configFiles: [] };
+				return;
+			}
+
+			// the config might extend other configs now
+			watchConfigFiles(projectWatcher.configFiles);
+		}));
+	};
+
+	let projectWatcher = watchProject(rootFiles, configPath, followSymlinks, diagnosticsPolicy, system, onChange);
+	watchConfigFiles(projectWatcher.configFiles);
+
+	return {
+		close: () => {
+			closeConfigWatchers();
+			projectWatcher.close();
+		},
+	};
+}
+
+function watchProject(
+	rootFiles: ReadonlyArray<string>,
+	configPath: string,
+	followSymlinks: boolean,
+	diagnosticsPolicy: DiagnosticsPolicy,
+	system: ts.System,
+	onChange: (affectedRootFiles: number[]) => void
+): ProjectWatcher {
+	const { compilerOptions, referencedProjects, extendedConfigFiles } = getCompilationConfig(rootFiles, configPath, undefined, diagnosticsPolicy);
+
+	const host = ts.createWatchCompilerHost(
+		rootFiles.slice(),
+		{ ...compilerOptions, noEmit: true },
+		system,
+		ts.createSemanticDiagnosticsBuilderProgram,
+		// errors are reported while generating bundles
+		() => undefined,
+		(diagnostic: ts.Diagnostic) => verboseLog(ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'))
+	);
+
+	// the same resolution as the compilation uses (e.g. to watch source files of referenced projects)
+	setupModuleResolution(host, compilerOptions, referencedProjects, followSymlinks, false);
+	let filesTexts = new Map<string, string>();
+	const rootFilesDependencies: Set<string>[] = rootFiles.map(() => new Set<string>());
+
+	host.afterProgramCreate = (builderProgram: ts.SemanticDiagnosticsBuilderProgram) => {
+		const newFilesTexts = new Map<string, string>();
+		for (const sourceFile of builderProgram.getSourceFiles()) {
+			newFilesTexts.set(sourceFile.fileName, sourceFile.text);
+		}
+
+		const changedFiles = new Set<string>();
+		newFilesTexts.forEach((text: string, fileName: string) => {
+			if (filesTexts.get(fileName) !== text) {
+				changedFiles.add(fileName);
+			}
+		});
+
+		filesTexts.forEach((text: string, fileName: string) => {
+			if (!newFilesTexts.has(fileName)) {
+				changedFiles.add(fileName);
+			}
+		});
+
+		filesTexts = newFilesTexts;
+
+		const affectedRootFiles: number[] = [];
+		rootFiles.forEach((rootFile: string, index: number) => {
+			const rootSourceFile = builderProgram.getSourceFile(rootFile);
+			const dependencies = new Set(rootSourceFile !== undefined ? builderProgram.getAllDependencies(rootSourceFile) : []);
+
+			// removed files aren't dependencies anymore, but they were before
+			const isAffected = Array.from(dependencies).some((fileName: string) => changedFiles.has(fileName))
+				|| Array.from(rootFilesDependencies[index]).some((fileName: string) => changedFiles.has(fileName));
+
+			rootFilesDependencies[index] = dependencies;
+			if (isAffected) {
+				affectedRootFiles.push(index);
+			}
+		});
+
+		verboseLog(`Changed files:\n  ${Array.from(changedFiles).join('\n  ')}`);
+
+		if (affectedRootFiles.length !== 0) {
+			onChange(affectedRootFiles);
+		}
+	};
+
+	const watchProgram = ts.createWatchProgram(host);
+
+	return {
+		close: () => watchProgram.close(),
+		configFiles: [configPath, ...extendedConfigFiles],
+	};
+}
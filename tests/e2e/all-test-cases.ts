@@ -2,15 +2,27 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as assert from 'assert';
 
-import { generateDtsBundle } from '../../src/bundle-generator';
+import { generateDtsBundle, generateDtsBundleWithApiReport } from '../../src/bundle-generator';
+import { getPackageExportsEntries } from '../../src/package-exports';
 
-import { TestCaseConfig } from './test-cases/test-case-config';
+import { AdditionalEntryConfig, TestCaseConfig } from './test-cases/test-case-config';
 
 interface TestCase {
 	name: string;
 	inputFileName: string;
+	inputImportPath: string | undefined;
 	outputFileContent: string;
 	config: TestCaseConfig;
+	additionalEntries: AdditionalEntry[];
+	commonChunkOutputFileContent: string | null;
+	apiReportFileContent: string | null;
+}
+
+interface AdditionalEntry {
+	inputFileName: string;
+	importPath?: string;
+	preferredConfigPath?: string;
+	outputFileContent: string;
 }
 
 const testCasesDir = path.resolve(__dirname, 'test-cases');
@@ -40,11 +52,56 @@ function getTestCases(): TestCase[] {
 			assert(fs.existsSync(inputFileName), `Input file doesn't exist for ${directoryName}`);
 			assert(fs.existsSync(outputFileName), `Output file doesn't exist for ${directoryName}`);
 
+			const config = require(path.resolve(testCaseDir, 'config.ts')) as TestCaseConfig;
+
+			const getAdditionalEntry = (fileName: string, importPath?: string, preferredConfigPath?: string): AdditionalEntry => {
+				const entryOutputFileName = path.resolve(testCaseDir, `${path.parse(fileName).name}.output.d.ts`);
+				assert(fs.existsSync(entryOutputFileName), `Output file doesn't exist for ${fileName} in ${directoryName}`);
+
+				return {
+					inputFileName: path.relative(process.cwd(), path.resolve(testCaseDir, fileName)),
+					importPath,
+					preferredConfigPath,
+					outputFileContent: prepareString(fs.readFileSync(entryOutputFileName, 'utf-8')),
+				};
+			};
+
+			const additionalEntries = (config.additionalEntries || []).map((entry: string | AdditionalEntryConfig) => {
+				return typeof entry === 'string' ? getAdditionalEntry(entry) : getAdditionalEntry(entry.fileName, undefined, entry.preferredConfigPath);
+			});
+
+			let inputImportPath: string | undefined;
+			if (config.packageExports) {
+				for (const packageExport of getPackageExportsEntries(path.resolve(testCaseDir, 'package.json'))) {
+					if (packageExport.filePath === path.resolve(inputFileName)) {
+						inputImportPath = packageExport.importPath;
+					} else {
+						additionalEntries.push(getAdditionalEntry(packageExport.filePath, packageExport.importPath));
+					}
+				}
+
+				assert(inputImportPath !== undefined, `Input file isn't exported from package.json in ${directoryName}`);
+			}
+
+			let commonChunkOutputFileContent: string | null = null;
+			if (config.commonChunk !== undefined) {
+				const commonChunkOutputFileName = path.resolve(testCaseDir, 'common-chunk.output.d.ts');
+				assert(fs.existsSync(commonChunkOutputFileName), `Common chunk output file doesn't exist for ${directoryName}`);
+				commonChunkOutputFileContent = prepareString(fs.readFileSync(commonChunkOutputFileName, 'utf-8'));
+			}
+
+			const apiReportFileName = path.resolve(testCaseDir, 'api-report.output.d.ts');
+			const apiReportFileContent = fs.existsSync(apiReportFileName) ? prepareString(fs.readFileSync(apiReportFileName, 'utf-8')) : null;
+
 			const result: TestCase = {
 				name: directoryName,
 				inputFileName,
-				config: require(path.resolve(testCaseDir, 'config.ts')) as TestCaseConfig,
+				inputImportPath,
+				config,
 				outputFileContent: prepareString(fs.readFileSync(outputFileName, 'utf-8')),
+				additionalEntries,
+				commonChunkOutputFileContent,
+				apiReportFileContent,
 			};
 
 			return result;
@@ -60,17 +117,58 @@ describe('Functional tests', () => {
 				outputOptions.noBanner = true;
 			}
 
+			const entries: AdditionalEntry[] = [
+				{ inputFileName: testCase.inputFileName, importPath: testCase.inputImportPath, outputFileContent: testCase.outputFileContent },
+				...testCase.additionalEntries,
+			];
+			const commonChunk = testCase.config.commonChunk;
+
 			const dtsResult = generateDtsBundle(
-				[
-					{
-						...testCase.config,
-						output: outputOptions,
-						filePath: testCase.inputFileName,
-					},
-				]
-			)[0];
-			const result = prepareString(dtsResult);
+				entries.map((entry: AdditionalEntry) => ({
+					...testCase.config,
+					output: outputOptions,
+					filePath: entry.inputFileName,
+					importPath: entry.importPath,
+					preferredConfigPath: entry.preferredConfigPath !== undefined ? entry.preferredConfigPath : testCase.config.preferredConfigPath,
+				})),
+				{
+					commonChunk: commonChunk !== undefined ? { ...commonChunk, output: { noBanner: true, ...commonChunk.output } } : undefined,
+				}
+			);
+
+			const result = prepareString(dtsResult[0]);
 			assert.strictEqual(result, testCase.outputFileContent, 'Output should be the same as expected');
+
+			testCase.additionalEntries.forEach((entry: AdditionalEntry, index: number) => {
+				assert.strictEqual(prepareString(dtsResult[index + 1]), entry.outputFileContent, `Output for ${entry.inputFileName} should be the same as expected`);
+			});
+
+			if (testCase.commonChunkOutputFileContent !== null) {
+				assert.strictEqual(prepareString(dtsResult[entries.length]), testCase.commonChunkOutputFileContent, 'Common chunk output should be the same as expected');
+			}
+		});
+	}
+});
+
+describe('API reports', () => {
+	for (const testCase of getTestCases()) {
+		const apiReportFileContent = testCase.apiReportFileContent;
+		if (apiReportFileContent === null) {
+			continue;
+		}
+
+		it(testCase.name, () => {
+			// the report is checked for the input entry only
+			const [bundle] = generateDtsBundleWithApiReport([
+				{
+					...testCase.config,
+					output: { noBanner: true, ...testCase.config.output },
+					filePath: testCase.inputFileName,
+					importPath: testCase.inputImportPath,
+				},
+			]);
+
+			assert.strictEqual(prepareString(bundle.apiReport), apiReportFileContent, 'API report should be the same as expected');
 		});
 	}
 });
@@ -0,0 +1,15 @@
+import { Interface } from 'fake-package';
+
+declare const version: string;
+export declare function createWidget(options: WidgetOptions): Widget;
+export interface Widget {
+	render(): void;
+}
+export interface WidgetOptions {
+	name: string;
+	base: Interface;
+}
+
+export {
+	version as widgetVersion,
+};
@@ -0,0 +1,10 @@
+import { Interface } from 'fake-package';
+
+/**
+ * Options of the widget.
+ */
+export interface WidgetOptions {
+	// the widget's name
+	name: string;
+	base: Interface;
+}
@@ -0,0 +1,16 @@
+import { WidgetOptions } from './helpers';
+
+/**
+ * Creates a widget.
+ */
+export declare function createWidget(options: WidgetOptions): Widget;
+
+/** The widget. */
+export interface Widget {
+	/** Renders the widget. */
+	render(): void;
+}
+
+declare const version: string;
+
+export { version as widgetVersion };
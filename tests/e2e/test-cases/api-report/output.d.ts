@@ -0,0 +1,25 @@
+import { Interface } from 'fake-package';
+
+/**
+ * Options of the widget.
+ */
+export interface WidgetOptions {
+	name: string;
+	base: Interface;
+}
+/**
+ * Creates a widget.
+ */
+export declare function createWidget(options: WidgetOptions): Widget;
+/** The widget. */
+export interface Widget {
+	/** Renders the widget. */
+	render(): void;
+}
+declare const version: string;
+
+export {
+	version as widgetVersion,
+};
+
+export {};
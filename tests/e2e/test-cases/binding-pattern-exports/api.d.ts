@@ -0,0 +1,14 @@
+export interface Api {
+	a: number;
+	nested: {
+		b: string;
+	};
+	list: Item[];
+}
+
+export interface Item {
+	name: string;
+}
+
+export interface Unused {
+}
@@ -0,0 +1,10 @@
+import { Api } from './api';
+
+/**
+ * Destructured API.
+ */
+export declare const { a, nested: { b: renamedB } }: Api, { list: [firstItem, ...restItems] }: Api;
+
+declare const { a: nonExported, nested: { b: unused } }: Api;
+
+export { nonExported as reExported };
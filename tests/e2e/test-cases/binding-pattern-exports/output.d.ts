@@ -0,0 +1,24 @@
+export interface Api {
+	a: number;
+	nested: {
+		b: string;
+	};
+	list: Item[];
+}
+export interface Item {
+	name: string;
+}
+/**
+ * Destructured API.
+ */
+export declare const { a }: Api;
+export declare const { nested: { b: renamedB } }: Api;
+export declare const { list: [firstItem] }: Api;
+export declare const { list: [, ...restItems] }: Api;
+declare const { a: nonExported }: Api;
+
+export {
+	nonExported as reExported,
+};
+
+export {};
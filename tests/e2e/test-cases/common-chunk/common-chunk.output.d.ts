@@ -0,0 +1,9 @@
+export interface Options {
+	name: string;
+}
+export declare class Shared {
+	private field;
+	options: Options;
+}
+
+export {};
@@ -0,0 +1,10 @@
+import { TestCaseConfig } from '../test-case-config';
+
+const config: TestCaseConfig = {
+	additionalEntries: ['second.ts'],
+	commonChunk: {
+		importPath: './common-chunk',
+	},
+};
+
+export = config;
@@ -0,0 +1,10 @@
+import { Mixed, Shared, value } from './shared';
+
+export { Shared, value };
+
+export interface First {
+	shared: Shared;
+	mixed: Mixed;
+}
+
+export default Shared;
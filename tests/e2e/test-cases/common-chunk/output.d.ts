@@ -0,0 +1,19 @@
+import { Options, Shared } from './common-chunk';
+
+export interface Internal {
+	internal: number;
+}
+export declare type Mixed = Internal | Options;
+export declare const value: Options;
+export interface First {
+	shared: Shared;
+	mixed: Mixed;
+}
+export default Shared;
+
+export {
+	Options,
+	Shared,
+};
+
+export {};
@@ -0,0 +1,15 @@
+import { Options as Options$1, Shared } from './common-chunk';
+
+export interface OwnOptions {
+	own: boolean;
+}
+export interface Options {
+	shared: Shared;
+}
+export declare function second(options: Options$1): OwnOptions;
+
+export {
+	Shared as Renamed,
+};
+
+export {};
@@ -0,0 +1,14 @@
+import { Shared } from './shared';
+
+export { Shared as Renamed };
+
+interface OwnOptions {
+	own: boolean;
+}
+
+// the same name as the one from the common chunk
+export interface Options {
+	shared: Shared;
+}
+
+export declare function second(options: import('./shared').Options): OwnOptions;
@@ -0,0 +1,16 @@
+export interface Options {
+	name: string;
+}
+
+export declare class Shared {
+	private field: number;
+	public options: Options;
+}
+
+interface Internal {
+	internal: number;
+}
+
+export type Mixed = Internal | Options;
+
+export declare const value: Options;
@@ -0,0 +1,14 @@
+import * as path from 'path';
+
+import { TestCaseConfig } from '../test-case-config';
+
+const config: TestCaseConfig = {
+	preferredConfigPath: path.resolve(__dirname, 'a-tsconfig.json'),
+	// entries are compiled with different tsconfig files, but outputs must be returned in the entries order anyway
+	additionalEntries: [
+		{ fileName: 'second.ts', preferredConfigPath: path.resolve(__dirname, 'b-tsconfig.json') },
+		'third.ts',
+	],
+};
+
+export = config;
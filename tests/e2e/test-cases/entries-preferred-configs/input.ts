@@ -0,0 +1,6 @@
+// the alias is resolved differently by tsconfig files of entries
+import { Options } from '@lib/options';
+
+export interface First {
+	options: Options;
+}
@@ -0,0 +1,8 @@
+export interface Options {
+	name: string;
+}
+export interface First {
+	options: Options;
+}
+
+export {};
@@ -0,0 +1,8 @@
+export interface Options {
+	id: number;
+}
+export interface Second {
+	options: Options;
+}
+
+export {};
@@ -0,0 +1,5 @@
+import { Options } from '@lib/options';
+
+export interface Third {
+	options: Options;
+}
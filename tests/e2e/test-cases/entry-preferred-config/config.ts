@@ -0,0 +1,9 @@
+import * as path from 'path';
+
+import { TestCaseConfig } from '../test-case-config';
+
+const config: TestCaseConfig = {
+	preferredConfigPath: path.resolve(__dirname, 'entry-tsconfig.json'),
+};
+
+export = config;
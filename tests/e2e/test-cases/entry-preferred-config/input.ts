@@ -0,0 +1,6 @@
+// the alias is specified in the entry's tsconfig only
+import { Options } from '@lib/options';
+
+export interface Config {
+	options: Options;
+}
@@ -0,0 +1,7 @@
+export interface HelperOptions {
+	enabled: boolean;
+}
+
+export function helper(): void {}
+
+export function unusedHelper(): void {}
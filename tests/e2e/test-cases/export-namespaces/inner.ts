@@ -0,0 +1 @@
+export const innerValue = 1;
@@ -0,0 +1,10 @@
+import * as helpers from './helpers';
+
+export * as utils from './utils';
+
+export interface Config {
+	options: helpers.HelperOptions;
+	helper: typeof helpers.helper;
+}
+
+export type Whole = typeof import('./whole');
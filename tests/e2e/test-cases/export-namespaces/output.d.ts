@@ -0,0 +1,30 @@
+export interface HelperOptions {
+	enabled: boolean;
+}
+declare function helper(): void;
+declare const innerValue = 1;
+export interface Options {
+	prefix: string;
+}
+declare function format(options: Options): string;
+declare const wholeValue = 1;
+declare function wholeFunction(): void;
+export interface Config {
+	options: helpers.HelperOptions;
+	helper: typeof helpers.helper;
+}
+export declare type Whole = typeof whole;
+export declare namespace utils {
+	export { Options, format, inner };
+}
+declare namespace helpers {
+	export { HelperOptions, helper };
+}
+declare namespace whole {
+	export { wholeFunction, wholeValue };
+}
+declare namespace inner {
+	export { innerValue };
+}
+
+export {};
@@ -0,0 +1,9 @@
+export * as inner from './inner';
+
+export interface Options {
+	prefix: string;
+}
+
+export function format(options: Options): string {
+	return options.prefix;
+}
@@ -0,0 +1,3 @@
+export const wholeValue = 1;
+
+export function wholeFunction(): void {}
@@ -1,4 +1,4 @@
-// not supported for now - if variable declarations have different exports - then all aren't exported
+// declarations with different exports are split into separate statements
 const defaultExportedString = 'str', justExportedNumber = 123;
 export default defaultExportedString;
 export { justExportedNumber };
@@ -8,3 +8,9 @@ export { exportedString };
 
 // fix unused expression error
 console.log(nonExportedNum);
+
+// unused declarations are removed
+const referencedByType = 1, notReferenced = 2;
+export type ReferencedType = typeof referencedByType;
+
+console.log(notReferenced);
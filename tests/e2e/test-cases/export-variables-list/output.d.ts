@@ -1,5 +1,8 @@
-declare const defaultExportedString = "str", justExportedNumber = 123;
+declare const defaultExportedString = "str";
+export declare const justExportedNumber = 123;
 export declare const exportedString = "str";
+declare const referencedByType = 1;
+export declare type ReferencedType = typeof referencedByType;
 export default defaultExportedString;
 
 export {};
@@ -0,0 +1,5 @@
+interface Options {
+	a: string;
+}
+
+export function createA(options: Options): void {}
@@ -0,0 +1,13 @@
+interface Options {
+	b: number;
+}
+
+export interface BItem {
+	name: string;
+}
+
+export interface BConfig {
+	options: Options;
+	optionsList: Options[];
+	items: BItem[];
+}
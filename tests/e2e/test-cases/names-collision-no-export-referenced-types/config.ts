@@ -0,0 +1,9 @@
+import { TestCaseConfig } from '../test-case-config';
+
+const config: TestCaseConfig = {
+	output: {
+		exportReferencedTypes: false,
+	},
+};
+
+export = config;
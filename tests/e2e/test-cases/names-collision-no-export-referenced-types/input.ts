@@ -0,0 +1,7 @@
+export { createA } from './a';
+export { BConfig } from './b';
+export { Options as COptions } from './c';
+
+export interface Options {
+	root: boolean;
+}
@@ -0,0 +1,8 @@
+interface Options {
+	b: number;
+}
+
+export interface BConfig {
+	options: Options;
+	optionsList: Options[];
+}
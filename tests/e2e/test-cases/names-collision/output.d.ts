@@ -0,0 +1,23 @@
+interface Options$1 {
+	a: string;
+}
+export declare function createA(options: Options$1): void;
+interface Options$2 {
+	b: number;
+}
+export interface BConfig {
+	options: Options$2;
+	optionsList: Options$2[];
+}
+interface Options$3 {
+	c: boolean;
+}
+export interface Options {
+	root: boolean;
+}
+
+export {
+	Options$3 as COptions,
+};
+
+export {};
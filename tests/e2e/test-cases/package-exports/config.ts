@@ -0,0 +1,7 @@
+import { TestCaseConfig } from '../test-case-config';
+
+const config: TestCaseConfig = {
+	packageExports: true,
+};
+
+export = config;
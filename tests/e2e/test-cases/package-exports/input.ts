@@ -0,0 +1,5 @@
+import { Mock } from './mocks';
+
+export interface Service {
+	mock: Mock | null;
+}
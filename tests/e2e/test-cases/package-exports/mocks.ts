@@ -0,0 +1,8 @@
+export interface MockOptions {
+	delay: number;
+}
+
+export interface Mock {
+	options: MockOptions;
+	reset(): void;
+}
@@ -0,0 +1,7 @@
+import { Mock } from 'my-package/testing';
+
+export interface Service {
+	mock: Mock | null;
+}
+
+export {};
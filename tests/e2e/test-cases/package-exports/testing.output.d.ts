@@ -0,0 +1,9 @@
+export interface MockOptions {
+	delay: number;
+}
+export interface Mock {
+	options: MockOptions;
+	reset(): void;
+}
+
+export {};
@@ -0,0 +1 @@
+export { Mock } from './mocks';
@@ -0,0 +1,44 @@
+import * as ts from 'typescript';
+
+import { TestCaseConfig } from '../test-case-config';
+
+const config: TestCaseConfig = {
+	plugins: [
+		{
+			name: 'readonly-options',
+			transformStatement: (statement: ts.Statement) => {
+				if (!ts.isInterfaceDeclaration(statement)) {
+					return statement;
+				}
+
+				return ts.factory.updateInterfaceDeclaration(
+					statement,
+					statement.decorators,
+					statement.modifiers,
+					statement.name,
+					statement.typeParameters,
+					statement.heritageClauses,
+					statement.members.map((member: ts.TypeElement) => {
+						if (!ts.isPropertySignature(member)) {
+							return member;
+						}
+
+						return ts.factory.updatePropertySignature(
+							member,
+							[ts.factory.createModifier(ts.SyntaxKind.ReadonlyKeyword)],
+							member.name,
+							member.questionToken,
+							member.type
+						);
+					})
+				);
+			},
+		},
+		{
+			name: 'license',
+			transformOutput: (output: string) => `// License: MIT\n\n${output}`,
+		},
+	],
+};
+
+export = config;
@@ -0,0 +1,11 @@
+/**
+ * Options of the widget.
+ */
+export interface Options {
+	name: string;
+	size?: number;
+}
+
+export type Mode = 'light' | 'dark';
+
+export function createWidget(options: Options, mode: Mode): void {}
@@ -0,0 +1,13 @@
+// License: MIT
+
+/**
+ * Options of the widget.
+ */
+export interface Options {
+	readonly name: string;
+	readonly size?: number;
+}
+export declare type Mode = "light" | "dark";
+export declare function createWidget(options: Options, mode: Mode): void;
+
+export {};
@@ -0,0 +1,9 @@
+import { TestCaseConfig } from '../test-case-config';
+
+const config: TestCaseConfig = {
+	libraries: {
+		inlinedLibraries: ['inlined-lib'],
+	},
+};
+
+export = config;
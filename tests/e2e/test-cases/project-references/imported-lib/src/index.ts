@@ -0,0 +1,3 @@
+export interface ImportedInterface {
+	field: string;
+}
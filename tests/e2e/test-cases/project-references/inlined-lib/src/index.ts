@@ -0,0 +1,5 @@
+import { ImportedInterface } from 'imported-lib';
+
+export interface InlinedInterface {
+	imported: ImportedInterface;
+}
@@ -0,0 +1,8 @@
+// referenced projects aren't built, so imports are resolved to their sources
+import { InlinedInterface } from 'inlined-lib';
+import { ImportedInterface } from './imported-lib/src/index';
+
+export interface Root {
+	inlined: InlinedInterface;
+	imported: ImportedInterface;
+}
@@ -0,0 +1,11 @@
+import { ImportedInterface } from 'imported-lib';
+
+export interface InlinedInterface {
+	imported: ImportedInterface;
+}
+export interface Root {
+	inlined: InlinedInterface;
+	imported: ImportedInterface;
+}
+
+export {};
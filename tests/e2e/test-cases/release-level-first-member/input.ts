@@ -0,0 +1,29 @@
+export interface Options {
+	/**
+	 * @internal
+	 */
+	debug: boolean;
+	name: string;
+}
+
+export declare class Client {
+	/**
+	 * @beta
+	 */
+	public connect(): void;
+
+	public close(): void;
+}
+
+export declare namespace Plugins {
+	/**
+	 * @alpha
+	 */
+	interface ExperimentalPlugin {
+		run(): void;
+	}
+
+	interface Plugin {
+		name: string;
+	}
+}
@@ -0,0 +1,13 @@
+export interface Options {
+	name: string;
+}
+export declare class Client {
+	close(): void;
+}
+export declare namespace Plugins {
+	interface Plugin {
+		name: string;
+	}
+}
+
+export {};
@@ -0,0 +1,17 @@
+/**
+ * @internal
+ */
+export interface InternalOptions {
+	debug: boolean;
+}
+
+/**
+ * @beta
+ */
+export interface BetaOptions {
+	experimental: boolean;
+}
+
+export interface PublicOptions {
+	name: string;
+}
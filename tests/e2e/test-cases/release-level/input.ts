@@ -0,0 +1,37 @@
+import { BetaOptions, InternalOptions, PublicOptions } from './helpers';
+
+export { BetaOptions, PublicOptions };
+
+export interface Service {
+	options: PublicOptions;
+
+	/**
+	 * @alpha
+	 */
+	betaOptions: BetaOptions;
+
+	/**
+	 * @internal
+	 */
+	internalOptions: InternalOptions;
+}
+
+/**
+ * @public
+ */
+export declare class Client {
+	public connect(): void;
+
+	/**
+	 * @internal
+	 */
+	public debug(options: InternalOptions): void;
+}
+
+/**
+ * @internal
+ */
+export declare function createInternalClient(options: InternalOptions): Client;
+
+/** @beta */
+export declare const betaVersion: string;
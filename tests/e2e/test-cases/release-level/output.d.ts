@@ -0,0 +1,22 @@
+/**
+ * @beta
+ */
+export interface BetaOptions {
+	experimental: boolean;
+}
+export interface PublicOptions {
+	name: string;
+}
+export interface Service {
+	options: PublicOptions;
+}
+/**
+ * @public
+ */
+export declare class Client {
+	connect(): void;
+}
+/** @beta */
+export declare const betaVersion: string;
+
+export {};
@@ -0,0 +1,19 @@
+interface A {
+	a: string;
+}
+
+interface B {
+	b: string;
+}
+
+interface C {
+	c: string;
+}
+
+declare const usedByType: A, unused: B;
+
+declare const exported: A, referenced: C;
+
+export type Referenced = typeof usedByType | typeof referenced;
+
+export { exported };
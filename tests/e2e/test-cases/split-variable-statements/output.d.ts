@@ -0,0 +1,12 @@
+export interface A {
+	a: string;
+}
+export interface C {
+	c: string;
+}
+declare const usedByType: A;
+export declare const exported: A;
+declare const referenced: C;
+export type Referenced = typeof usedByType | typeof referenced;
+
+export {};
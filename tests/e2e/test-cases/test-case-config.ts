@@ -1,8 +1,42 @@
-import { EntryPointConfig } from '../../../src/bundle-generator';
+import { CommonChunkOptions, EntryPointConfig } from '../../../src/bundle-generator';
 
-export type TestCaseConfig = Pick<
+/**
+ * Output of the input file is compared with `output.d.ts` file
+ * and its API report is compared with `api-report.output.d.ts` file (if it exists).
+ */
+export interface TestCaseConfig extends Pick<
 	EntryPointConfig,
 	| 'libraries'
 	| 'failOnClass'
 	| 'output'
->;
+	| 'preferredConfigPath'
+	| 'plugins'
+> {
+	/**
+	 * Files of the test case which should be compiled as entries together with the input file
+	 * (by their names or along with their own tsconfig files).
+	 * Output of an entry is compared with `<file name>.output.d.ts` file.
+	 */
+	additionalEntries?: (string | AdditionalEntryConfig)[];
+
+	/**
+	 * If `true`, entries are generated from `exports` field of `package.json` file of the test case
+	 * (the input file must be one of them).
+	 * Output of an entry other than the input file is compared with `<file name>.output.d.ts` file.
+	 */
+	packageExports?: boolean;
+
+	/**
+	 * Output of the common chunk is compared with `common-chunk.output.d.ts` file.
+	 */
+	commonChunk?: CommonChunkOptions;
+}
+
+export interface AdditionalEntryConfig {
+	fileName: string;
+
+	/**
+	 * Overrides `preferredConfigPath` of the test case for the entry.
+	 */
+	preferredConfigPath?: string;
+}
@@ -0,0 +1,48 @@
+import * as assert from 'assert';
+import * as path from 'path';
+
+import { formatBundleStats, generateDtsBundles, BundleFileStats, BundleStats } from '../../src/bundle-generator';
+import { fixPath } from '../../src/helpers/fix-path';
+
+const testCasesDir = path.resolve(__dirname, '../e2e/test-cases');
+
+describe('stats', () => {
+	it('should return composition statistics', () => {
+		const testCaseDir = path.join(testCasesDir, 'mixed-imports');
+		const [bundle] = generateDtsBundles([{ filePath: path.join(testCaseDir, 'input.ts') }], { stats: true });
+		const stats = bundle.stats as BundleStats;
+
+		assert.strictEqual(stats.bytes, Buffer.byteLength(bundle.dts));
+		assert.deepStrictEqual(
+			stats.files.map((file: BundleFileStats) => [file.fileName, file.statements]),
+			[[fixPath(path.join(testCaseDir, 'input.ts')), 1]]
+		);
+		assert.deepStrictEqual(stats.inlinedLibraries, []);
+		assert.deepStrictEqual(stats.imports, { 'package-with-default-export': 5, 'package-with-default-export/namespace': 3 });
+		assert.deepStrictEqual(stats.typesReferences, []);
+	});
+
+	it('should return statistics of inlined libraries', () => {
+		const testCaseDir = path.join(testCasesDir, 'inline-from-deps');
+		const [bundle] = generateDtsBundles(
+			[{ filePath: path.join(testCaseDir, 'input.ts'), libraries: { inlinedLibraries: ['fake-package'] }, output: { noBanner: true } }],
+			{ stats: true }
+		);
+
+		// stats are printed as JSON by the CLI so they must survive serialization
+		const stats = JSON.parse(JSON.stringify(bundle.stats)) as BundleStats;
+		assert.deepStrictEqual(
+			stats.files.map((file: BundleFileStats) => [file.fileName, file.statements, file.bytes]),
+			[
+				[fixPath(path.join(testCaseDir, 'input.ts')), 2, 98],
+				[fixPath(path.join(testCasesDir, 'node_modules/fake-package/index.d.ts')), 2, 65],
+				[fixPath(path.join(testCasesDir, 'node_modules/fake-package/some-class.d.ts')), 1, 62],
+			]
+		);
+
+		// statements of all files of the library are counted
+		assert.deepStrictEqual(stats.inlinedLibraries, [{ libraryName: 'fake-package', statements: 3, bytes: 127 }]);
+		assert.deepStrictEqual(stats.imports, {});
+		assert.ok(formatBundleStats(stats).indexOf('Inlined libraries:\n  fake-package: 3 statement(s), 127 bytes') !== -1);
+	});
+});
@@ -0,0 +1,42 @@
+import * as assert from 'assert';
+import * as path from 'path';
+
+import { getBundlesDiff, ApiChange } from '../../src/bundles-diff';
+
+describe('getBundlesDiff', () => {
+	const fixturesDir = path.resolve(__dirname, 'bundles-diff');
+
+	it('should classify changes of exports', () => {
+		const diff = getBundlesDiff(path.join(fixturesDir, 'old.d.ts'), path.join(fixturesDir, 'new.d.ts'));
+		const changes = diff.changes.map((change: ApiChange) => `${change.isBreaking ? '!' : '+'} ${change.kind} ${change.path}`);
+
+		assert.strictEqual(diff.hasBreakingChanges, true);
+		assert.deepStrictEqual(changes.sort(), [
+			'! enum-member-changed Color.Green',
+			'! enum-member-removed Color.Blue',
+			'! export-removed destroyWidget',
+			'! parameter-type-narrowed Widget.render(target)',
+			'! required-property-added Options.theme',
+			'! type-changed WidgetId',
+			'+ enum-member-added Color.Yellow',
+			'+ export-added version',
+			'+ optional-parameter-added createWidget(parent)',
+			'+ parameter-type-widened createWidget(mode)',
+			'+ property-added Widget.id',
+		]);
+	});
+
+	it('should compare literal and primitive types by their assignability', () => {
+		const diff = getBundlesDiff(path.join(fixturesDir, 'literal-types-old.d.ts'), path.join(fixturesDir, 'literal-types-new.d.ts'));
+		const changes = diff.changes.map((change: ApiChange) => `${change.isBreaking ? '!' : '+'} ${change.kind} ${change.path}`);
+
+		// setPoint's parameter has the same type written differently
+		assert.deepStrictEqual(changes.sort(), [
+			'! parameter-type-narrowed setName(name)',
+			'! parameter-type-narrowed setSize(size)',
+			'! return-type-widened getMode',
+			'+ parameter-type-widened setMode(mode)',
+			'+ return-type-narrowed getName',
+		]);
+	});
+});
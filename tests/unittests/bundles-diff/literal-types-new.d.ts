@@ -0,0 +1,8 @@
+export declare function setName(name: 'a' | 'b'): void;
+export declare function setSize(size: 1 | 2): void;
+export declare function setMode(mode: string): void;
+export declare function setPoint(point: { y: number; x: number }): void;
+export declare function getName(): 'a';
+export declare function getMode(): string;
+
+export {};
@@ -0,0 +1,8 @@
+export declare function setName(name: string): void;
+export declare function setSize(size: number): void;
+export declare function setMode(mode: 'light'): void;
+export declare function setPoint(point: { x: number; y: number }): void;
+export declare function getName(): string;
+export declare function getMode(): 'light' | 'dark';
+
+export {};
@@ -0,0 +1,22 @@
+export declare enum Color {
+	Red = 0,
+	Green = 2,
+	Yellow = 3
+}
+export interface Options {
+	name: string;
+	size?: number;
+	color: Color;
+	theme: string;
+}
+export declare class Widget {
+	readonly options: Options;
+	readonly id: WidgetId;
+	constructor(options: Options);
+	render(target: string): void;
+}
+export declare function createWidget(options: Options, mode: 'light' | 'dark' | 'auto', parent?: Widget): Widget;
+export declare type WidgetId = string | number;
+export declare const version: string;
+
+export {};
@@ -0,0 +1,20 @@
+export declare enum Color {
+	Red = 0,
+	Green = 1,
+	Blue = 2
+}
+export interface Options {
+	name: string;
+	size?: number;
+	color: Color;
+}
+export declare class Widget {
+	readonly options: Options;
+	constructor(options: Options);
+	render(target: string | number): void;
+}
+export declare function createWidget(options: Options, mode: 'light' | 'dark'): Widget;
+export declare function destroyWidget(widget: Widget): void;
+export declare type WidgetId = string;
+
+export {};
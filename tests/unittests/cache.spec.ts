@@ -0,0 +1,89 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { generateDtsBundle, generateDtsBundles, BundleDiagnostic } from '../../src/bundle-generator';
+import { createFileSystemCache, getCacheKey } from '../../src/cache';
+
+import { silentLogger } from './helpers/fixtures';
+
+describe('cache', () => {
+	let tmpDir: string;
+	let dependencyFile: string;
+
+	beforeEach(() => {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dts-bundle-generator-cache-'));
+		dependencyFile = path.join(tmpDir, 'input.ts');
+		fs.writeFileSync(dependencyFile, 'export const a = 1;');
+	});
+
+	afterEach(() => {
+		fs.rmdirSync(tmpDir, { recursive: true });
+	});
+
+	it('should return stored values between runs', () => {
+		const cacheDir = path.join(tmpDir, 'cache');
+		const key = getCacheKey('value', { option: true });
+
+		assert.strictEqual(createFileSystemCache(cacheDir).get(key), null);
+
+		createFileSystemCache(cacheDir).set(key, { dts: 'export {};' }, [dependencyFile]);
+
+		assert.deepStrictEqual(createFileSystemCache(cacheDir).get(key), { dts: 'export {};' });
+		assert.strictEqual(createFileSystemCache(cacheDir).get(getCacheKey('value', { option: false })), null);
+	});
+
+	it('should not return values if their dependencies are changed', () => {
+		const cacheDir = path.join(tmpDir, 'cache');
+		const key = getCacheKey('value');
+
+		createFileSystemCache(cacheDir).set(key, 1, [dependencyFile]);
+		fs.writeFileSync(dependencyFile, 'export const a = 2;');
+		assert.strictEqual(createFileSystemCache(cacheDir).get(key), null);
+
+		createFileSystemCache(cacheDir).set(key, 2, [dependencyFile]);
+		fs.unlinkSync(dependencyFile);
+		assert.strictEqual(createFileSystemCache(cacheDir).get(key), null);
+	});
+
+	describe('generating bundles', () => {
+		let cwd: string;
+
+		beforeEach(() => {
+			cwd = process.cwd();
+			process.chdir(tmpDir);
+
+			fs.writeFileSync('tsconfig.json', JSON.stringify({ compilerOptions: { strict: true, types: [] } }));
+			fs.writeFileSync('index.ts', `import { Options } from './options';\nexport declare function create(options: Options): void;\n`);
+			fs.writeFileSync('options.ts', 'export interface Options { name: string; }\n');
+		});
+
+		afterEach(() => {
+			process.chdir(cwd);
+		});
+
+		it('should regenerate a bundle with a relative entry path if an imported file is changed', () => {
+			const generate = () => generateDtsBundle([{ filePath: 'index.ts' }], { cacheDir: 'cache', logger: silentLogger })[0];
+
+			assert.ok(generate().indexOf('name: string;') !== -1);
+
+			fs.writeFileSync('options.ts', 'export interface Options { name: string; size: number; }\n');
+			assert.ok(generate().indexOf('size: number;') !== -1);
+		});
+
+		it('should return diagnostics of cached declarations', () => {
+			fs.writeFileSync('options.ts', 'export interface Options { name: strin; }\n');
+
+			// the output options differ so the bundle is generated again, but declarations are taken from the cache
+			const generate = (noBanner: boolean) => generateDtsBundles(
+				[{ filePath: 'index.ts', output: { noBanner } }],
+				{ cacheDir: 'cache', logger: silentLogger, diagnostics: { errors: 'warn' } }
+			)[0].diagnostics.map((diagnostic: BundleDiagnostic) => diagnostic.code);
+
+			const codes = generate(false);
+			assert.ok(codes.indexOf(2304) !== -1, `Cannot find name 'strin' is expected, got ${codes}`);
+			assert.deepStrictEqual(generate(true), codes);
+		});
+	});
+});
@@ -13,6 +13,7 @@ interface TestInterface {
 	requiredStringProp: string;
 	testArray?: TestObj[];
 	stringArray?: string[];
+	functionProp?(): void;
 }
 
 const testSchema: SchemeDescriptor<TestInterface> = {
@@ -24,6 +25,7 @@ const testSchema: SchemeDescriptor<TestInterface> = {
 		foo: schemaPrimitiveValues.requiredString,
 	}],
 	stringArray: [schemaPrimitiveValues.string],
+	functionProp: schemaPrimitiveValues.function,
 };
 
 function formatErrors(errors: string[]): string {
@@ -147,6 +149,29 @@ describe('checkSchemaMatch', () => {
 		assert.strictEqual(checkSchemaMatch(obj, testSchema, errors), false, formatErrors(errors));
 	});
 
+	it('should return true if function property is a function', () => {
+		const obj: TestInterface = {
+			requiredBooleanProp: false,
+			requiredStringProp: 'test',
+			functionProp: () => undefined,
+		};
+
+		const errors: string[] = [];
+		assert.strictEqual(checkSchemaMatch(obj, testSchema, errors), true, formatErrors(errors));
+	});
+
+	it('should return false if function property is not a function', () => {
+		const obj = {
+			requiredBooleanProp: false,
+			requiredStringProp: 'test',
+			functionProp: 'function',
+		};
+
+		const errors: string[] = [];
+		assert.strictEqual(checkSchemaMatch(obj, testSchema, errors), false, formatErrors(errors));
+		assert.deepStrictEqual(errors, ['Type of values for "functionProp" is not the same, expected=function, actual=string']);
+	});
+
 	it('should return false if root object is undefined', () => {
 		const errors: string[] = [];
 		assert.strictEqual(checkSchemaMatch(undefined, testSchema, errors), false, formatErrors(errors));
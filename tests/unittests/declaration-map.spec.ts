@@ -0,0 +1,92 @@
+import * as assert from 'assert';
+import * as ts from 'typescript';
+
+import { generateDtsBundles } from '../../src/bundle-generator';
+import { createCompilerHost } from '../../src/file-system';
+import { getOriginalPositionGetter, FilePosition, RawSourceMap } from '../../src/helpers/source-map';
+
+import { createInMemoryProject, silentLogger } from './helpers/fixtures';
+
+describe('declarationMap', () => {
+	const { projectDir, fileSystem } = createInMemoryProject('declaration-map', {
+		'index.ts': [
+			`import { Options } from './options';`,
+			`import { Logger } from './lib/logger';`,
+			'',
+			'export declare function create(options: Options, logger: Logger): void;',
+			'',
+		].join('\n'),
+		'options.ts': [
+			'// options of the factory',
+			'export interface Options {',
+			'\tname: string;',
+			'}',
+			'',
+		].join('\n'),
+		// the library is built by tsc into lib folder (see below)
+		'lib-src/logger.ts': [
+			'export interface Logger {',
+			'',
+			'\tlog(message: string): void;',
+			'}',
+			'',
+		].join('\n'),
+	});
+
+	before(() => {
+		const compilerOptions: ts.CompilerOptions = {
+			declaration: true,
+			declarationMap: true,
+			emitDeclarationOnly: true,
+			rootDir: `${projectDir}/lib-src`,
+			outDir: `${projectDir}/lib`,
+			types: [],
+		};
+
+		const host = createCompilerHost(compilerOptions, fileSystem);
+		host.writeFile = (fileName: string, data: string) => fileSystem.writeFile(fileName, data);
+
+		const emitResult = ts.createProgram([`${projectDir}/lib-src/logger.ts`], compilerOptions, host).emit();
+		assert.deepStrictEqual(emitResult.diagnostics, []);
+		assert.ok(fileSystem.fileExists(`${projectDir}/lib/logger.d.ts.map`));
+	});
+
+	it('should map declarations of the output to their sources', () => {
+		const [bundle] = generateDtsBundles(
+			[{ filePath: `${projectDir}/index.ts`, output: { noBanner: true, declarationMap: true } }],
+			{ fileSystem, logger: silentLogger }
+		);
+
+		const outputLines = bundle.dts.split('\n');
+		const getOriginalPosition = getOriginalPositionGetter(bundle.declarationMap as RawSourceMap, `${projectDir}/index.d.ts.map`);
+		const getNameOriginalPosition = (name: string, linePrefix: string): FilePosition | null => {
+			const line = outputLines.findIndex((lineText: string) => lineText.startsWith(linePrefix));
+			assert.notStrictEqual(line, -1, `Cannot find "${linePrefix}" in the output:\n${bundle.dts}`);
+			return getOriginalPosition(line, outputLines[line].indexOf(name));
+		};
+
+		// positions are zero-based
+		assert.deepStrictEqual(
+			getNameOriginalPosition('Options', 'export interface Options'),
+			{ fileName: `${projectDir}/options.ts`, line: 1, character: 17 }
+		);
+		assert.deepStrictEqual(
+			getNameOriginalPosition('name', '\tname:'),
+			{ fileName: `${projectDir}/options.ts`, line: 2, character: 1 }
+		);
+		assert.deepStrictEqual(
+			getNameOriginalPosition('create', 'export declare function create'),
+			{ fileName: `${projectDir}/index.ts`, line: 3, character: 24 }
+		);
+
+		// the declaration is chained through the declaration map emitted by tsc
+		assert.deepStrictEqual(
+			getNameOriginalPosition('Logger', 'export interface Logger'),
+			{ fileName: `${projectDir}/lib-src/logger.ts`, line: 0, character: 17 }
+		);
+		assert.deepStrictEqual(
+			getNameOriginalPosition('log', '\tlog('),
+			{ fileName: `${projectDir}/lib-src/logger.ts`, line: 2, character: 1 }
+		);
+	});
+});
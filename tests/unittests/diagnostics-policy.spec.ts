@@ -0,0 +1,30 @@
+import * as assert from 'assert';
+
+import { generateDtsBundles, BundleDiagnostic } from '../../src/bundle-generator';
+
+import { createInMemoryProject, silentLogger } from './helpers/fixtures';
+
+describe('diagnostics policy', () => {
+	const { projectDir, fileSystem, getFilePath } = createInMemoryProject('with-errors', {
+		'index.ts': `export const value: number = 'string';\n`,
+	});
+
+	const entries = [{ filePath: getFilePath('index.ts') }];
+
+	it('should throw an error if the compilation has errors by default', () => {
+		assert.throws(() => generateDtsBundles(entries, { fileSystem, logger: silentLogger }), /Compiled with errors/);
+	});
+
+	it('should return errors as diagnostics if they are allowed', () => {
+		const [bundle] = generateDtsBundles(entries, { fileSystem, logger: silentLogger, diagnostics: { errors: 'warn' } });
+		assert.deepStrictEqual(bundle.diagnostics.map((diagnostic: BundleDiagnostic) => diagnostic.code), [2322]);
+	});
+
+	it('should ignore diagnostics by their codes and files', () => {
+		const [bundleWithoutCodes] = generateDtsBundles(entries, { fileSystem, logger: silentLogger, diagnostics: { ignoreCodes: [2322] } });
+		assert.deepStrictEqual(bundleWithoutCodes.diagnostics, []);
+
+		const [bundleWithoutFiles] = generateDtsBundles(entries, { fileSystem, logger: silentLogger, diagnostics: { ignoreFiles: [projectDir] } });
+		assert.deepStrictEqual(bundleWithoutFiles.diagnostics, []);
+	});
+});
@@ -0,0 +1,59 @@
+import * as assert from 'assert';
+import * as path from 'path';
+
+import { createDiagnosticsCollector } from '../../src/diagnostics-report';
+import { LogMessage } from '../../src/logger';
+
+describe('diagnostics report', () => {
+	const fileName = path.join(process.cwd(), 'src/index.ts');
+
+	const messages: LogMessage[] = [
+		{ level: 'normal', message: 'Compiling input files...' },
+		{
+			level: 'error',
+			message: 'src/index.ts(2,5): error TS2322: ...',
+			code: 'compiler-diagnostics',
+			diagnostics: [{ category: 'error', code: 2322, message: 'Type \'string\' is not assignable to type \'number\'.', location: { fileName, line: 2, column: 5 } }],
+		},
+		{ level: 'warning', message: 'Cannot rename "Options"', code: 'cannot-rename-export', entryFilePath: fileName },
+	];
+
+	it('should collect diagnostics and warnings from logged messages', () => {
+		const loggedMessages: LogMessage[] = [];
+		const collector = createDiagnosticsCollector({ log: (message: LogMessage) => loggedMessages.push(message) });
+		messages.forEach(collector.log);
+
+		assert.deepStrictEqual(loggedMessages, messages);
+		assert.deepStrictEqual(collector.getItems(), [
+			{
+				severity: 'error',
+				code: 'TS2322',
+				message: 'Type \'string\' is not assignable to type \'number\'.',
+				location: { fileName, line: 2, column: 5 },
+				entryFilePath: undefined,
+			},
+			{
+				severity: 'warning',
+				code: 'cannot-rename-export',
+				message: 'Cannot rename "Options"',
+				location: undefined,
+				entryFilePath: fileName,
+			},
+		]);
+	});
+
+	it('should format collected items as SARIF log', () => {
+		const collector = createDiagnosticsCollector();
+		messages.forEach(collector.log);
+
+		const sarifLog = JSON.parse(collector.getReport('sarif'));
+		assert.strictEqual(sarifLog.version, '2.1.0');
+		assert.deepStrictEqual(sarifLog.runs[0].tool.driver.rules, [{ id: 'TS2322' }, { id: 'cannot-rename-export' }]);
+		assert.deepStrictEqual(sarifLog.runs[0].results[0], {
+			level: 'error',
+			ruleId: 'TS2322',
+			message: { text: 'Type \'string\' is not assignable to type \'number\'.' },
+			locations: [{ physicalLocation: { artifactLocation: { uri: 'src/index.ts' }, region: { startLine: 2, startColumn: 5 } } }],
+		});
+	});
+});
@@ -0,0 +1,47 @@
+import * as assert from 'assert';
+import * as path from 'path';
+
+import { generateDtsBundles, DeclarationExplanation, DeclarationUsageChainItem } from '../../src/bundle-generator';
+import { fixPath } from '../../src/helpers/fix-path';
+
+import { createInMemoryProject, silentLogger } from './helpers/fixtures';
+
+const testCasesDir = path.resolve(__dirname, '../e2e/test-cases');
+
+describe('explain', () => {
+	it('should explain why a declaration is a part of the bundle', () => {
+		const testCaseDir = path.join(testCasesDir, 'mixed-imports');
+		const [bundle] = generateDtsBundles([{ filePath: path.join(testCaseDir, 'input.ts') }], { explain: 'NonDefaultInterface' });
+
+		const [explanation] = bundle.explanations as DeclarationExplanation[];
+		assert.deepStrictEqual(explanation.usageChain && explanation.usageChain.map((item: DeclarationUsageChainItem) => item.name), ['ExportedInterface', 'NonDefaultInterface']);
+		assert.strictEqual(explanation.exportedName, 'ExportedInterface');
+		assert.deepStrictEqual(explanation.location, { fileName: fixPath(path.join(testCasesDir, 'node_modules/package-with-default-export/index.d.ts')), line: 4, column: 18 });
+		assert.strictEqual(explanation.module.type, 'imported');
+	});
+
+	describe('declarations of local files', () => {
+		const { fileSystem, getFilePath } = createInMemoryProject('explain', {
+			'index.ts': `import { Options } from './options';\nexport declare function create(options: Options): void;\n`,
+			'options.ts': `export interface Options {}\nexport interface Unused {}\n`,
+		});
+
+		const explain = (name: string) => {
+			const [bundle] = generateDtsBundles([{ filePath: getFilePath('index.ts') }], { fileSystem, logger: silentLogger, explain: name });
+			return bundle.explanations as DeclarationExplanation[];
+		};
+
+		it('should explain a declaration which is not used by any export', () => {
+			const [explanation] = explain('Unused');
+
+			assert.strictEqual(explanation.usageChain, null);
+			assert.strictEqual(explanation.exportedName, null);
+			assert.deepStrictEqual(explanation.location, { fileName: getFilePath('options.ts'), line: 2, column: 18 });
+			assert.strictEqual(explanation.module.type, 'inlined');
+		});
+
+		it('should return no explanations if there is no declaration with the name', () => {
+			assert.deepStrictEqual(explain('Missing'), []);
+		});
+	});
+});
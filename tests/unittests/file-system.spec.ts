@@ -0,0 +1,26 @@
+import * as assert from 'assert';
+
+import * as ts from 'typescript';
+
+import { createInMemoryFileSystem, generateDtsBundles } from '../../src/bundle-generator';
+
+import { createInMemoryProject } from './helpers/fixtures';
+
+describe('createInMemoryFileSystem', () => {
+	it('should compile files of an in-memory file system', () => {
+		const { fileSystem, getFilePath } = createInMemoryProject('file-system', {
+			'index.ts': `import { Options } from './options';\nexport function create(options: Options): void {}\n`,
+			'options.ts': `export interface Options {\n\tname: string;\n}\n`,
+		});
+
+		const [bundle] = generateDtsBundles([{ filePath: getFilePath('index.ts'), output: { noBanner: true } }], { fileSystem });
+
+		assert.strictEqual(bundle.dts, 'export interface Options {\n\tname: string;\n}\nexport declare function create(options: Options): void;\n\nexport {};\n');
+		assert.deepStrictEqual(bundle.inlinedFiles, [getFilePath('index.ts'), getFilePath('options.ts')]);
+	});
+
+	it('should inherit case sensitivity of names of files from the base file system', () => {
+		assert.strictEqual(createInMemoryFileSystem({}, { ...ts.sys, useCaseSensitiveFileNames: false }).useCaseSensitiveFileNames, false);
+		assert.strictEqual(createInMemoryFileSystem({}, { ...ts.sys, useCaseSensitiveFileNames: true }).useCaseSensitiveFileNames, true);
+	});
+});
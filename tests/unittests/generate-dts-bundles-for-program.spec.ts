@@ -0,0 +1,84 @@
+import * as assert from 'assert';
+import * as ts from 'typescript';
+
+import { generateDtsBundlesForProgram, BundleDiagnostic } from '../../src/bundle-generator';
+import { fixPath } from '../../src/helpers/fix-path';
+
+import { silentLogger } from './helpers/fixtures';
+
+// files don't exist on the disk, but their directory must exist to resolve modules
+const virtualDir = fixPath(__dirname);
+const compilerOptions: ts.CompilerOptions = { types: [] };
+
+const expectedDts = 'export interface Options {\n\tname: string;\n}\nexport declare function create(options: Options): void;\n\nexport {};\n';
+
+function createVirtualFiles(indexContent: string): Map<string, string> {
+	return new Map<string, string>([
+		[`${virtualDir}/virtual-index.d.ts`, indexContent],
+		[`${virtualDir}/virtual-options.d.ts`, `export interface Options {\n\tname: string;\n}\n`],
+	]);
+}
+
+function createVirtualProgram(files: Map<string, string>): ts.Program {
+	const host = ts.createCompilerHost(compilerOptions);
+	const originalGetSourceFile = host.getSourceFile;
+	host.fileExists = (fileName: string) => files.has(fileName) || ts.sys.fileExists(fileName);
+	host.readFile = (fileName: string) => files.has(fileName) ? files.get(fileName) : ts.sys.readFile(fileName);
+	host.getSourceFile = (fileName: string, languageVersion: ts.ScriptTarget) => {
+		const content = files.get(fileName);
+		return content !== undefined ? ts.createSourceFile(fileName, content, languageVersion) : originalGetSourceFile(fileName, languageVersion);
+	};
+
+	return ts.createProgram([`${virtualDir}/virtual-index.d.ts`], compilerOptions, host);
+}
+
+function createVirtualLanguageService(files: Map<string, string>): ts.LanguageService {
+	const readFile = (fileName: string) => files.has(fileName) ? files.get(fileName) : ts.sys.readFile(fileName);
+	const host: ts.LanguageServiceHost = {
+		getScriptFileNames: () => [`${virtualDir}/virtual-index.d.ts`],
+		getScriptVersion: () => '0',
+		getScriptSnapshot: (fileName: string) => {
+			const content = readFile(fileName);
+			return content !== undefined ? ts.ScriptSnapshot.fromString(content) : undefined;
+		},
+		getCurrentDirectory: () => virtualDir,
+		getCompilationSettings: () => compilerOptions,
+		getDefaultLibFileName: ts.getDefaultLibFilePath,
+		fileExists: (fileName: string) => files.has(fileName) || ts.sys.fileExists(fileName),
+		readFile,
+	};
+
+	return ts.createLanguageService(host);
+}
+
+describe('generateDtsBundlesForProgram', () => {
+	const files = createVirtualFiles(`import { Options } from './virtual-options';\nexport declare function create(options: Options): void;\n`);
+
+	it('should generate bundles from a provided program', () => {
+		// an entry can be specified by its source file as well
+		const [bundle] = generateDtsBundlesForProgram(createVirtualProgram(files), [{ filePath: `${virtualDir}/virtual-index.ts`, output: { noBanner: true } }]);
+
+		assert.strictEqual(bundle.dts, expectedDts);
+		assert.deepStrictEqual(bundle.inlinedFiles, [`${virtualDir}/virtual-index.d.ts`, `${virtualDir}/virtual-options.d.ts`]);
+	});
+
+	it('should generate bundles from the program of a provided language service', () => {
+		const languageService = createVirtualLanguageService(files);
+		const [bundle] = generateDtsBundlesForProgram(languageService, [{ filePath: `${virtualDir}/virtual-index.d.ts`, output: { noBanner: true } }]);
+
+		assert.strictEqual(bundle.dts, expectedDts);
+		assert.deepStrictEqual(bundle.inlinedFiles, [`${virtualDir}/virtual-index.d.ts`, `${virtualDir}/virtual-options.d.ts`]);
+	});
+
+	it('should check diagnostics of the program according to the policy', () => {
+		const program = createVirtualProgram(
+			createVirtualFiles(`import { Options } from './virtual-options';\nexport declare function create(options: Options<string>): void;\n`)
+		);
+		const entries = [{ filePath: `${virtualDir}/virtual-index.d.ts` }];
+
+		assert.throws(() => generateDtsBundlesForProgram(program, entries, { logger: silentLogger }), /Compiled with errors/);
+
+		const [bundle] = generateDtsBundlesForProgram(program, entries, { logger: silentLogger, diagnostics: { errors: 'warn' } });
+		assert.deepStrictEqual(bundle.diagnostics.map((diagnostic: BundleDiagnostic) => diagnostic.code), [2315]);
+	});
+});
@@ -0,0 +1,36 @@
+import * as assert from 'assert';
+import * as path from 'path';
+
+import { generateDtsBundles } from '../../src/bundle-generator';
+import { fixPath } from '../../src/helpers/fix-path';
+
+const testCasesDir = path.resolve(__dirname, '../e2e/test-cases');
+
+describe('generateDtsBundles', () => {
+	it('should return inlined files and renamed exports', () => {
+		const testCaseDir = path.join(testCasesDir, 'names-collision');
+		const [bundle] = generateDtsBundles([{ filePath: path.join(testCaseDir, 'input.ts'), output: { noBanner: true } }]);
+
+		assert.deepStrictEqual(
+			bundle.inlinedFiles,
+			['a.ts', 'b.ts', 'c.ts', 'input.ts'].map((fileName: string) => fixPath(path.join(testCaseDir, fileName)))
+		);
+		assert.deepStrictEqual(bundle.renamedExports, [{ localName: 'Options$3', exportedName: 'COptions' }]);
+		assert.deepStrictEqual(bundle.imports, {});
+		assert.deepStrictEqual(bundle.typesReferences, []);
+		assert.deepStrictEqual(bundle.diagnostics, []);
+		assert.strictEqual(typeof bundle.apiReport, 'string');
+	});
+
+	it('should return imports of libraries', () => {
+		const [bundle] = generateDtsBundles([{ filePath: path.join(testCasesDir, 'mixed-imports/input.ts') }]);
+
+		assert.deepStrictEqual(bundle.imports['package-with-default-export'], {
+			defaultImports: ['DefaultClass'],
+			starImports: ['wholePackage'],
+			namedImports: ['NonDefaultInterface', 'NonDefaultInterface as RenamedInterface', 'default as RenamedDefaultClass'],
+			requireImports: [],
+		});
+		assert.deepStrictEqual(bundle.imports['package-with-default-export/namespace'].defaultImports, ['defaultImportedNamespace', 'defaultImportedNamespace2']);
+	});
+});
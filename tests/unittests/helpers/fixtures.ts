@@ -0,0 +1,42 @@
+import * as path from 'path';
+
+import { createInMemoryFileSystem, FileSystem, Logger } from '../../../src/bundle-generator';
+import { fixPath } from '../../../src/helpers/fix-path';
+
+export interface InMemoryProject {
+	/**
+	 * Absolute path of the project's directory (it doesn't exist on the disk).
+	 */
+	projectDir: string;
+
+	fileSystem: FileSystem;
+
+	/**
+	 * Returns absolute path of a file of the project.
+	 */
+	getFilePath(fileName: string): string;
+}
+
+export const silentLogger: Logger = { log: () => undefined };
+
+const defaultTsConfig = JSON.stringify({ compilerOptions: { strict: true, types: [] } });
+
+/**
+ * Creates a project in an in-memory file system.
+ * Names of files are relative to the project's directory, `tsconfig.json` with strict mode is added if there is no one.
+ */
+export function createInMemoryProject(name: string, files: Record<string, string>): InMemoryProject {
+	const projectDir = fixPath(path.resolve(__dirname, '..', `in-memory-project-${name}`));
+	const getFilePath = (fileName: string) => `${projectDir}/${fileName}`;
+
+	const absoluteFiles: Record<string, string> = { [getFilePath('tsconfig.json')]: defaultTsConfig };
+	for (const fileName of Object.keys(files)) {
+		absoluteFiles[getFilePath(fileName)] = files[fileName];
+	}
+
+	return {
+		projectDir,
+		fileSystem: createInMemoryFileSystem(absoluteFiles),
+		getFilePath,
+	};
+}
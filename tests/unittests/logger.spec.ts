@@ -0,0 +1,56 @@
+import * as assert from 'assert';
+import * as path from 'path';
+
+import { createConsoleLogger, createJsonLinesLogger, generateDtsBundles, LogMessage } from '../../src/bundle-generator';
+
+const testCasesDir = path.resolve(__dirname, '../e2e/test-cases');
+
+describe('createJsonLinesLogger', () => {
+	it('should log messages via the provided logger', () => {
+		const filePath = path.join(testCasesDir, 'names-collision/input.ts');
+		const lines: string[] = [];
+		generateDtsBundles([{ filePath }], { logger: createJsonLinesLogger({ level: 'verbose', write: (line: string) => lines.push(line) }) });
+
+		const messages = lines.map((line: string) => JSON.parse(line) as LogMessage);
+		assert.ok(messages.some((message: LogMessage) => message.level === 'normal' && message.message === `Processing ${filePath}`));
+		assert.ok(messages.some((message: LogMessage) => message.level === 'verbose' && message.entryFilePath === filePath));
+		assert.ok(messages.every((message: LogMessage) => message.entryFilePath === undefined || message.entryFilePath === filePath));
+	});
+});
+
+describe('createConsoleLogger', () => {
+	const originalIsTTY = process.stdout.isTTY;
+	const originalConsoleError = console.error;
+	let printedErrors: string[];
+
+	beforeEach(() => {
+		printedErrors = [];
+		console.error = (message: string) => printedErrors.push(message);
+	});
+
+	afterEach(() => {
+		console.error = originalConsoleError;
+		process.stdout.isTTY = originalIsTTY;
+	});
+
+	it('should not color messages by default if stdout is not a TTY', () => {
+		process.stdout.isTTY = false;
+		createConsoleLogger().log({ level: 'error', message: 'Error message' });
+
+		assert.deepStrictEqual(printedErrors, ['Error message']);
+	});
+
+	it('should color messages by default if stdout is a TTY', () => {
+		process.stdout.isTTY = true;
+		createConsoleLogger().log({ level: 'error', message: 'Error message' });
+
+		assert.deepStrictEqual(printedErrors, ['\x1b[0;31mError message\x1b[0m']);
+	});
+
+	it('should color messages if it is specified regardless of stdout', () => {
+		process.stdout.isTTY = false;
+		createConsoleLogger({ colors: true }).log({ level: 'error', message: 'Error message' });
+
+		assert.deepStrictEqual(printedErrors, ['\x1b[0;31mError message\x1b[0m']);
+	});
+});
@@ -0,0 +1,33 @@
+import * as assert from 'assert';
+
+import { getReferencedProjects } from '../../src/project-references';
+
+import { createInMemoryProject } from './helpers/fixtures';
+
+describe('getReferencedProjects', () => {
+	it('should resolve outputs of referenced projects via the provided file system', () => {
+		const libConfig = { compilerOptions: { composite: true, declaration: true, rootDir: 'src', outDir: 'dist', types: [] }, files: ['src/index.ts', 'src/helpers.ts'] };
+
+		const { fileSystem, getFilePath } = createInMemoryProject('project-references', {
+			'tsconfig.json': JSON.stringify({ compilerOptions: { composite: true, types: [] }, files: ['index.ts'], references: [{ path: './lib' }] }),
+			'index.ts': `export * from 'lib';\n`,
+			'lib/tsconfig.json': JSON.stringify(libConfig),
+			'lib/package.json': JSON.stringify({ name: 'lib', types: 'dist/index.d.ts' }),
+			'lib/src/index.ts': `export interface Options {}\n`,
+			'lib/src/helpers.ts': `export declare function helper(): void;\n`,
+		});
+
+		const [project, ...otherProjects] = getReferencedProjects([{ path: getFilePath('lib') }], getFilePath('tsconfig.json'), fileSystem);
+
+		assert.deepStrictEqual(otherProjects, []);
+		assert.strictEqual(project.packageName, 'lib');
+		assert.strictEqual(project.packageTypesPath, getFilePath('lib/dist/index.d.ts'));
+		assert.deepStrictEqual(
+			Array.from(project.outputsToSources.entries()).sort(),
+			[
+				[getFilePath('lib/dist/helpers.d.ts'), getFilePath('lib/src/helpers.ts')],
+				[getFilePath('lib/dist/index.d.ts'), getFilePath('lib/src/index.ts')],
+			]
+		);
+	});
+});
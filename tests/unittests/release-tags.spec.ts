@@ -0,0 +1,24 @@
+import * as assert from 'assert';
+
+import { generateDtsBundle } from '../../src/bundle-generator';
+
+import { createInMemoryProject, silentLogger } from './helpers/fixtures';
+
+describe('releaseLevel', () => {
+	const { fileSystem, getFilePath } = createInMemoryProject('release-level', {
+		'index.ts': `import { Options } from './options';\nexport declare function create(options: Options): void;\n`,
+		'options.ts': `/**\n * @internal\n */\nexport interface Options {\n\tname: string;\n}\n`,
+	});
+
+	it('should throw an error if a trimmed declaration is referenced by a kept one', () => {
+		assert.throws(
+			() => generateDtsBundle([{ filePath: getFilePath('index.ts'), output: { releaseLevel: 'public' } }], { fileSystem, logger: silentLogger }),
+			/"Options" is marked as @internal and cannot be trimmed from "public" output because it is referenced by "create"/
+		);
+	});
+
+	it('should keep a referenced declaration if its release tag is allowed', () => {
+		const [dts] = generateDtsBundle([{ filePath: getFilePath('index.ts'), output: { releaseLevel: 'internal', noBanner: true } }], { fileSystem, logger: silentLogger });
+		assert.ok(dts.indexOf('export interface Options') !== -1);
+	});
+});
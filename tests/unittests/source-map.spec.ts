@@ -0,0 +1,34 @@
+import * as assert from 'assert';
+
+import { createSourceMap, getOriginalPositionGetter, relocateSourceMap } from '../../src/helpers/source-map';
+
+describe('source maps', () => {
+	const map = createSourceMap([
+		[
+			{ generatedCharacter: 0, source: { fileName: '/project/src/a.ts', line: 2, character: 0 } },
+			{ generatedCharacter: 17, source: { fileName: '/project/src/a.ts', line: 2, character: 17 } },
+		],
+		[],
+		[
+			{ generatedCharacter: 4, source: { fileName: '/project/src/b.ts', line: 10, character: 4 } },
+		],
+	]);
+
+	it('should map positions to original ones', () => {
+		const getOriginalPosition = getOriginalPositionGetter(map, '/project/out/index.d.ts.map');
+
+		assert.deepStrictEqual(getOriginalPosition(0, 5), { fileName: '/project/src/a.ts', line: 2, character: 0 });
+		assert.deepStrictEqual(getOriginalPosition(0, 20), { fileName: '/project/src/a.ts', line: 2, character: 17 });
+		assert.strictEqual(getOriginalPosition(1, 0), null);
+		assert.strictEqual(getOriginalPosition(2, 0), null);
+		assert.deepStrictEqual(getOriginalPosition(2, 4), { fileName: '/project/src/b.ts', line: 10, character: 4 });
+	});
+
+	it('should make sources relative to the output file', () => {
+		const relocatedMap = relocateSourceMap(map, '/project/out/index.d.ts');
+
+		assert.strictEqual(relocatedMap.file, 'index.d.ts');
+		assert.deepStrictEqual(relocatedMap.sources, ['../src/a.ts', '../src/b.ts']);
+		assert.deepStrictEqual(getOriginalPositionGetter(relocatedMap, '/project/out/index.d.ts.map')(2, 4), { fileName: '/project/src/b.ts', line: 10, character: 4 });
+	});
+});
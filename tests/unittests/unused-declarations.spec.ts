@@ -0,0 +1,57 @@
+import * as assert from 'assert';
+
+import { generateDtsBundles, mergeUnusedDeclarations, DtsBundle, UnusedDeclarationsFile } from '../../src/bundle-generator';
+
+import { createInMemoryProject, silentLogger } from './helpers/fixtures';
+
+describe('unusedDeclarations', () => {
+	it('should return unused declarations of local files', () => {
+		const { fileSystem, getFilePath } = createInMemoryProject('unused', {
+			'index.ts': `import { Options } from './options';\nexport declare function create(options: Options): void;\n`,
+			'options.ts': `export interface Options {}\nexport interface Unused {}\n`,
+		});
+
+		const [bundle] = generateDtsBundles([{ filePath: getFilePath('index.ts') }], { fileSystem, logger: silentLogger, unusedDeclarations: true });
+
+		// files without unused declarations are returned as well to merge reports
+		assert.deepStrictEqual(bundle.unusedDeclarations, [
+			{
+				fileName: getFilePath('index.ts'),
+				declarations: [],
+			},
+			{
+				fileName: getFilePath('options.ts'),
+				declarations: [{ name: 'Unused', kind: 'InterfaceDeclaration', location: { fileName: getFilePath('options.ts'), line: 2, column: 18 } }],
+			},
+		]);
+	});
+
+	it('should merge reports of entries compiled with different tsconfigs', () => {
+		const { fileSystem, getFilePath } = createInMemoryProject('unused-several-configs', {
+			'a-tsconfig.json': JSON.stringify({ compilerOptions: { strict: true, types: [] }, files: ['a.ts'] }),
+			// a.ts is a part of the compilation, but it isn't an entry of it so its exports are unused there
+			'b-tsconfig.json': JSON.stringify({ compilerOptions: { strict: true, types: [] }, files: ['a.ts', 'b.ts'] }),
+			'a.ts': `import { A } from './shared';\nexport declare function a(options: A): void;\n`,
+			'b.ts': `import { B } from './shared';\nexport declare function b(options: B): void;\n`,
+			'shared.ts': `export interface A {}\nexport interface B {}\nexport interface Unused {}\n`,
+		});
+
+		const bundles = generateDtsBundles(
+			[
+				{ filePath: getFilePath('a.ts'), preferredConfigPath: getFilePath('a-tsconfig.json') },
+				{ filePath: getFilePath('b.ts'), preferredConfigPath: getFilePath('b-tsconfig.json') },
+			],
+			{ fileSystem, logger: silentLogger, unusedDeclarations: true }
+		);
+
+		const reports = bundles.map((bundle: DtsBundle) => bundle.unusedDeclarations as UnusedDeclarationsFile[]);
+		assert.notStrictEqual(reports[0], reports[1]);
+
+		assert.deepStrictEqual(mergeUnusedDeclarations(reports), [
+			{
+				fileName: getFilePath('shared.ts'),
+				declarations: [{ name: 'Unused', kind: 'InterfaceDeclaration', location: { fileName: getFilePath('shared.ts'), line: 3, column: 18 } }],
+			},
+		]);
+	});
+});
@@ -0,0 +1,40 @@
+import * as assert from 'assert';
+
+import { formatUsageGraph, generateDtsBundles, UsageGraph, UsageGraphFormat, UsageGraphNode } from '../../src/bundle-generator';
+
+import { createInMemoryProject, silentLogger } from './helpers/fixtures';
+
+describe('usageGraph', () => {
+	const { fileSystem, getFilePath } = createInMemoryProject('graph', {
+		'index.ts': `import { Options } from './options';\nexport type Factory = (options: Options) => Promise<void>;\n`,
+		'options.ts': `export interface Options {}\n`,
+	});
+
+	const getUsageGraph = () => {
+		const [bundle] = generateDtsBundles([{ filePath: getFilePath('index.ts') }], { fileSystem, logger: silentLogger, usageGraph: true });
+		return bundle.usageGraph as UsageGraph;
+	};
+
+	it('should return the usage graph', () => {
+		const { nodes, edges } = getUsageGraph();
+
+		// Promise is declared in a default library so it is omitted
+		assert.deepStrictEqual(
+			nodes.map((node: UsageGraphNode) => [node.name, node.kind, node.fileName, node.moduleType, node.exportedNames]),
+			[
+				['Factory', 'TypeAliasDeclaration', getFilePath('index.ts'), 'inlined', ['Factory']],
+				['Options', 'InterfaceDeclaration', getFilePath('options.ts'), 'inlined', []],
+				['options', 'Parameter', getFilePath('index.ts'), 'inlined', []],
+			]
+		);
+		assert.deepStrictEqual(edges, [{ from: 0, to: 1 }, { from: 0, to: 2 }]);
+	});
+
+	it('should format the usage graph', () => {
+		const graph = getUsageGraph();
+
+		assert.ok(formatUsageGraph(graph, 'dot').indexOf('\tn0 -> n2;\n') !== -1);
+		assert.deepStrictEqual(JSON.parse(formatUsageGraph(graph, 'json')), graph);
+		assert.throws(() => formatUsageGraph(graph, 'svg' as UsageGraphFormat), /Unknown usage graph format "svg"/);
+	});
+});
@@ -0,0 +1,174 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as ts from 'typescript';
+
+import { EntryPointConfig } from '../../src/bundle-generator';
+import { getAbsolutePath } from '../../src/helpers/get-absolute-path';
+import { withLogger } from '../../src/logger';
+import { watchEntries, Watcher } from '../../src/watch';
+
+import { silentLogger } from './helpers/fixtures';
+
+interface TestSystem extends ts.System {
+	/**
+	 * Calls watchers of the file and then runs scheduled updates.
+	 */
+	changeFile(fileName: string, eventKind: ts.FileWatcherEventKind): void;
+}
+
+/**
+ * Creates a system which uses the real file system, but calls watchers and timeouts on demand only.
+ */
+function createTestSystem(): TestSystem {
+	const fileWatchers = new Map<string, Set<ts.FileWatcherCallback>>();
+	let timeouts = new Map<number, () => void>();
+	let lastTimeoutId = 0;
+
+	return {
+		...ts.sys,
+		watchFile: (fileName: string, callback: ts.FileWatcherCallback) => {
+			const absolutePath = getAbsolutePath(fileName);
+			let callbacks = fileWatchers.get(absolutePath);
+			if (callbacks === undefined) {
+				callbacks = new Set();
+				fileWatchers.set(absolutePath, callbacks);
+			}
+
+			callbacks.add(callback);
+			return { close: () => (callbacks as Set<ts.FileWatcherCallback>).delete(callback) };
+		},
+		watchDirectory: () => ({ close: () => undefined }),
+		// tslint:disable-next-line:no-any
+		setTimeout: (callback: (...args: any[]) => void, ms: number, ...args: any[]) => {
+			lastTimeoutId += 1;
+			timeouts.set(lastTimeoutId, () => callback(...args));
+			return lastTimeoutId;
+		},
+		clearTimeout: (timeoutId: number) => timeouts.delete(timeoutId),
+		changeFile: (fileName: string, eventKind: ts.FileWatcherEventKind) => {
+			const callbacks = fileWatchers.get(getAbsolutePath(fileName));
+			if (callbacks !== undefined) {
+				Array.from(callbacks).forEach((callback: ts.FileWatcherCallback) => callback(fileName, eventKind));
+			}
+
+			while (timeouts.size !== 0) {
+				const scheduledTimeouts = Array.from(timeouts.values());
+				timeouts = new Map();
+				scheduledTimeouts.forEach((timeout: () => void) => timeout());
+			}
+		},
+	};
+}
+
+describe('watchEntries', () => {
+	let tmpDir: string;
+	let system: TestSystem;
+	let watcher: Watcher | null;
+	let changes: number[][];
+
+	const getFileName = (fileName: string) => path.join(tmpDir, fileName);
+	const writeFile = (fileName: string, content: string) => fs.writeFileSync(getFileName(fileName), content);
+
+	const changeFile = (fileName: string, eventKind: ts.FileWatcherEventKind) => {
+		withLogger(silentLogger, () => system.changeFile(getFileName(fileName), eventKind));
+	};
+
+	beforeEach(() => {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dts-bundle-generator-watch-'));
+
+		writeFile('tsconfig.base.json', JSON.stringify({ compilerOptions: { strict: true, types: [] } }));
+		writeFile('tsconfig.json', JSON.stringify({ extends: './tsconfig.base.json' }));
+		writeFile('a.ts', `import { Options } from './options';\nexport declare function a(options: Options): void;\n`);
+		writeFile('b.ts', 'export declare function b(): void;\n');
+		writeFile('options.ts', 'export interface Options { name: string; }\n');
+
+		startWatching([{ filePath: getFileName('a.ts') }, { filePath: getFileName('b.ts') }]);
+	});
+
+	afterEach(() => {
+		stopWatching();
+		fs.rmdirSync(tmpDir, { recursive: true });
+	});
+
+	const startWatching = (entries: EntryPointConfig[]) => {
+		system = createTestSystem();
+		changes = [];
+		watcher = withLogger(silentLogger, () => watchEntries(entries, {}, (entriesIndexes: number[]) => changes.push(entriesIndexes), system));
+	};
+
+	const stopWatching = () => {
+		if (watcher !== null) {
+			watcher.close();
+			watcher = null;
+		}
+	};
+
+	it('should report all entries right after watching is started', () => {
+		assert.deepStrictEqual(changes, [[0, 1]]);
+	});
+
+	it('should report entries which depend on a changed file', () => {
+		writeFile('options.ts', 'export interface Options { name: string; size: number; }\n');
+		changeFile('options.ts', ts.FileWatcherEventKind.Changed);
+
+		writeFile('b.ts', 'export declare function b(): number;\n');
+		changeFile('b.ts', ts.FileWatcherEventKind.Changed);
+
+		assert.deepStrictEqual(changes, [[0, 1], [0], [1]]);
+	});
+
+	it('should report entries which depended on a deleted file', () => {
+		fs.unlinkSync(getFileName('options.ts'));
+		changeFile('options.ts', ts.FileWatcherEventKind.Deleted);
+
+		assert.deepStrictEqual(changes, [[0, 1], [0]]);
+	});
+
+	it('should not report entries if a changed file has the same content', () => {
+		changeFile('options.ts', ts.FileWatcherEventKind.Changed);
+
+		assert.deepStrictEqual(changes, [[0, 1]]);
+	});
+
+	it('should report all entries of the project if its tsconfig or a config which it extends is changed', () => {
+		writeFile('tsconfig.json', JSON.stringify({ extends: './tsconfig.base.json', compilerOptions: { noImplicitAny: false } }));
+		changeFile('tsconfig.json', ts.FileWatcherEventKind.Changed);
+
+		writeFile('tsconfig.base.json', JSON.stringify({ compilerOptions: { strict: false, types: [] } }));
+		changeFile('tsconfig.base.json', ts.FileWatcherEventKind.Changed);
+
+		assert.deepStrictEqual(changes, [[0, 1], [0, 1], [0, 1]]);
+	});
+
+	describe('entries with import paths', () => {
+		beforeEach(() => {
+			// package exports might import each other, e.g. the "a" entry imports "b" one
+			writeFile('a.ts', `import { Options } from './options';\nimport { b } from './b';\nexport declare function a(options: Options): typeof b;\n`);
+			writeFile('b.ts', `import { Options } from './options';\nexport declare function b(options: Options): void;\n`);
+			writeFile('c.ts', 'export declare function c(): void;\n');
+
+			stopWatching();
+			startWatching([
+				{ filePath: getFileName('a.ts'), importPath: 'package/a' },
+				{ filePath: getFileName('b.ts'), importPath: 'package/b' },
+				{ filePath: getFileName('c.ts'), importPath: 'package/c' },
+			]);
+		});
+
+		it('should report all entries if a file shared by some of them is changed', () => {
+			writeFile('options.ts', 'export interface Options { name: string; size: number; }\n');
+			changeFile('options.ts', ts.FileWatcherEventKind.Changed);
+
+			assert.deepStrictEqual(changes, [[0, 1, 2], [0, 1, 2]]);
+		});
+
+		it('should report all entries if a file of one of them is changed', () => {
+			writeFile('c.ts', 'export declare function c(): number;\n');
+			changeFile('c.ts', ts.FileWatcherEventKind.Changed);
+
+			assert.deepStrictEqual(changes, [[0, 1, 2], [0, 1, 2]]);
+		});
+	});
+});